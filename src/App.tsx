@@ -1,10 +1,21 @@
+import { HashRouter, Route, Routes } from "react-router-dom";
 import PaletteAnalyzerDemoPage from "./components/color/PaletteAnalyzerDemoPage";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { PaletteLibraryProvider } from "./contexts/PaletteLibraryContext";
 
 function App() {
   return (
     <ThemeProvider>
-      <PaletteAnalyzerDemoPage />
+      <PaletteLibraryProvider>
+        {/* Hash routing, since GitHub Pages can't serve deep links. The page
+            matches shared "/p/:colors" links itself, so it keeps its state
+            while it rewrites the URL. */}
+        <HashRouter>
+          <Routes>
+            <Route path="*" element={<PaletteAnalyzerDemoPage />} />
+          </Routes>
+        </HashRouter>
+      </PaletteLibraryProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  contrastAlgorithmLabels,
+  contrastUsageLabels,
+  type ConformanceTarget,
+  type ContrastAlgorithm,
+  type ContrastUsage,
+} from '../lib/audit';
+import { auditHtmlSnapshot, getStylesheetLinks } from '../lib/html-snapshot';
+import {
+  detectPaletteFormat,
+  paletteFileFormats,
+  parsePaletteFile,
+  type PaletteFileFormat,
+} from '../lib/palette-parsers';
+import {
+  buildAuditReport,
+  buildPageAuditReport,
+  pageReportFormatters,
+  reportFormatters,
+  type ReportFormat,
+} from './report';
+
+const USAGE = `Usage: color-audit audit <file> [options]
+       color-audit page <file.html> [--css <file>]... [options]
+
+audit: audits the contrast of every color pair in a palette file.
+page:  audits the text of an HTML page against the background it renders on,
+       using the page's <style> elements, its local linked stylesheets and
+       any --css files. Font size decides between normal and large text.
+
+Both exit with code 1 when contrast falls below the required level.
+
+Files: .json/.tokens (plain or design tokens), .css (custom properties),
+       .scss/.less (variables), .js/.cjs/.mjs/.ts (Tailwind config)
+
+Options:
+  --min-level <AA|AAA>         Required conformance level (default: AA)
+  --algorithm <wcag|apca>      Contrast algorithm (default: wcag)
+  --format <text|json|junit>   Report format (default: text)
+  -h, --help                   Show this help
+
+audit options:
+  --usage <usage>              normal-text, large-text or ui-component (default: normal-text)
+  --min-score <0-100>          Also fail when the accessibility score is lower
+  --input-format <format>      Override detection: json, css, scss, less or tailwind
+
+page options:
+  --css <file>                 Stylesheet applied before the page's own styles (repeatable)`;
+
+// Options that only one command reads
+const COMMAND_OPTIONS = {
+  audit: ['usage', 'min-score', 'input-format'],
+  page: ['css'],
+} as const;
+
+// Exit codes: 0 passed, 1 audit failed, 2 usage or input error
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+const oneOf = <T extends string>(value: string, allowed: readonly T[], option: string): T => {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`Invalid ${option} "${value}". Expected one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+// Linked stylesheets are read relative to the page; remote ones are skipped
+const readLinkedStylesheets = (file: string, html: string): { path: string; css: string }[] =>
+  getStylesheetLinks(html).flatMap((href) => {
+    if (/^(?:[a-z][\w+.-]*:)?\/\//i.test(href)) {
+      console.error(`color-audit: skipping remote stylesheet ${href}`);
+      return [];
+    }
+    const path = resolve(dirname(file), href.split(/[?#]/)[0]);
+    if (!existsSync(path)) {
+      console.error(`color-audit: skipping missing stylesheet ${href}`);
+      return [];
+    }
+    return [{ path: href, css: readFileSync(path, 'utf8') }];
+  });
+
+const runPage = (
+  file: string,
+  cssFiles: string[],
+  options: { algorithm: ContrastAlgorithm; minLevel: ConformanceTarget },
+  format: ReportFormat
+): number => {
+  const html = readFileSync(file, 'utf8');
+  const stylesheets = [
+    ...cssFiles.map((path) => ({ path, css: readFileSync(path, 'utf8') })),
+    ...readLinkedStylesheets(file, html),
+  ];
+  const results = auditHtmlSnapshot(
+    html,
+    stylesheets.map(({ css }) => css),
+    { algorithm: options.algorithm, target: options.minLevel }
+  );
+  if (results.length === 0) {
+    throw new Error(`Found no visible text in "${file}"`);
+  }
+
+  const report = buildPageAuditReport(
+    basename(file),
+    stylesheets.map(({ path }) => path),
+    results,
+    options
+  );
+  console.log(pageReportFormatters[format](report));
+  return report.passed ? 0 : EXIT_FAILED;
+};
+
+const run = (argv: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'min-level': { type: 'string', default: 'AA' },
+      usage: { type: 'string' },
+      algorithm: { type: 'string', default: 'wcag' },
+      'min-score': { type: 'string' },
+      format: { type: 'string', default: 'text' },
+      'input-format': { type: 'string' },
+      css: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const [command, file] = positionals;
+  if ((command !== 'audit' && command !== 'page') || !file) {
+    throw new Error(`Expected "audit <file>" or "page <file.html>"\n\n${USAGE}`);
+  }
+  const otherCommand = command === 'page' ? 'audit' : 'page';
+  const unsupported = COMMAND_OPTIONS[otherCommand].find((option) => values[option] !== undefined);
+  if (unsupported) {
+    throw new Error(`--${unsupported} only applies to the ${otherCommand} command`);
+  }
+
+  const minLevel = oneOf<ConformanceTarget>(values['min-level'], ['AA', 'AAA'], '--min-level');
+  const usage = oneOf<ContrastUsage>(
+    values.usage ?? 'normal-text',
+    Object.keys(contrastUsageLabels) as ContrastUsage[],
+    '--usage'
+  );
+  const algorithm = oneOf<ContrastAlgorithm>(
+    values.algorithm,
+    Object.keys(contrastAlgorithmLabels) as ContrastAlgorithm[],
+    '--algorithm'
+  );
+  const format = oneOf<ReportFormat>(
+    values.format,
+    Object.keys(reportFormatters) as ReportFormat[],
+    '--format'
+  );
+
+  if (command === 'page') {
+    return runPage(file, values.css ?? [], { algorithm, minLevel }, format);
+  }
+
+  let minScore: number | undefined;
+  if (values['min-score'] !== undefined) {
+    minScore = Number(values['min-score']);
+    if (Number.isNaN(minScore)) {
+      throw new Error(`Invalid --min-score "${values['min-score']}". Expected a number`);
+    }
+  }
+
+  const inputFormat = values['input-format']
+    ? oneOf<PaletteFileFormat>(values['input-format'], paletteFileFormats, '--input-format')
+    : detectPaletteFormat(file);
+  if (!inputFormat) {
+    throw new Error(`Can't tell the palette format of "${file}". Use --input-format`);
+  }
+
+  const colors = parsePaletteFile(readFileSync(file, 'utf8'), inputFormat);
+  if (colors.length < 2) {
+    throw new Error(`Found ${colors.length} color(s) in "${file}". At least two are needed`);
+  }
+
+  const report = buildAuditReport(basename(file), colors, { algorithm, usage, minLevel, minScore });
+  console.log(reportFormatters[format](report));
+  return report.passed ? 0 : EXIT_FAILED;
+};
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  console.error(`color-audit: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = EXIT_ERROR;
+}
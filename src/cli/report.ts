@@ -0,0 +1,334 @@
+import {
+  contrastAlgorithmLabels,
+  contrastUsageLabels,
+  formatContrastValue,
+  getContrastValue,
+  type ConformanceTarget,
+  type ContrastAlgorithm,
+  type ContrastUsage,
+} from '../lib/audit';
+import {
+  analyzePalette,
+  describeRecommendation,
+  type PaletteContrast,
+  type RecommendationCode,
+  type RecommendationSeverity,
+} from '../lib/analysis';
+import { describeHarmony } from '../lib/harmony';
+import type { PageContrastResult } from '../lib/page-audit';
+import type { NamedColor } from '../lib/palette-parsers';
+
+/**
+ * Output formats supported by the CLI.
+ */
+export type ReportFormat = 'text' | 'json' | 'junit';
+
+export interface AuditOptions {
+  algorithm: ContrastAlgorithm;
+  usage: ContrastUsage;
+  minLevel: ConformanceTarget;
+  /** Fail when the accessibility score is below this value */
+  minScore?: number;
+}
+
+export interface PairResult extends PaletteContrast {
+  foregroundName: string;
+  backgroundName: string;
+}
+
+export interface ReportRecommendation {
+  code: RecommendationCode;
+  severity: RecommendationSeverity;
+  message: string;
+  colors: string[];
+}
+
+export interface AuditReport {
+  source: string;
+  options: AuditOptions;
+  colors: NamedColor[];
+  pairs: PairResult[];
+  scores: {
+    accessibility: number;
+    harmony: number;
+    overall: number;
+  };
+  /** Closest harmony scheme, e.g. "Near-triadic, color 3 is 18° off" */
+  harmony: string;
+  recommendations: ReportRecommendation[];
+  failures: PairResult[];
+  passed: boolean;
+}
+
+/**
+ * Audits every foreground/background pair of a palette file with `analyzePalette`.
+ */
+export const buildAuditReport = (
+  source: string,
+  colors: NamedColor[],
+  options: AuditOptions
+): AuditReport => {
+  const analysis = analyzePalette(
+    colors.map(({ color }) => color),
+    {
+      algorithm: options.algorithm,
+      usage: options.usage,
+      target: options.minLevel,
+      includeImprovedPalette: false,
+    }
+  );
+
+  const pairs: PairResult[] = analysis.contrastScores.map((pair) => ({
+    ...pair,
+    foregroundName: colors[pair.foregroundIndex].name,
+    backgroundName: colors[pair.backgroundIndex].name,
+  }));
+  const failures = pairs.filter((pair) => !pair.passes);
+  const meetsScore =
+    options.minScore === undefined || analysis.accessibilityScore >= options.minScore;
+
+  return {
+    source,
+    options,
+    colors,
+    pairs,
+    scores: {
+      accessibility: analysis.accessibilityScore,
+      harmony: analysis.harmonyScore,
+      overall: analysis.overallScore,
+    },
+    harmony: describeHarmony(analysis.harmony),
+    recommendations: analysis.recommendations.map((recommendation) => ({
+      code: recommendation.code,
+      severity: recommendation.severity,
+      message: describeRecommendation(recommendation, options.algorithm),
+      colors: recommendation.colors,
+    })),
+    failures,
+    passed: failures.length === 0 && meetsScore,
+  };
+};
+
+const describeTarget = ({ algorithm, usage, minLevel }: AuditOptions): string =>
+  `${contrastAlgorithmLabels[algorithm]} ${minLevel} (${contrastUsageLabels[usage].toLowerCase()})`;
+
+const pairLabel = (pair: PairResult): string =>
+  `${pair.foregroundName} (${pair.foregroundColor}) on ${pair.backgroundName} (${pair.backgroundColor})`;
+
+/**
+ * Renders a report as plain text with a contrast matrix
+ * (rows are backgrounds, columns are foregrounds).
+ */
+export const formatTextReport = (report: AuditReport): string => {
+  const { algorithm } = report.options;
+  const lines: string[] = [];
+  const nameWidth = Math.max(...report.colors.map(({ name }) => name.length), 4);
+  const cellWidth = 9;
+
+  lines.push(`Palette: ${report.source} (${report.colors.length} colors)`);
+  lines.push(`Target:  ${describeTarget(report.options)}`);
+  lines.push('');
+  report.colors.forEach(({ name, color }, index) => {
+    lines.push(`  ${String(index + 1).padStart(2)}. ${name.padEnd(nameWidth)}  ${color}`);
+  });
+  lines.push('');
+
+  lines.push(
+    `${''.padEnd(nameWidth)} ${report.colors
+      .map((_, index) => `#${index + 1}`.padStart(cellWidth))
+      .join('')}`
+  );
+  report.colors.forEach((background, j) => {
+    const cells = report.colors.map((_, i) => {
+      if (i === j) return '-'.padStart(cellWidth);
+      const pair = report.pairs.find(
+        (item) => item.foregroundIndex === i && item.backgroundIndex === j
+      );
+      if (!pair) return ''.padStart(cellWidth);
+      const value = getContrastValue(pair, algorithm);
+      const formatted = algorithm === 'apca' ? value.toFixed(1) : value.toFixed(2);
+      return `${formatted}${pair.passes ? ' ' : '!'}`.padStart(cellWidth);
+    });
+    lines.push(`${background.name.padEnd(nameWidth)} ${cells.join('')}`);
+  });
+  lines.push('');
+
+  lines.push(`Accessibility score: ${report.scores.accessibility}`);
+  lines.push(`Harmony score:       ${report.scores.harmony} (${report.harmony})`);
+  lines.push(`Overall score:       ${report.scores.overall}`);
+  lines.push('');
+
+  if (report.failures.length > 0) {
+    lines.push(`${report.failures.length} of ${report.pairs.length} pairs below ${describeTarget(report.options)}:`);
+    report.failures.forEach((pair) => {
+      lines.push(`  ✗ ${pairLabel(pair)}: ${formatContrastValue(pair, algorithm)} (${pair.level})`);
+    });
+  } else {
+    lines.push(`All ${report.pairs.length} pairs meet ${describeTarget(report.options)}.`);
+  }
+
+  if (report.recommendations.length > 0) {
+    lines.push('');
+    lines.push('Recommendations:');
+    report.recommendations.forEach(({ severity, message }) => {
+      lines.push(`  [${severity}] ${message}`);
+    });
+  }
+
+  if (report.options.minScore !== undefined && report.scores.accessibility < report.options.minScore) {
+    lines.push(`Accessibility score ${report.scores.accessibility} is below the minimum of ${report.options.minScore}.`);
+  }
+
+  lines.push('');
+  lines.push(report.passed ? 'PASS' : 'FAIL');
+  return lines.join('\n');
+};
+
+/**
+ * Renders a report as JSON.
+ */
+export const formatJsonReport = (report: AuditReport): string =>
+  JSON.stringify(report, null, 2);
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Renders a report as JUnit XML, one test case per pair.
+ */
+export const formatJunitReport = (report: AuditReport): string => {
+  const { algorithm } = report.options;
+  const target = describeTarget(report.options);
+  const cases = report.pairs.map((pair) => {
+    const name = escapeXml(`${pair.foregroundName} on ${pair.backgroundName}`);
+    const open = `    <testcase classname="color-audit.contrast" name="${name}">`;
+    if (pair.passes) return `${open}</testcase>`;
+    const message = escapeXml(`${formatContrastValue(pair, algorithm)} is below ${target}`);
+    return `${open}\n      <failure message="${message}">${escapeXml(pairLabel(pair))}</failure>\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="color-audit" tests="${report.pairs.length}" failures="${report.failures.length}">`,
+    `  <testsuite name="${escapeXml(report.source)}" tests="${report.pairs.length}" failures="${report.failures.length}">`,
+    `    <properties>`,
+    `      <property name="accessibilityScore" value="${report.scores.accessibility}"/>`,
+    `      <property name="harmonyScore" value="${report.scores.harmony}"/>`,
+    `      <property name="overallScore" value="${report.scores.overall}"/>`,
+    `    </properties>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+};
+
+export const reportFormatters: Record<ReportFormat, (report: AuditReport) => string> = {
+  text: formatTextReport,
+  json: formatJsonReport,
+  junit: formatJunitReport,
+};
+
+export interface PageReportOptions {
+  algorithm: ContrastAlgorithm;
+  minLevel: ConformanceTarget;
+}
+
+export interface PageAuditReport {
+  source: string;
+  /** Stylesheets applied to the page, in cascade order */
+  stylesheets: string[];
+  options: PageReportOptions;
+  results: PageContrastResult[];
+  failures: PageContrastResult[];
+  passed: boolean;
+}
+
+/**
+ * Collects the results of a page audit (see `auditHtmlSnapshot`) into a report.
+ */
+export const buildPageAuditReport = (
+  source: string,
+  stylesheets: string[],
+  results: PageContrastResult[],
+  options: PageReportOptions
+): PageAuditReport => {
+  const failures = results.filter((result) => !result.passes);
+  return { source, stylesheets, options, results, failures, passed: failures.length === 0 };
+};
+
+const describePageTarget = ({ algorithm, minLevel }: PageReportOptions): string =>
+  `${contrastAlgorithmLabels[algorithm]} ${minLevel}`;
+
+const describeText = (result: PageContrastResult): string =>
+  `${result.fontSize}px/${result.fontWeight} ${contrastUsageLabels[result.usage].toLowerCase()}`;
+
+const pageResultLabel = (result: PageContrastResult): string =>
+  `${result.selector} "${result.text}": ${result.foregroundColor} on ${result.backgroundColor}`;
+
+/**
+ * Renders a page report as plain text, listing the failing elements.
+ */
+export const formatPageTextReport = (report: PageAuditReport): string => {
+  const { algorithm } = report.options;
+  const target = describePageTarget(report.options);
+  const lines: string[] = [];
+
+  lines.push(`Page:    ${report.source} (${report.results.length} text elements)`);
+  if (report.stylesheets.length > 0) lines.push(`Styles:  ${report.stylesheets.join(', ')}`);
+  lines.push(`Target:  ${target}`);
+  lines.push('');
+
+  if (report.failures.length > 0) {
+    lines.push(`${report.failures.length} of ${report.results.length} text elements below ${target}:`);
+    report.failures.forEach((result) => {
+      lines.push(`  ✗ ${pageResultLabel(result)}`);
+      lines.push(`      ${formatContrastValue(result, algorithm)} (${result.level}), ${describeText(result)}`);
+    });
+  } else {
+    lines.push(`All ${report.results.length} text elements meet ${target}.`);
+  }
+
+  lines.push('');
+  lines.push(report.passed ? 'PASS' : 'FAIL');
+  return lines.join('\n');
+};
+
+/**
+ * Renders a page report as JSON.
+ */
+export const formatPageJsonReport = (report: PageAuditReport): string =>
+  JSON.stringify(report, null, 2);
+
+/**
+ * Renders a page report as JUnit XML, one test case per text element.
+ */
+export const formatPageJunitReport = (report: PageAuditReport): string => {
+  const { algorithm } = report.options;
+  const target = describePageTarget(report.options);
+  const cases = report.results.map((result) => {
+    const open = `    <testcase classname="color-audit.page" name="${escapeXml(result.selector)}">`;
+    if (result.passes) return `${open}</testcase>`;
+    const message = escapeXml(`${formatContrastValue(result, algorithm)} is below ${target} for ${describeText(result)}`);
+    return `${open}\n      <failure message="${message}">${escapeXml(pageResultLabel(result))}</failure>\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="color-audit" tests="${report.results.length}" failures="${report.failures.length}">`,
+    `  <testsuite name="${escapeXml(report.source)}" tests="${report.results.length}" failures="${report.failures.length}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+};
+
+export const pageReportFormatters: Record<ReportFormat, (report: PageAuditReport) => string> = {
+  text: formatPageTextReport,
+  json: formatPageJsonReport,
+  junit: formatPageJunitReport,
+};
@@ -3,13 +3,26 @@ import { motion } from "framer-motion";
 import { Eye, RotateCcw } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
 import Button from "../ui/Button";
+import ScreenshotSimulation from "./ScreenshotSimulation";
 import {
+  cvdAlgorithmLabels,
+  DEFAULT_CVD_ALGORITHM,
+  DEFAULT_CVD_SEVERITY,
+  isAnomalousType,
   simulatePaletteColorBlindness,
   type ColorBlindnessType,
-} from "../../lib/color-utils";
+  type CvdAlgorithm,
+} from "../../lib/cvd";
 
 interface ColorBlindnessSimulationProps {
   palette: string[];
+  type?: ColorBlindnessType;
+  onTypeChange?: (type: ColorBlindnessType) => void;
+  algorithm?: CvdAlgorithm;
+  onAlgorithmChange?: (algorithm: CvdAlgorithm) => void;
+  /** Severity of anomalous types, 0 to 1 */
+  severity?: number;
+  onSeverityChange?: (severity: number) => void;
   className?: string;
 }
 
@@ -52,15 +65,41 @@ const colorBlindnessTypes: {
   },
 ];
 
+const colorBlindnessTypeNames = Object.fromEntries(
+  colorBlindnessTypes.map(({ type, name }) => [type, name])
+) as Record<ColorBlindnessType, string>;
+
 const ColorBlindnessSimulation: React.FC<ColorBlindnessSimulationProps> = ({
   palette,
+  type: externalType,
+  onTypeChange,
+  algorithm: externalAlgorithm,
+  onAlgorithmChange,
+  severity: externalSeverity,
+  onSeverityChange,
   className,
 }) => {
-  const [selectedType, setSelectedType] =
+  const [internalType, setInternalType] =
     useState<ColorBlindnessType>("deuteranopia");
+  const [internalAlgorithm, setInternalAlgorithm] = useState<CvdAlgorithm>(
+    DEFAULT_CVD_ALGORITHM
+  );
+  const [internalSeverity, setInternalSeverity] =
+    useState(DEFAULT_CVD_SEVERITY);
+
+  // Use external state if provided, otherwise use internal state
+  const selectedType = externalType ?? internalType;
+  const setSelectedType = onTypeChange ?? setInternalType;
+  const algorithm = externalAlgorithm ?? internalAlgorithm;
+  const setAlgorithm = onAlgorithmChange ?? setInternalAlgorithm;
+  const severity = externalSeverity ?? internalSeverity;
+  const setSeverity = onSeverityChange ?? setInternalSeverity;
   const [showComparison, setShowComparison] = useState(true);
 
-  const simulatedPalette = simulatePaletteColorBlindness(palette, selectedType);
+  const simulatedPalette = simulatePaletteColorBlindness(palette, selectedType, {
+    algorithm,
+    severity,
+  });
 
   return (
     <div className={className}>
@@ -92,6 +131,50 @@ const ColorBlindnessSimulation: React.FC<ColorBlindnessSimulationProps> = ({
             </select>
           </div>
 
+          {/* Simulation Model */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Simulation Model
+              </label>
+              <select
+                value={algorithm}
+                onChange={(e) => setAlgorithm(e.target.value as CvdAlgorithm)}
+                className="input w-full"
+              >
+                {(Object.keys(cvdAlgorithmLabels) as CvdAlgorithm[]).map(
+                  (id) => (
+                    <option key={id} value={id}>
+                      {cvdAlgorithmLabels[id]}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+            {isAnomalousType(selectedType) && (
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Severity: {Math.round(severity * 100)}%
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={severity}
+                  onChange={(e) => setSeverity(Number(e.target.value))}
+                  className="w-full"
+                  aria-label="Severity"
+                />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-surface-500 dark:text-surface-400 -mt-3">
+            Simulated in linear RGB. Brettel is the most accurate for tritan
+            deficiencies; Machado models anomalous trichromacy directly, while
+            Brettel and Viénot blend towards the full deficiency.
+          </p>
+
           {/* Toggle Comparison View */}
           <div className="flex items-center gap-2">
             <Button
@@ -104,7 +187,11 @@ const ColorBlindnessSimulation: React.FC<ColorBlindnessSimulationProps> = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setSelectedType("deuteranopia")}
+              onClick={() => {
+                setSelectedType("deuteranopia");
+                setAlgorithm(DEFAULT_CVD_ALGORITHM);
+                setSeverity(DEFAULT_CVD_SEVERITY);
+              }}
             >
               <RotateCcw size={14} className="mr-1" />
               Reset
@@ -290,6 +377,15 @@ const ColorBlindnessSimulation: React.FC<ColorBlindnessSimulationProps> = ({
             </div>
           </div>
 
+          {/* Uploaded Screenshot */}
+          <ScreenshotSimulation
+            type={selectedType}
+            onTypeChange={setSelectedType}
+            algorithm={algorithm}
+            severity={severity}
+            typeNames={colorBlindnessTypeNames}
+          />
+
           {/* Accessibility Tips */}
           <div className="bg-surface-50 dark:bg-surface-800 rounded-lg p-4">
             <h5 className="text-sm font-medium mb-2">Accessibility Tips</h5>
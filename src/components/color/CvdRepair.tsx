@@ -0,0 +1,216 @@
+import React, { useState } from "react";
+import { Wand2, Check, ArrowRight, AlertTriangle } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import Button from "../ui/Button";
+import type { ContrastAlgorithm } from "../../lib/audit";
+import type { CvdAlgorithm } from "../../lib/cvd";
+import type { HistoryAction } from "../../lib/history";
+import { getPaletteHexes, type PaletteColor } from "../../lib/palette";
+import type { ColorPairing } from "../../lib/roles";
+import { cn, generateCvdSafePalette, type CvdRepairResult } from "../../lib/utils";
+
+interface CvdRepairProps {
+  /** Base palette; repairs are applied to it */
+  palette: PaletteColor[];
+  setPalette: (
+    update: (prev: PaletteColor[]) => PaletteColor[],
+    action?: HistoryAction
+  ) => void;
+  /** Declared pairings, whose contrast requirements the repair keeps */
+  pairings?: ColorPairing[];
+  contrastAlgorithm?: ContrastAlgorithm;
+  cvdAlgorithm?: CvdAlgorithm;
+  threshold?: number;
+  className?: string;
+}
+
+const CvdRepair: React.FC<CvdRepairProps> = ({
+  palette,
+  setPalette,
+  pairings,
+  contrastAlgorithm,
+  cvdAlgorithm,
+  threshold,
+  className,
+}) => {
+  const [result, setResult] = useState<CvdRepairResult | null>(null);
+  // Indices of the changes that will be applied
+  const [accepted, setAccepted] = useState<number[]>([]);
+
+  const label = (index: number) =>
+    palette[index]?.name || palette[index]?.hex || `#${index + 1}`;
+
+  const generate = () => {
+    const repair = generateCvdSafePalette(getPaletteHexes(palette), {
+      threshold,
+      pairings,
+      contrastAlgorithm,
+      simulation: { algorithm: cvdAlgorithm },
+      fixed: palette
+        .map((color, index) => (color.locked ? index : -1))
+        .filter((index) => index >= 0),
+    });
+    setResult(repair);
+    setAccepted(repair.changes.map((change) => change.index));
+  };
+
+  const toggle = (index: number) =>
+    setAccepted((prev) =>
+      prev.includes(index)
+        ? prev.filter((item) => item !== index)
+        : [...prev, index]
+    );
+
+  const apply = () => {
+    if (!result) return;
+    const ids = new Map(
+      result.changes
+        .filter((change) => accepted.includes(change.index))
+        .map((change) => [palette[change.index].id, change.to])
+    );
+    setPalette(
+      (prev) =>
+        prev.map((color) => {
+          const hex = ids.get(color.id);
+          return hex ? { ...color, hex } : color;
+        }),
+      { label: "Apply CVD-safe repair" }
+    );
+    setResult(null);
+  };
+
+  const after = palette.map((color, index) => {
+    const change = result?.changes.find((item) => item.index === index);
+    return change && accepted.includes(index) ? change.to : color.hex;
+  });
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wand2 size={20} />
+            CVD-Safe Repair
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-surface-600 dark:text-surface-400">
+            Nudges confusable colors in OKLCH, mostly in lightness and hue,
+            until every pair stays distinguishable under protan, deutan and
+            tritan simulation. Locked colors and passing role pairings are
+            kept.
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            icon={<Wand2 size={14} />}
+            onClick={generate}
+            disabled={palette.length < 2}
+          >
+            Suggest Repair
+          </Button>
+
+          {result && result.changes.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-success-600 dark:text-success-400">
+              <Check size={16} />
+              {result.unresolved.length === 0
+                ? "No changes needed: every pair is already distinguishable."
+                : "No repair found within the allowed changes."}
+            </div>
+          )}
+
+          {result && result.changes.length > 0 && (
+            <>
+              {/* Before/after strips */}
+              <div className="space-y-2">
+                {[
+                  { title: "Before", colors: getPaletteHexes(palette) },
+                  { title: "After", colors: after },
+                ].map(({ title, colors }) => (
+                  <div key={title} className="flex items-center gap-3">
+                    <span className="text-xs text-surface-500 dark:text-surface-400 w-12">
+                      {title}
+                    </span>
+                    <div className="flex flex-1 h-8 rounded-lg overflow-hidden border border-surface-200 dark:border-surface-700">
+                      {colors.map((color, index) => (
+                        <div
+                          key={palette[index].id}
+                          className="flex-1"
+                          style={{ backgroundColor: color }}
+                          title={`${label(index)}: ${color}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Per-color changes */}
+              <ul className="space-y-2">
+                {result.changes.map((change) => (
+                  <li key={change.index}>
+                    <label
+                      className={cn(
+                        "flex items-center gap-3 p-2 rounded-lg border text-sm cursor-pointer",
+                        accepted.includes(change.index)
+                          ? "border-primary-500 bg-primary-50 dark:bg-primary-900/20"
+                          : "border-surface-200 dark:border-surface-700"
+                      )}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={accepted.includes(change.index)}
+                        onChange={() => toggle(change.index)}
+                      />
+                      <span className="flex-1 truncate font-medium">
+                        {label(change.index)}
+                      </span>
+                      <div
+                        className="w-6 h-6 rounded border border-surface-200 dark:border-surface-600"
+                        style={{ backgroundColor: change.from }}
+                      />
+                      <span className="font-mono text-xs">{change.from}</span>
+                      <ArrowRight size={14} className="text-surface-400" />
+                      <div
+                        className="w-6 h-6 rounded border border-surface-200 dark:border-surface-600"
+                        style={{ backgroundColor: change.to }}
+                      />
+                      <span className="font-mono text-xs">{change.to}</span>
+                      <span className="text-xs text-surface-500 dark:text-surface-400 w-16 text-right">
+                        ΔE {change.deltaE.toFixed(1)}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+
+              {result.unresolved.length > 0 && (
+                <div className="flex items-start gap-2 text-sm text-warning-600 dark:text-warning-400">
+                  <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                  <span>
+                    Still confusable:{" "}
+                    {result.unresolved
+                      .map(([i, j]) => `${label(i)} / ${label(j)}`)
+                      .join(", ")}
+                    . Unlock colors or lower the threshold to go further.
+                  </span>
+                </div>
+              )}
+
+              <Button
+                size="sm"
+                icon={<Check size={14} />}
+                onClick={apply}
+                disabled={accepted.length === 0}
+              >
+                Apply {accepted.length} Change{accepted.length !== 1 && "s"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CvdRepair;
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from "react";
+import { ScanEye, CheckCircle, AlertTriangle } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import type { ColorBlindnessType, CvdAlgorithm } from "../../lib/cvd";
+import {
+  auditDistinguishability,
+  describeConfusablePair,
+  DEFAULT_CONFUSABLE_THRESHOLD,
+} from "../../lib/cvd-audit";
+import { getPaletteHexes, type PaletteColor } from "../../lib/palette";
+import { cn } from "../../lib/utils";
+
+interface DistinguishabilityAuditProps {
+  palette: PaletteColor[];
+  /** Deficiency shown in the matrix */
+  type: ColorBlindnessType;
+  onTypeChange?: (type: ColorBlindnessType) => void;
+  algorithm?: CvdAlgorithm;
+  severity?: number;
+  /** ΔE2000 below which pairs are confusable */
+  threshold?: number;
+  onThresholdChange?: (threshold: number) => void;
+  className?: string;
+}
+
+const DistinguishabilityAudit: React.FC<DistinguishabilityAuditProps> = ({
+  palette,
+  type,
+  onTypeChange,
+  algorithm,
+  severity,
+  threshold: externalThreshold,
+  onThresholdChange,
+  className,
+}) => {
+  const [internalThreshold, setInternalThreshold] = useState(
+    DEFAULT_CONFUSABLE_THRESHOLD
+  );
+
+  // Use external state if provided, otherwise use internal state
+  const threshold = externalThreshold ?? internalThreshold;
+  const setThreshold = onThresholdChange ?? setInternalThreshold;
+
+  const hexes = getPaletteHexes(palette);
+  const hexKey = JSON.stringify(hexes);
+  const results = useMemo(
+    () =>
+      auditDistinguishability(JSON.parse(hexKey), {
+        threshold,
+        algorithm,
+        severity,
+      }),
+    [hexKey, threshold, algorithm, severity]
+  );
+
+  const labels = palette.map((color) =>
+    color.name ? `${color.name} (${color.hex})` : color.hex
+  );
+  const selected = results.find((result) => result.type === type);
+  const confusable = results.flatMap((result) =>
+    result.confusablePairs.map((pair) => ({ type: result.type, pair }))
+  );
+  const isConfusable = (i: number, j: number) =>
+    selected?.confusablePairs.some(
+      (pair) =>
+        (pair.firstIndex === i && pair.secondIndex === j) ||
+        (pair.firstIndex === j && pair.secondIndex === i)
+    ) ?? false;
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanEye size={20} />
+            Color Vision Distinguishability
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Confusable below ΔE2000 {threshold}
+            </label>
+            <input
+              type="range"
+              min={1}
+              max={30}
+              step={1}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-full"
+              aria-label="Confusable threshold"
+            />
+            <p className="text-xs text-surface-500 dark:text-surface-400 mt-1">
+              Pairs that are distinct with normal vision but fall below this
+              perceptual distance once simulated are flagged.
+            </p>
+          </div>
+
+          {/* Summary across all deficiencies */}
+          <div>
+            <h4 className="text-sm font-medium mb-3">Summary</h4>
+            {palette.length < 2 ? (
+              <p className="text-sm text-surface-500 dark:text-surface-400">
+                Add at least two colors to audit distinguishability.
+              </p>
+            ) : confusable.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-success-600 dark:text-success-400">
+                <CheckCircle size={16} />
+                All colors stay distinguishable under every simulated
+                deficiency.
+              </div>
+            ) : (
+              <ul className="space-y-2">
+                {confusable.map(({ type: pairType, pair }) => (
+                  <li key={`${pairType}-${pair.firstIndex}-${pair.secondIndex}`}>
+                    <button
+                      onClick={() => onTypeChange?.(pairType)}
+                      className={cn(
+                        "w-full flex items-center gap-3 p-2 rounded-lg text-left text-sm transition-colors",
+                        pairType === type
+                          ? "bg-warning-50 dark:bg-warning-900/20"
+                          : "hover:bg-surface-100 dark:hover:bg-surface-700"
+                      )}
+                    >
+                      <AlertTriangle
+                        size={16}
+                        className="text-warning-500 flex-shrink-0"
+                      />
+                      <div className="flex flex-shrink-0">
+                        {[pair.firstIndex, pair.secondIndex].map((index) => (
+                          <div
+                            key={index}
+                            className="w-5 h-5 rounded border border-surface-200 dark:border-surface-600"
+                            style={{ backgroundColor: hexes[index] }}
+                          />
+                        ))}
+                      </div>
+                      <span className="flex-1">
+                        {describeConfusablePair(pair, pairType, labels)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* ΔE matrix for the selected deficiency */}
+          {selected && palette.length >= 2 && (
+            <div>
+              <h4 className="text-sm font-medium mb-3">
+                ΔE2000 under {type}
+              </h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse border border-surface-200 dark:border-surface-700 rounded-lg overflow-hidden">
+                  <thead>
+                    <tr>
+                      <th className="p-2 border-b border-r border-surface-200 dark:border-surface-700 w-12"></th>
+                      {palette.map((color, index) => (
+                        <th
+                          key={color.id}
+                          className="p-2 border-b border-surface-200 dark:border-surface-700"
+                        >
+                          <div
+                            className="w-8 h-8 rounded-full mx-auto"
+                            style={{
+                              backgroundColor: selected.simulated[index],
+                            }}
+                            title={`${labels[index]} → ${selected.simulated[index]}`}
+                          />
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {palette.map((rowColor, rowIndex) => (
+                      <tr key={rowColor.id}>
+                        <td className="p-2 border-b border-r border-surface-200 dark:border-surface-700 w-12">
+                          <div
+                            className="w-8 h-8 rounded-full mx-auto"
+                            style={{
+                              backgroundColor: selected.simulated[rowIndex],
+                            }}
+                            title={`${labels[rowIndex]} → ${selected.simulated[rowIndex]}`}
+                          />
+                        </td>
+                        {palette.map((colColor, colIndex) =>
+                          rowIndex === colIndex ? (
+                            <td
+                              key={colColor.id}
+                              className="p-2 border-b border-surface-200 dark:border-surface-700 text-center bg-surface-100 dark:bg-surface-700"
+                            >
+                              -
+                            </td>
+                          ) : (
+                            <td
+                              key={colColor.id}
+                              className={cn(
+                                "p-2 border-b border-surface-200 dark:border-surface-700 text-center",
+                                isConfusable(rowIndex, colIndex) &&
+                                  "bg-error-500 text-white font-bold"
+                              )}
+                              title={`${labels[rowIndex]} / ${labels[colIndex]}`}
+                            >
+                              {selected.deltaE[rowIndex][colIndex].toFixed(1)}
+                            </td>
+                          )
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DistinguishabilityAudit;
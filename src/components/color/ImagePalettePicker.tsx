@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Pipette, X } from "lucide-react";
+import Button from "../ui/Button";
+import {
+  DEFAULT_IMAGE_PALETTE_OPTIONS,
+  extractImagePalette,
+  getPixelColor,
+  imagePaletteModeLabels,
+  type ImagePaletteMode,
+  type ImagePaletteOptions,
+} from "../../lib/image-palette";
+import { readImageFile } from "../../lib/image-file";
+
+interface ImagePalettePickerProps {
+  file: File;
+  /** Receives the extracted colors followed by the sampled ones */
+  onImport: (colors: string[]) => void;
+  onCancel: () => void;
+}
+
+// Images are scaled down to about this many pixels before extraction
+const MAX_PIXELS = 200_000;
+const MAX_COLORS = 10;
+
+// Extracts a palette from an uploaded image, with a click-to-sample eyedropper
+const ImagePalettePicker: React.FC<ImagePalettePickerProps> = ({
+  file,
+  onImport,
+  onCancel,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [imageData, setImageData] = useState<ImageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [options, setOptions] = useState<ImagePaletteOptions>(
+    DEFAULT_IMAGE_PALETTE_OPTIONS
+  );
+  const [sampled, setSampled] = useState<string[]>([]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+    setImageData(null);
+    setSampled([]);
+    setError(null);
+    readImageFile(file, MAX_PIXELS)
+      .then((data) => {
+        if (cancelled) return;
+        canvas.width = data.width;
+        canvas.height = data.height;
+        canvas.getContext("2d")?.putImageData(data, 0, 0);
+        setImageData(data);
+      })
+      .catch((drawError) => {
+        console.error("Error reading image:", drawError);
+        if (!cancelled) setError(`Could not read ${file.name}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const extracted = useMemo(
+    () => (imageData ? extractImagePalette(imageData.data, options) : []),
+    [imageData, options]
+  );
+
+  const updateOptions = (update: Partial<ImagePaletteOptions>) =>
+    setOptions((prev) => ({ ...prev, ...update }));
+
+  const sampleColor = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !imageData) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * canvas.width;
+    const y = ((event.clientY - rect.top) / rect.height) * canvas.height;
+    const color = getPixelColor(imageData.data, imageData.width, x, y);
+    setSampled((prev) => (prev.includes(color) ? prev : [...prev, color]));
+  };
+
+  const colors = [
+    ...new Set([...extracted.map(({ hex }) => hex), ...sampled]),
+  ];
+
+  return (
+    <div className="border border-surface-200 dark:border-surface-700 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium truncate">
+          Colors from {file.name}
+        </span>
+        <button
+          onClick={onCancel}
+          className="text-surface-400 hover:text-surface-600 dark:hover:text-surface-200"
+          aria-label="Cancel image import"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        onClick={sampleColor}
+        className="block mx-auto max-w-full max-h-64 rounded cursor-crosshair"
+        title="Click to sample a color"
+      />
+      {error && <p className="text-sm text-error-500">{error}</p>}
+      <p className="text-xs text-surface-500 dark:text-surface-400 flex items-center gap-1">
+        <Pipette size={12} />
+        Click the image to sample a color.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs font-medium">
+          Colors: {options.count}
+          <input
+            type="range"
+            min={2}
+            max={MAX_COLORS}
+            value={options.count}
+            onChange={(e) => updateOptions({ count: Number(e.target.value) })}
+            className="w-full"
+          />
+        </label>
+        <label className="text-xs font-medium">
+          Prefer
+          <select
+            value={options.mode}
+            onChange={(e) =>
+              updateOptions({ mode: e.target.value as ImagePaletteMode })
+            }
+            className="input w-full mt-1"
+          >
+            {(Object.keys(imagePaletteModeLabels) as ImagePaletteMode[]).map(
+              (mode) => (
+                <option key={mode} value={mode}>
+                  {imagePaletteModeLabels[mode]}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-xs">
+        <input
+          type="checkbox"
+          checked={options.ignoreBackground}
+          onChange={(e) =>
+            updateOptions({ ignoreBackground: e.target.checked })
+          }
+        />
+        Ignore near-white and near-black background
+      </label>
+
+      <div className="flex flex-wrap gap-2">
+        {extracted.map(({ hex, share }) => (
+          <div key={hex} className="text-center">
+            <div
+              className="w-10 h-10 rounded border border-surface-200 dark:border-surface-600"
+              style={{ backgroundColor: hex }}
+              title={hex}
+            />
+            <div className="text-[10px] text-surface-500 dark:text-surface-400 mt-0.5">
+              {Math.round(share * 100)}%
+            </div>
+          </div>
+        ))}
+        {sampled.map((hex) => (
+          <div key={hex} className="text-center">
+            <button
+              onClick={() =>
+                setSampled((prev) => prev.filter((color) => color !== hex))
+              }
+              className="w-10 h-10 rounded border-2 border-dashed border-surface-300 dark:border-surface-500"
+              style={{ backgroundColor: hex }}
+              title={`${hex} (sampled, click to remove)`}
+              aria-label={`Remove sampled color ${hex}`}
+            />
+            <div className="text-[10px] text-surface-500 dark:text-surface-400 mt-0.5">
+              sampled
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        variant="primary"
+        size="sm"
+        onClick={() => onImport(colors.slice(0, MAX_COLORS))}
+        disabled={colors.length === 0}
+        fullWidth
+      >
+        {colors.length > MAX_COLORS
+          ? `Use the first ${MAX_COLORS} colors`
+          : `Use ${colors.length} color${colors.length !== 1 ? "s" : ""}`}
+      </Button>
+    </div>
+  );
+};
+
+export default ImagePalettePicker;
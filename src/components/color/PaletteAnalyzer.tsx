@@ -1,44 +1,92 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
-  getContrastRatio,
-  evaluateContrast,
-  calculateHarmonyScore,
-  getRecommendedColors,
-  generateImprovedPalette,
-  generateAccessibilityImprovedColors,
+  cn,
+  fixContrast,
   generateColorHarmony,
+  type ContrastFixSide,
 } from "../../lib/utils";
 import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
 import Button from "../ui/Button";
-import { AlertTriangle, CheckCircle, Info } from "lucide-react";
+import { AlertTriangle, Check, CheckCircle, Info, Wrench } from "lucide-react";
 import { motion } from "framer-motion";
-import { getWCAGLevel, type WCAGLevel } from "../../lib/color-utils";
-import { cn } from "../../lib/utils";
-import chroma from "chroma-js";
-import { Check } from "lucide-react";
+import {
+  auditContrast,
+  CONFORMANCE_THRESHOLDS,
+  contrastAlgorithmLabels,
+  contrastUsageLabels,
+  formatContrastValue,
+  getContrastValue,
+  isTranslucent,
+  type ContrastAlgorithm,
+  type ContrastLevel,
+  type ContrastUsage,
+} from "../../lib/audit";
+import {
+  analyzePalette,
+  describeRecommendation,
+  type AnalysisResult,
+  type RecommendationSeverity,
+} from "../../lib/analysis";
+import { getAPCAMinimumFontSize, getAPCAPolarity } from "../../lib/apca";
+import { describeHarmony } from "../../lib/harmony";
+import { pairingKey, type ColorPairing } from "../../lib/roles";
+import {
+  createPaletteColor,
+  getPaletteHexes,
+  replaceUnlockedColors,
+  type PaletteColor,
+} from "../../lib/palette";
+import type { HistoryAction } from "../../lib/history";
+import { DEFAULT_COLOR_SPACE, type ColorSpace } from "../../lib/color-space";
 
 interface PaletteAnalyzerProps {
-  palette: string[];
-  setPalette?: (palette: string[]) => void;
+  palette: PaletteColor[];
+  /** Receives updaters, so suggestions apply to the base palette and keep locked colors */
+  setPalette?: (
+    update: (prev: PaletteColor[]) => PaletteColor[],
+    action?: HistoryAction
+  ) => void;
+  algorithm?: ContrastAlgorithm;
+  onAlgorithmChange?: (algorithm: ContrastAlgorithm) => void;
+  /** Declared foreground/background pairings; every pair is audited when empty */
+  pairings?: ColorPairing[];
+  /** Color space harmonies and suggestions are generated in */
+  colorSpace?: ColorSpace;
+  /**
+   * Whether `palette` is the base palette. Contrast fixes are worked out from
+   * the colors on screen, so they're only offered for the base palette, not
+   * for a derived variant (e.g. dark) that is rebuilt from it.
+   */
+  isBasePalette?: boolean;
   className?: string;
 }
 
-interface AnalysisResult {
-  contrastScores: {
-    foregroundColor: string;
-    backgroundColor: string;
-    ratio: number;
-    level: string;
-    score: number;
-  }[];
-  harmonyScore: number;
-  accessibilityScore: number;
-  overallScore: number;
-  recommendations: string[];
-  improvedPalette: string[];
-}
+// Stable default, so the analysis effect doesn't rerun on every render
+const NO_PAIRINGS: ColorPairing[] = [];
+
+const recommendationIcons: Record<
+  RecommendationSeverity,
+  { icon: React.ReactNode; className: string }
+> = {
+  error: { icon: <AlertTriangle size={16} />, className: "text-error-500" },
+  warning: { icon: <AlertTriangle size={16} />, className: "text-warning-500" },
+  info: { icon: <Info size={16} />, className: "text-primary-500" },
+  success: { icon: <CheckCircle size={16} />, className: "text-success-500" },
+};
+
+const contrastFixSideLabels: Record<ContrastFixSide, string> = {
+  both: "Both",
+  foreground: "Text",
+  background: "Background",
+};
 
-const ContrastGrid: React.FC<{ palette: string[] }> = ({ palette }) => {
+const ContrastGrid: React.FC<{
+  palette: PaletteColor[];
+  algorithm: ContrastAlgorithm;
+  pairings: ColorPairing[];
+  /** Fixes a failing pair, by palette indices */
+  onFix?: (foreground: number, background: number, usage?: ContrastUsage) => void;
+}> = ({ palette, algorithm, pairings, onFix }) => {
   if (palette.length < 2) {
     return (
       <div className="text-center text-surface-500 py-10">
@@ -47,33 +95,145 @@ const ContrastGrid: React.FC<{ palette: string[] }> = ({ palette }) => {
     );
   }
 
-  const getLevelStyle = (level: WCAGLevel) => {
+  const getLevelStyle = (level: ContrastLevel) => {
     switch (level) {
       case "AAA":
+      case "Preferred":
         return "bg-success-500 text-white";
       case "AA":
+      case "Body":
+      case "Content":
         return "bg-success-400 text-white";
       case "AA Large":
+      case "Large":
         return "bg-warning-500 text-white";
       case "Fail":
         return "bg-error-500 text-white";
     }
   };
 
+  const declaredUsage = new Map(
+    pairings.map((pairing) => [pairingKey(pairing), pairing.usage])
+  );
+
+  // Rows are backgrounds and columns are text, since APCA is polarity aware
+  const renderCell = (
+    backgroundColor: string,
+    textColor: string,
+    usage: ContrastUsage | undefined,
+    fix?: () => void
+  ) => {
+    const result = auditContrast(textColor, backgroundColor, {
+      algorithm,
+      usage,
+    });
+    const value = getContrastValue(result, algorithm);
+    const format = (contrast: number) =>
+      algorithm === "apca" ? contrast.toFixed(1) : contrast.toFixed(2);
+    const translucent =
+      isTranslucent(textColor) || isTranslucent(backgroundColor);
+    const { range, composited } = result;
+    const details = (Object.keys(result.conformance) as ContrastUsage[]).map(
+      (usage) => `${contrastUsageLabels[usage]}: ${result.conformance[usage]}`
+    );
+    if (usage) {
+      details.unshift(
+        `Declared pairing (${contrastUsageLabels[
+          usage
+        ].toLowerCase()}): ${result.passes ? "passes" : "fails"}`
+      );
+    } else if (pairings.length > 0) {
+      details.unshift("Not a declared pairing");
+    }
+    if (algorithm === "apca") {
+      const minFontSize = getAPCAMinimumFontSize(result.lc);
+      details.unshift(
+        `${getAPCAPolarity(result.lc)}, ${
+          minFontSize
+            ? `text from ${minFontSize}px at weight 400`
+            : "not suitable for text at weight 400"
+        }`
+      );
+    }
+
+    if (translucent) {
+      details.unshift(
+        `Rendered as ${composited.foreground} on ${composited.background}`
+      );
+      if (range.min !== range.max) {
+        details.unshift(
+          `Translucent background: ${format(range.min)} to ${format(
+            range.max
+          )} over white or black`
+        );
+      }
+    }
+
+    return (
+      <div className="flex flex-col items-center" title={details.join("\n")}>
+        <span className="font-bold">{format(value)}</span>
+        {translucent && (
+          <span
+            className="text-[10px] font-medium px-1.5 rounded mt-1 border border-surface-200 dark:border-surface-600"
+            style={{
+              backgroundColor: composited.background,
+              color: composited.foreground,
+            }}
+          >
+            Aa
+          </span>
+        )}
+        {range.min !== range.max && (
+          <span className="text-[10px] text-surface-500 dark:text-surface-400 mt-1">
+            {format(range.min)}–{format(range.max)}
+          </span>
+        )}
+        <span
+          className={cn(
+            "text-xs px-2 py-0.5 rounded-full mt-1",
+            usage
+              ? result.passes
+                ? "bg-success-500 text-white"
+                : "bg-error-500 text-white"
+              : getLevelStyle(result.level)
+          )}
+        >
+          {result.level}
+        </span>
+        {usage && (
+          <span className="text-[10px] text-surface-500 dark:text-surface-400 mt-1">
+            {contrastUsageLabels[usage]}
+          </span>
+        )}
+        {fix && !result.passes && (
+          <button
+            onClick={fix}
+            className="flex items-center gap-1 text-[10px] mt-1 text-primary-600 dark:text-primary-400 hover:underline"
+            title="Change lightness as little as possible to pass"
+          >
+            <Wrench size={10} />
+            Fix
+          </button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="overflow-x-auto">
       <table className="w-full text-sm border-collapse border border-surface-200 dark:border-surface-700 rounded-lg overflow-hidden">
         <thead>
           <tr>
             <th className="sticky left-0 bg-white dark:bg-surface-800 p-2 border-b border-r border-surface-200 dark:border-surface-700 w-12 z-10"></th>
-            {palette.map((color, index) => (
+            {palette.map((color) => (
               <th
-                key={index}
+                key={color.id}
                 className="p-2 border-b border-surface-200 dark:border-surface-700"
               >
                 <div
                   className="w-8 h-8 rounded-full mx-auto"
-                  style={{ backgroundColor: color }}
+                  style={{ backgroundColor: color.hex }}
+                  title={color.name || color.hex}
                 />
               </th>
             ))}
@@ -81,11 +241,12 @@ const ContrastGrid: React.FC<{ palette: string[] }> = ({ palette }) => {
         </thead>
         <tbody>
           {palette.map((rowColor, rowIndex) => (
-            <tr key={rowIndex}>
+            <tr key={rowColor.id}>
               <td className="sticky left-0 bg-white dark:bg-surface-800 p-2 border-b border-r border-surface-200 dark:border-surface-700 w-12 z-10">
                 <div
                   className="w-8 h-8 rounded-full mx-auto"
-                  style={{ backgroundColor: rowColor }}
+                  style={{ backgroundColor: rowColor.hex }}
+                  title={rowColor.name || rowColor.hex}
                 />
               </td>
               {palette.map((colColor, colIndex) => {
@@ -99,24 +260,26 @@ const ContrastGrid: React.FC<{ palette: string[] }> = ({ palette }) => {
                     </td>
                   );
                 }
-                const ratio = getContrastRatio(rowColor, colColor);
-                const level = getWCAGLevel(ratio);
+                const usage = declaredUsage.get(
+                  pairingKey({ foreground: colIndex, background: rowIndex })
+                );
                 return (
                   <td
                     key={colIndex}
-                    className="p-2 border-b border-surface-200 dark:border-surface-700 text-center"
+                    className={cn(
+                      "p-2 border-b border-surface-200 dark:border-surface-700 text-center",
+                      usage && "bg-primary-50 dark:bg-primary-900/30",
+                      pairings.length > 0 && !usage && "opacity-40"
+                    )}
                   >
-                    <div className="flex flex-col items-center">
-                      <span className="font-bold">{ratio.toFixed(2)}</span>
-                      <span
-                        className={cn(
-                          "text-xs px-2 py-0.5 rounded-full mt-1",
-                          getLevelStyle(level)
-                        )}
-                      >
-                        {level}
-                      </span>
-                    </div>
+                    {renderCell(
+                      rowColor.hex,
+                      colColor.hex,
+                      usage,
+                      onFix && (usage || pairings.length === 0)
+                        ? () => onFix(colIndex, rowIndex, usage)
+                        : undefined
+                    )}
                   </td>
                 );
               })}
@@ -131,203 +294,90 @@ const ContrastGrid: React.FC<{ palette: string[] }> = ({ palette }) => {
 const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
   palette,
   setPalette,
+  algorithm: externalAlgorithm,
+  onAlgorithmChange,
+  pairings = NO_PAIRINGS,
+  colorSpace = DEFAULT_COLOR_SPACE,
+  isBasePalette = true,
   className,
 }) => {
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [internalAlgorithm, setInternalAlgorithm] =
+    useState<ContrastAlgorithm>("wcag");
+  const [fixSide, setFixSide] = useState<ContrastFixSide>("both");
+  const [fixMessage, setFixMessage] = useState("");
 
-  const analyzeColors = useCallback(() => {
-    // Calculate contrast between each pair of colors
-    const contrastScores = [];
-
-    for (let i = 0; i < palette.length; i++) {
-      for (let j = 0; j < palette.length; j++) {
-        if (i === j) continue; // Don't compare a color with itself
-
-        const ratio = getContrastRatio(palette[i], palette[j]);
-        const { level, score } = evaluateContrast(ratio);
-
-        contrastScores.push({
-          foregroundColor: palette[i],
-          backgroundColor: palette[j],
-          ratio,
-          level,
-          score,
-        });
-      }
-    }
-
-    // Sort by contrast ratio (descending)
-    contrastScores.sort((a, b) => b.ratio - a.ratio);
+  // Use external state if provided, otherwise use internal state
+  const algorithm = externalAlgorithm ?? internalAlgorithm;
+  const setAlgorithm = onAlgorithmChange ?? setInternalAlgorithm;
+  const canFix = Boolean(setPalette) && isBasePalette;
 
-    // Calculate harmony score
-    const harmonyScore = calculateHarmonyScore(palette);
+  // Only hex changes trigger a new analysis, not renames or role edits
+  const hexKey = JSON.stringify(getPaletteHexes(palette));
+  const hexes = useMemo(() => JSON.parse(hexKey) as string[], [hexKey]);
 
-    // Calculate accessibility score based on contrast scores
-    let accessibilitySum = 0;
-    contrastScores.forEach((score) => {
-      accessibilitySum += score.score;
-    });
-
-    const accessibilityScore =
-      contrastScores.length > 0
-        ? Math.round(accessibilitySum / contrastScores.length)
-        : 0;
-
-    // Calculate overall score
-    const overallScore = Math.round((harmonyScore + accessibilityScore) / 2);
-
-    // Generate intelligent recommendations based on analysis
-    const allRecommendations = [];
-
-    // Accessibility-specific recommendations
-    if (accessibilityScore < 60) {
-      const failingCombos = contrastScores.filter(
-        (score) => score.level === "fail"
-      ).length;
-      if (failingCombos > 0) {
-        allRecommendations.push(
-          `${failingCombos} color combinations fail WCAG standards - consider darkening or lightening some colors`
-        );
-      }
-      allRecommendations.push(
-        "Add high-contrast colors (very light or very dark) to improve readability"
-      );
-    } else if (accessibilityScore < 80) {
-      allRecommendations.push(
-        "Good accessibility! Consider testing with color vision simulators for complete coverage"
-      );
-    }
+  useEffect(() => {
+    if (hexes.length === 0) return;
 
-    // Harmony-specific recommendations
-    if (harmonyScore < 50) {
-      allRecommendations.push(
-        "Colors appear to clash - try using complementary, analogous, or triadic color relationships"
-      );
-    } else if (harmonyScore < 70) {
-      allRecommendations.push(
-        "Color harmony can be improved by using more systematic color relationships"
-      );
-    }
+    // Simulate analysis taking time
+    setIsAnalyzing(true);
 
-    // Palette size recommendations
-    if (palette.length < 3) {
-      allRecommendations.push(
-        "Consider adding 2-3 more colors for a more versatile palette"
-      );
-    } else if (palette.length > 8) {
-      allRecommendations.push(
-        "Large palettes can be overwhelming - consider focusing on 5-7 core colors"
+    const timeoutId = setTimeout(() => {
+      setAnalysis(
+        analyzePalette(hexes, {
+          algorithm,
+          pairs: pairings.length > 0 ? pairings : "all",
+          colorSpace,
+        })
       );
-    }
+      setIsAnalyzing(false);
+    }, 800);
 
-    // Specific color analysis
-    const veryLightColors = palette.filter((color) => {
-      try {
-        return chroma(color).luminance() > 0.8;
-      } catch {
-        return false;
-      }
-    });
-    const veryDarkColors = palette.filter((color) => {
-      try {
-        return chroma(color).luminance() < 0.2;
-      } catch {
-        return false;
-      }
-    });
+    return () => clearTimeout(timeoutId);
+  }, [hexes, algorithm, pairings, colorSpace]);
 
-    if (veryLightColors.length > palette.length * 0.6) {
-      allRecommendations.push(
-        "Palette is mostly light colors - add some darker shades for better contrast"
-      );
-    }
-    if (veryDarkColors.length > palette.length * 0.6) {
-      allRecommendations.push(
-        "Palette is mostly dark colors - add some lighter tones for better balance"
-      );
+  // Moves the pair's lightness just far enough to meet AA for its usage.
+  // Locked colors stay as they are.
+  const fixPair = (
+    foreground: number,
+    background: number,
+    usage: ContrastUsage = "normal-text"
+  ) => {
+    if (!setPalette || !canFix) return;
+    const foregroundLocked = palette[foreground]?.locked;
+    const backgroundLocked = palette[background]?.locked;
+    let adjust = fixSide;
+    if (foregroundLocked && backgroundLocked) {
+      setFixMessage("Both colors are locked.");
+      return;
     }
+    if (foregroundLocked) adjust = "background";
+    if (backgroundLocked) adjust = "foreground";
 
-    // Saturation analysis
-    const highSatColors = palette.filter((color) => {
-      try {
-        return (chroma(color).hsl()[1] || 0) > 0.8;
-      } catch {
-        return false;
-      }
+    const fix = fixContrast(hexes[foreground], hexes[background], {
+      algorithm,
+      target: CONFORMANCE_THRESHOLDS[algorithm][usage].AA,
+      adjust,
     });
-    if (highSatColors.length === palette.length && palette.length > 2) {
-      allRecommendations.push(
-        "All colors are highly saturated - consider adding some muted tones for balance"
+    if (!fix) {
+      setFixMessage(
+        "No lightness change of the allowed color reaches the target."
       );
+      return;
     }
 
-    // Success message if everything looks good
-    if (
-      accessibilityScore >= 80 &&
-      harmonyScore >= 70 &&
-      palette.length >= 3 &&
-      palette.length <= 7
-    ) {
-      allRecommendations.push(
-        "Excellent palette! Well-balanced colors with good accessibility and harmony"
-      );
-    }
-
-    // For now, return all recommendations - we'll filter them in the component
-    const recommendations = allRecommendations;
-
-    // Generate improved palette suggestion based on analysis
-    let improvedPalette: string[] = [];
-    if (palette.length > 0) {
-      // Use intelligent palette generation based on current scores
-      if (accessibilityScore < 60) {
-        // Focus on accessibility improvements
-        improvedPalette = generateAccessibilityImprovedColors(palette).slice(
-          0,
-          6
-        );
-      } else {
-        // Use general improvements based on palette analysis
-        improvedPalette = generateImprovedPalette(
-          palette,
-          accessibilityScore,
-          harmonyScore
-        );
-      }
-
-      // If we don't have enough suggestions, fallback to basic recommendations
-      if (improvedPalette.length < 3) {
-        const basicSuggestions = getRecommendedColors(palette[0]);
-        improvedPalette = [
-          ...new Set([...improvedPalette, ...basicSuggestions]),
-        ].slice(0, 6);
-      }
-    }
-
-    setAnalysis({
-      contrastScores,
-      harmonyScore,
-      accessibilityScore,
-      overallScore,
-      recommendations,
-      improvedPalette,
-    });
-  }, [palette]);
-
-  useEffect(() => {
-    if (palette.length === 0) return;
-
-    // Simulate analysis taking time
-    setIsAnalyzing(true);
-
-    const timeoutId = setTimeout(() => {
-      analyzeColors();
-      setIsAnalyzing(false);
-    }, 800);
-
-    return () => clearTimeout(timeoutId);
-  }, [palette, analyzeColors]);
+    setFixMessage("");
+    setPalette(
+      (prev) =>
+        prev.map((color, index) => {
+          if (index === foreground) return { ...color, hex: fix.foreground };
+          if (index === background) return { ...color, hex: fix.background };
+          return color;
+        }),
+      { label: "Fix contrast" }
+    );
+  };
 
   if (isAnalyzing) {
     return (
@@ -359,6 +409,23 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
 
   return (
     <div className={className}>
+      <div className="flex items-center justify-end gap-2 mb-4">
+        <span className="text-sm font-medium text-surface-600 dark:text-surface-400">
+          Contrast algorithm
+        </span>
+        {(Object.keys(contrastAlgorithmLabels) as ContrastAlgorithm[]).map(
+          (key) => (
+            <Button
+              key={key}
+              variant={algorithm === key ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setAlgorithm(key)}
+            >
+              {contrastAlgorithmLabels[key]}
+            </Button>
+          )
+        )}
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -431,6 +498,11 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                       style={{ width: `${analysis.accessibilityScore}%` }}
                     ></div>
                   </div>
+                  <p className="text-xs text-surface-500 dark:text-surface-400 mt-1">
+                    {pairings.length > 0
+                      ? `Based on ${analysis.contrastScores.length} declared pairings`
+                      : `Based on all ${analysis.contrastScores.length} color pairs`}
+                  </p>
                 </div>
 
                 <div>
@@ -452,6 +524,12 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                       style={{ width: `${analysis.harmonyScore}%` }}
                     ></div>
                   </div>
+                  <p className="text-xs text-surface-500 dark:text-surface-400 mt-1">
+                    {describeHarmony(analysis.harmony)} · hue fit{" "}
+                    {analysis.harmony.hueScore}, lightness balance{" "}
+                    {analysis.harmony.lightnessScore}, chroma balance{" "}
+                    {analysis.harmony.chromaScore}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -470,12 +548,39 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
             <CardContent>
               {analysis.recommendations.length > 0 ? (
                 <ul className="space-y-3">
-                  {analysis.recommendations.map((recommendation, index) => (
-                    <li key={index} className="flex items-start gap-2">
-                      <div className="mt-0.5 text-warning-500">
-                        <AlertTriangle size={16} />
+                  {analysis.recommendations.map((recommendation) => (
+                    <li
+                      key={recommendation.code}
+                      className="flex items-start gap-2"
+                    >
+                      <div
+                        className={cn(
+                          "mt-0.5",
+                          recommendationIcons[recommendation.severity].className
+                        )}
+                      >
+                        {recommendationIcons[recommendation.severity].icon}
+                      </div>
+                      <div>
+                        <span>
+                          {describeRecommendation(
+                            recommendation,
+                            analysis.algorithm
+                          )}
+                        </span>
+                        {recommendation.colors.length > 0 && (
+                          <div className="flex gap-1 mt-1">
+                            {recommendation.colors.map((color) => (
+                              <div
+                                key={color}
+                                className="w-4 h-4 rounded border border-surface-200 dark:border-surface-600"
+                                style={{ backgroundColor: color }}
+                                title={color}
+                              />
+                            ))}
+                          </div>
+                        )}
                       </div>
-                      <span>{recommendation}</span>
                     </li>
                   ))}
                 </ul>
@@ -496,7 +601,13 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => setPalette(analysis.improvedPalette)}
+                        onClick={() =>
+                          setPalette(
+                            (prev) =>
+                              replaceUnlockedColors(prev, analysis.improvedPalette),
+                            { label: "Apply suggestions" }
+                          )
+                        }
                         className="flex items-center gap-2"
                       >
                         <Check size={14} />
@@ -512,15 +623,15 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                         style={{ backgroundColor: color }}
                         title={color}
                         onClick={() => {
-                          if (setPalette) {
-                            const newPalette = [...palette];
-                            if (newPalette.length > index) {
-                              newPalette[index] = color;
-                            } else {
-                              newPalette.push(color);
+                          setPalette?.((prev) => {
+                            if (index >= prev.length) {
+                              return [...prev, createPaletteColor(color)];
                             }
-                            setPalette(newPalette);
-                          }
+                            if (prev[index].locked) return prev;
+                            return prev.map((item, i) =>
+                              i === index ? { ...item, hex: color } : item
+                            );
+                          }, { label: "Use suggested color" });
                         }}
                       />
                     ))}
@@ -565,8 +676,9 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                         },
                       ].map(({ type, label, description }) => {
                         const harmonyColors = generateColorHarmony(
-                          palette[0],
-                          type
+                          hexes[0],
+                          type,
+                          colorSpace
                         );
                         return (
                           <div
@@ -588,10 +700,15 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                                   size="sm"
                                   onClick={() =>
                                     setPalette(
-                                      harmonyColors.slice(
-                                        0,
-                                        Math.min(harmonyColors.length, 6)
-                                      )
+                                      (prev) =>
+                                        replaceUnlockedColors(
+                                          prev,
+                                          harmonyColors.slice(
+                                            0,
+                                            Math.min(harmonyColors.length, 6)
+                                          )
+                                        ),
+                                      { label: `Apply ${label.toLowerCase()} harmony` }
                                     )
                                   }
                                   className="text-xs"
@@ -646,7 +763,7 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                         color: item.foregroundColor,
                       }}
                     >
-                      Sample Text ({item.ratio.toFixed(2)})
+                      Sample Text ({formatContrastValue(item, algorithm)})
                     </div>
                   ))}
                 </div>
@@ -666,7 +783,23 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                           color: item.foregroundColor,
                         }}
                       >
-                        Sample Text ({item.ratio.toFixed(2)})
+                        Sample Text ({formatContrastValue(item, algorithm)})
+                        {canFix && !item.passes && (
+                          <button
+                            onClick={() =>
+                              fixPair(
+                                item.foregroundIndex,
+                                item.backgroundIndex,
+                                item.usage
+                              )
+                            }
+                            className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 text-xs px-2 py-1 rounded bg-white/90 text-surface-800 hover:bg-white shadow"
+                            title="Change lightness as little as possible to pass"
+                          >
+                            <Wrench size={12} />
+                            Fix
+                          </button>
+                        )}
                       </div>
                     ))}
                 </div>
@@ -688,10 +821,50 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
           </CardHeader>
           <CardContent>
             <p className="mb-4 text-surface-600 dark:text-surface-400">
-              WCAG contrast ratios between every color combination in your
-              palette. Higher numbers are better.
+              {algorithm === "apca"
+                ? "APCA lightness contrast (Lc) of each column color as text on each row color as background. Negative values are light text on dark backgrounds; higher magnitudes are better."
+                : "WCAG contrast ratios between every color combination in your palette. Higher numbers are better."}{" "}
+              Hover a cell for normal text, large text and UI component
+              (non-text) conformance. Translucent colors are composited
+              first; on a translucent background the worse of a white or black
+              page counts, and the cell shows both.
+              {pairings.length > 0 &&
+                " Highlighted cells are declared pairings, held to the threshold of their roles; the others don't count towards the score."}
             </p>
-            <ContrastGrid palette={palette} />
+            {canFix && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <span className="text-sm text-surface-600 dark:text-surface-400">
+                  Fix adjusts
+                </span>
+                {(Object.keys(contrastFixSideLabels) as ContrastFixSide[]).map(
+                  (side) => (
+                    <Button
+                      key={side}
+                      variant={fixSide === side ? "primary" : "outline"}
+                      size="xs"
+                      onClick={() => setFixSide(side)}
+                    >
+                      {contrastFixSideLabels[side]}
+                    </Button>
+                  )
+                )}
+                {fixMessage && (
+                  <span className="text-sm text-error-500">{fixMessage}</span>
+                )}
+              </div>
+            )}
+            {setPalette && !isBasePalette && (
+              <p className="mb-4 text-sm text-surface-500 dark:text-surface-400">
+                Contrast fixes apply to the light palette. Switch to it to fix
+                pairs.
+              </p>
+            )}
+            <ContrastGrid
+              palette={palette}
+              algorithm={algorithm}
+              pairings={pairings}
+              onFix={canFix ? fixPair : undefined}
+            />
           </CardContent>
         </Card>
       </motion.div>
@@ -716,7 +889,7 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
               <div className="space-y-3">
                 <h4 className="text-sm font-medium">Buttons</h4>
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
-                  {generateAllCombinations(palette)
+                  {generateAllCombinations(hexes)
                     .slice(0, 12)
                     .map((combo, index) => (
                       <button
@@ -736,7 +909,7 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
               <div className="space-y-3">
                 <h4 className="text-sm font-medium">Alerts</h4>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {generateAllCombinations(palette)
+                  {generateAllCombinations(hexes)
                     .slice(0, 8)
                     .map((combo, index) => (
                       <div
@@ -759,7 +932,7 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
               <div className="space-y-3">
                 <h4 className="text-sm font-medium">Cards</h4>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {generateAllCombinations(palette)
+                  {generateAllCombinations(hexes)
                     .slice(0, 6)
                     .map((combo, index) => (
                       <div
@@ -798,7 +971,7 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                   <div className="p-4 rounded-lg border border-surface-200 dark:border-surface-700 bg-white dark:bg-surface-800">
                     <h5 className="text-sm font-medium mb-2">Badges</h5>
                     <div className="flex gap-2 flex-wrap">
-                      {generateAllCombinations(palette)
+                      {generateAllCombinations(hexes)
                         .slice(0, 10)
                         .map((combo, index) => (
                           <div
@@ -817,7 +990,7 @@ const PaletteAnalyzer: React.FC<PaletteAnalyzerProps> = ({
                   <div className="p-4 rounded-lg border border-surface-200 dark:border-surface-700 bg-white dark:bg-surface-800">
                     <h5 className="text-sm font-medium mb-2">Navigation</h5>
                     <div className="flex gap-1 flex-wrap">
-                      {generateAllCombinations(palette)
+                      {generateAllCombinations(hexes)
                         .slice(0, 5)
                         .map((combo, index) => (
                           <div
@@ -1,50 +1,302 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import PaletteAnalyzer from "./PaletteAnalyzer";
 import PaletteEditor from "./PaletteEditor";
 import PaletteExport from "./PaletteExport";
 import ColorBlindnessSimulation from "./ColorBlindnessSimulation";
+import PaletteRoles from "./PaletteRoles";
+import PaletteLibrary from "./PaletteLibrary";
+import PaletteHistory from "./PaletteHistory";
+import DistinguishabilityAudit from "./DistinguishabilityAudit";
+import CvdRepair from "./CvdRepair";
+import TonalScales from "./TonalScales";
 import ThemeToggle from "../ui/ThemeToggle";
+import Button from "../ui/Button";
+import { Check, Link2, Moon, Sun } from "lucide-react";
+import { useLocation, useMatch, useNavigate } from "react-router-dom";
+import { generateQualityRandomPalette } from "../../lib/utils";
+import { type ContrastAlgorithm } from "../../lib/audit";
+import { copyToClipboard } from "../../lib/color-utils";
 import {
-  generateQualityRandomPalette,
-  generateDarkVariant,
-} from "../../lib/utils";
+  DEFAULT_CVD_ALGORITHM,
+  DEFAULT_CVD_SEVERITY,
+  type ColorBlindnessType,
+  type CvdAlgorithm,
+} from "../../lib/cvd";
+import { DEFAULT_CONFUSABLE_THRESHOLD } from "../../lib/cvd-audit";
+import { DEFAULT_COLOR_SPACE, type ColorSpace } from "../../lib/color-space";
+import { DEFAULT_SCALE_OPTIONS, type ScaleOptions } from "../../lib/scales";
+import {
+  SHARE_ROUTE,
+  decodeSharedView,
+  encodeSharedView,
+  type PaletteVariantName,
+} from "../../lib/share";
+import {
+  derivePairings,
+  pairingKey,
+  type ColorRole,
+} from "../../lib/roles";
+import {
+  createPalette,
+  getPaletteHexes,
+  getPaletteVariants,
+  type Palette,
+  type PaletteColor,
+  type PaletteVariants,
+} from "../../lib/palette";
+import {
+  hasUnsavedChanges,
+  toPalette,
+  type SavedPalette,
+} from "../../lib/palette-library";
+import {
+  createHistory,
+  getPresent,
+  jumpToHistory,
+  recordHistory,
+  redoHistory,
+  replacePresent,
+  undoHistory,
+  type History,
+  type HistoryAction,
+} from "../../lib/history";
 import { useTheme } from "../../contexts/ThemeContext";
-
-interface PaletteVariants {
-  light: string[];
-  dark: string[];
-}
+import { usePaletteLibrary } from "../../contexts/usePaletteLibrary";
 
 const PaletteAnalyzerDemoPage: React.FC = () => {
-  const [palette, setPalette] = useState<string[]>(
-    generateQualityRandomPalette(6)
+  const { palettes, lastOpenedId, savePalette, setLastOpenedId } =
+    usePaletteLibrary();
+  const { isDarkMode } = useTheme();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const shareColors = useMatch(SHARE_ROUTE)?.params.colors;
+
+  // A shared link restores its view on load; later links are restored by the
+  // URL sync below
+  const [sharedView] = useState(() =>
+    shareColors
+      ? decodeSharedView(
+          shareColors,
+          new URLSearchParams(location.search)
+        )
+      : null
   );
-  const [showVariants] = useState(true); // Always enabled
-  const [paletteVariants, setPaletteVariants] = useState<PaletteVariants>({
-    light: palette,
-    dark: generateDarkVariant(palette),
+
+  // Otherwise restore the last opened palette, or start with a random one
+  const [savedId, setSavedId] = useState<string | null>(() =>
+    !sharedView && palettes.some((entry) => entry.id === lastOpenedId)
+      ? lastOpenedId
+      : null
+  );
+  const [history, setHistory] = useState<History<Palette>>(() => {
+    if (sharedView) return createHistory(sharedView.palette, "Open shared link");
+    const lastOpened = palettes.find((entry) => entry.id === lastOpenedId);
+    return lastOpened
+      ? createHistory(toPalette(lastOpened), `Open "${lastOpened.name}"`)
+      : createHistory(
+          createPalette(generateQualityRandomPalette(6)),
+          "Generate palette"
+        );
   });
+  const palette = getPresent(history);
+  const savedEntry = palettes.find((entry) => entry.id === savedId);
+  const [showVariants] = useState(true); // Always enabled
+  const [colorSpace, setColorSpace] = useState<ColorSpace>(DEFAULT_COLOR_SPACE);
+  const [paletteVariants, setPaletteVariants] = useState<PaletteVariants>(
+    () =>
+      getPaletteVariants(palette.colors, {
+        space: colorSpace,
+        algorithm: sharedView?.algorithm ?? "wcag",
+      })
+  );
 
-  const { isDarkMode } = useTheme();
+  const [contrastAlgorithm, setContrastAlgorithm] =
+    useState<ContrastAlgorithm>(sharedView?.algorithm ?? "wcag");
+  const [cvdType, setCvdType] = useState<ColorBlindnessType>(
+    sharedView?.cvd ?? "deuteranopia"
+  );
+  const [cvdModel, setCvdModel] = useState<CvdAlgorithm>(
+    sharedView?.cvdModel ?? DEFAULT_CVD_ALGORITHM
+  );
+  const [cvdSeverity, setCvdSeverity] = useState(
+    sharedView?.severity ?? DEFAULT_CVD_SEVERITY
+  );
+  const [cvdThreshold, setCvdThreshold] = useState(
+    DEFAULT_CONFUSABLE_THRESHOLD
+  );
+  const [scaleOptions, setScaleOptions] = useState<ScaleOptions>(
+    DEFAULT_SCALE_OPTIONS
+  );
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Color id keys of role pairings that don't occur in the UI
+  const [excludedPairings, setExcludedPairings] = useState<string[]>([]);
 
-  const activeVariant = isDarkMode ? "dark" : "light";
+  // The variant follows the theme, unless a shared link asked for another one
+  const [activeVariant, setActiveVariant] = useState<PaletteVariantName>(
+    sharedView?.variant ?? (isDarkMode ? "dark" : "light")
+  );
+  const [previousDarkMode, setPreviousDarkMode] = useState(isDarkMode);
+  if (previousDarkMode !== isDarkMode) {
+    setPreviousDarkMode(isDarkMode);
+    setActiveVariant(isDarkMode ? "dark" : "light");
+  }
 
-  // Update variants when base palette changes
+  // Keep the URL in sync with the view, so it can be shared at any time. A
+  // URL that isn't the last one written came from outside (a pasted link, or
+  // back/forward), so a shared view in it is opened through the history.
+  const sharePath = encodeSharedView({
+    palette,
+    variant: activeVariant,
+    cvd: cvdType,
+    cvdModel,
+    severity: cvdSeverity,
+    algorithm: contrastAlgorithm,
+  });
+  const writtenPath = useRef(`${location.pathname}${location.search}`);
   useEffect(() => {
-    setPaletteVariants({
-      light: palette,
-      dark: generateDarkVariant(palette),
-    });
-  }, [palette]);
+    const currentPath = `${location.pathname}${location.search}`;
+    if (currentPath === sharePath) {
+      writtenPath.current = sharePath;
+      return;
+    }
+
+    const view =
+      currentPath !== writtenPath.current && shareColors
+        ? decodeSharedView(shareColors, new URLSearchParams(location.search))
+        : null;
+    if (view) {
+      writtenPath.current = currentPath;
+      setHistory((prev) =>
+        recordHistory(prev, view.palette, { label: "Open shared link" })
+      );
+      setSavedId(null);
+      setExcludedPairings([]);
+      setActiveVariant(view.variant);
+      setCvdType(view.cvd);
+      setCvdModel(view.cvdModel);
+      setCvdSeverity(view.severity);
+      setContrastAlgorithm(view.algorithm);
+      return;
+    }
+
+    writtenPath.current = sharePath;
+    navigate(sharePath, { replace: true });
+  }, [sharePath, shareColors, location.pathname, location.search, navigate]);
+
+  const copyShareLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}#${sharePath}`;
+    if (await copyToClipboard(url)) {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    }
+  };
 
   const currentPalette = paletteVariants[activeVariant];
+  const currentHexes = getPaletteHexes(currentPalette);
 
-  // Simplified palette change handler that always updates the base palette
-  const handlePaletteChange = (newPalette: string[] | ((prev: string[]) => string[])) => {
-    const resolvedPalette = typeof newPalette === "function" ? newPalette(palette) : newPalette;
-    setPalette(resolvedPalette);
+  // Pairings implied by the roles, minus the ones marked as not occurring.
+  // Keyed on ids and roles only, so renaming a color doesn't rerun the analysis.
+  const rolesKey = JSON.stringify(
+    palette.colors.map((color) => [color.id, color.role ?? null])
+  );
+  const pairings = useMemo(() => {
+    const entries = JSON.parse(rolesKey) as [string, ColorRole | null][];
+    return derivePairings(entries.map(([, role]) => role)).filter(
+      (pairing) =>
+        !excludedPairings.includes(
+          pairingKey({
+            foreground: entries[pairing.foreground][0],
+            background: entries[pairing.background][0],
+          })
+        )
+    );
+  }, [rolesKey, excludedPairings]);
+
+  // Update variants when base palette or its pairings change
+  useEffect(() => {
+    setPaletteVariants(
+      getPaletteVariants(palette.colors, {
+        space: colorSpace,
+        pairings,
+        algorithm: contrastAlgorithm,
+      })
+    );
+  }, [palette.colors, colorSpace, pairings, contrastAlgorithm]);
+
+  // Every palette change goes through the history, so it can be undone
+  const updatePalette = (
+    update: (prev: Palette) => Palette,
+    action: HistoryAction
+  ) => {
+    setHistory((prev) => recordHistory(prev, update(getPresent(prev)), action));
+  };
+
+  // Palette change handler that always updates the base palette colors
+  const handlePaletteChange = (
+    newColors: PaletteColor[] | ((prev: PaletteColor[]) => PaletteColor[]),
+    action: HistoryAction = { label: "Edit palette" }
+  ) => {
+    updatePalette(
+      (prev) => ({
+        ...prev,
+        colors:
+          typeof newColors === "function" ? newColors(prev.colors) : newColors,
+      }),
+      action
+    );
+  };
+
+  const handleSave = (asNew: boolean) => {
+    const toSave = asNew ? { ...palette, name: `${palette.name} copy` } : palette;
+    const saved = savePalette(toSave, asNew ? null : savedEntry?.id);
+    if (asNew) {
+      updatePalette(() => ({ ...toSave, version: saved.version }), {
+        label: `Save as "${toSave.name}"`,
+      });
+    } else {
+      setHistory((prev) =>
+        replacePresent(prev, { ...toSave, version: saved.version })
+      );
+    }
+    setSavedId(saved.id);
+    setLastOpenedId(saved.id);
   };
 
+  const handleOpen = (saved: SavedPalette) => {
+    updatePalette(() => toPalette(saved), { label: `Open "${saved.name}"` });
+    setSavedId(saved.id);
+    setLastOpenedId(saved.id);
+    setExcludedPairings([]);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) and Ctrl+Y. Text fields keep their
+  // own undo, so the shortcuts are ignored while typing.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        setHistory(undoHistory);
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        setHistory(redoHistory);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   return (
     <div className="min-h-screen flex flex-col bg-surface-50 dark:bg-surface-900">
       <header className="border-b border-surface-200 dark:border-surface-800 sticky top-0 bg-surface-50/95 dark:bg-surface-900/95 backdrop-blur-sm z-20">
@@ -57,7 +309,35 @@ const PaletteAnalyzerDemoPage: React.FC = () => {
               Full Pro Features Demo
             </p>
           </div>
-          <ThemeToggle className="ml-4" />
+          <div className="flex items-center gap-2">
+            <div className="flex gap-1" title="Palette variant">
+              <Button
+                variant={activeVariant === "light" ? "primary" : "ghost"}
+                size="sm"
+                onClick={() => setActiveVariant("light")}
+                aria-label="Show light variant"
+              >
+                <Sun size={14} />
+              </Button>
+              <Button
+                variant={activeVariant === "dark" ? "primary" : "ghost"}
+                size="sm"
+                onClick={() => setActiveVariant("dark")}
+                aria-label="Show dark variant"
+              >
+                <Moon size={14} />
+              </Button>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={copyShareLink}
+              icon={linkCopied ? <Check size={14} /> : <Link2 size={14} />}
+            >
+              {linkCopied ? "Link Copied" : "Copy Link"}
+            </Button>
+            <ThemeToggle className="ml-2" />
+          </div>
         </div>
       </header>
 
@@ -66,33 +346,101 @@ const PaletteAnalyzerDemoPage: React.FC = () => {
           {/* Left Column - Editor & Export */}
           <div className="lg:col-span-5 space-y-6">
             <PaletteEditor
-              palette={palette}
+              palette={palette.colors}
               setPalette={handlePaletteChange}
               showVariants={showVariants}
               paletteVariants={paletteVariants}
-              setPaletteVariants={setPaletteVariants}
               activeVariant={activeVariant}
+              onSave={handleSave}
+              isSaved={Boolean(savedEntry)}
+              hasUnsavedChanges={hasUnsavedChanges(palette, savedEntry)}
+              colorSpace={colorSpace}
+              onColorSpaceChange={setColorSpace}
+            />
+            <PaletteHistory
+              history={history}
+              onUndo={() => setHistory(undoHistory)}
+              onRedo={() => setHistory(redoHistory)}
+              onJump={(index) => setHistory((prev) => jumpToHistory(prev, index))}
+            />
+            <PaletteLibrary
+              currentPaletteId={savedEntry?.id ?? null}
+              onOpen={handleOpen}
+              onMetadataChange={(id, fields) => {
+                if (id === savedId) {
+                  updatePalette((prev) => ({ ...prev, ...fields }), {
+                    label: fields.name ? "Rename palette" : "Edit tags",
+                  });
+                }
+              }}
+            />
+            <PaletteRoles
+              palette={palette.colors}
+              setPalette={handlePaletteChange}
+              excludedPairings={excludedPairings}
+              onExcludedPairingsChange={setExcludedPairings}
+            />
+            <TonalScales
+              palette={currentPalette}
+              options={scaleOptions}
+              onOptionsChange={setScaleOptions}
+              algorithm={contrastAlgorithm}
             />
             <PaletteExport
-              key={`export-${showVariants}-${activeVariant}-${currentPalette.join(
+              key={`export-${showVariants}-${activeVariant}-${currentHexes.join(
                 ","
               )}`}
               paletteVariants={paletteVariants}
+              paletteName={palette.name}
+              scaleOptions={scaleOptions}
+              onPaletteNameChange={(name) =>
+                updatePalette((prev) => ({ ...prev, name }), {
+                  label: "Rename palette",
+                  coalesceKey: "palette-name",
+                })
+              }
             />
           </div>
 
           {/* Right Column - Analyzer & Simulations */}
           <div className="lg:col-span-7 space-y-6">
             <PaletteAnalyzer
-              key={`analyzer-${palette.join(",")}`}
+              key={`analyzer-${getPaletteHexes(palette.colors).join(",")}`}
               palette={currentPalette}
               setPalette={handlePaletteChange}
+              algorithm={contrastAlgorithm}
+              onAlgorithmChange={setContrastAlgorithm}
+              pairings={pairings}
+              colorSpace={colorSpace}
+              isBasePalette={activeVariant === "light"}
             />
             <ColorBlindnessSimulation
-              key={`colorblind-${activeVariant}-${currentPalette.join(
-                ","
-              )}`}
+              key={`colorblind-${activeVariant}-${currentHexes.join(",")}`}
+              palette={currentHexes}
+              type={cvdType}
+              onTypeChange={setCvdType}
+              algorithm={cvdModel}
+              onAlgorithmChange={setCvdModel}
+              severity={cvdSeverity}
+              onSeverityChange={setCvdSeverity}
+            />
+            <DistinguishabilityAudit
               palette={currentPalette}
+              type={cvdType}
+              onTypeChange={setCvdType}
+              algorithm={cvdModel}
+              severity={cvdSeverity}
+              threshold={cvdThreshold}
+              onThresholdChange={setCvdThreshold}
+            />
+            <CvdRepair
+              key={`cvd-repair-${getPaletteHexes(palette.colors).join(",")}`}
+              palette={palette.colors}
+              setPalette={handlePaletteChange}
+              pairings={pairings}
+              contrastAlgorithm={contrastAlgorithm}
+              cvdAlgorithm={cvdModel}
+              threshold={cvdThreshold}
             />
           </div>
         </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { RgbaColorPicker } from "react-colorful";
 import {
   X,
@@ -7,53 +7,259 @@ import {
   Check,
   AlertCircle,
   Palette,
+  Upload,
+  Lock,
+  Unlock,
+  Save,
+  CopyPlus,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { cn, generateQualityRandomPalette } from "../../lib/utils";
+import { aseToPalette } from "../../lib/ase";
 import {
-  cn,
-  parseColorsFromText,
-  generateQualityRandomPalette,
-  generateDarkVariant,
-} from "../../lib/utils";
+  isDesignTokenDocument,
+  readDesignTokens,
+  trimSharedGroup,
+} from "../../lib/dtcg";
+import {
+  detectPaletteFormat,
+  parsePaletteFile,
+  type NamedColor,
+} from "../../lib/palette-parsers";
+import {
+  createPaletteColor,
+  getColorValue,
+  getPaletteVariants,
+  replaceUnlockedColors,
+  type PaletteColor,
+  type PaletteVariants,
+} from "../../lib/palette";
+import type { HistoryAction } from "../../lib/history";
+import {
+  colorSpaceLabels,
+  DEFAULT_COLOR_SPACE,
+  type ColorSpace,
+} from "../../lib/color-space";
+import { tokenizeCssColors } from "../../lib/css-color";
+import { describeDarkThemeCompromise } from "../../lib/dark-theme";
+import { pairingKey } from "../../lib/roles";
 import { useTheme } from "../../contexts/ThemeContext";
 import Button from "../ui/Button";
+import ImagePalettePicker from "./ImagePalettePicker";
 import chroma from "chroma-js";
 import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
 
 interface PaletteEditorProps {
-  palette: string[];
-  setPalette: (palette: string[] | ((prev: string[]) => string[])) => void;
+  palette: PaletteColor[];
+  /** `action` labels the change in the undo history */
+  setPalette: (
+    palette: PaletteColor[] | ((prev: PaletteColor[]) => PaletteColor[]),
+    action?: HistoryAction
+  ) => void;
   showVariants?: boolean;
   paletteVariants?: PaletteVariants;
   activeVariant?: "light" | "dark";
+  /** Saves to the palette library; `asNew` keeps the saved entry and adds a copy */
+  onSave?: (asNew: boolean) => void;
+  /** True when the palette was opened from or saved to the library */
+  isSaved?: boolean;
+  hasUnsavedChanges?: boolean;
+  /** Color space new palettes and variants are generated in */
+  colorSpace?: ColorSpace;
+  onColorSpaceChange?: (space: ColorSpace) => void;
+}
+
+type ImportedColor = NamedColor & { description?: string };
+
+// A file with more colors than fit, waiting for the user to pick some
+interface PendingImport {
+  fileName: string;
+  colors: ImportedColor[];
+  /** Indices of the colors to import */
+  selected: number[];
 }
 
-interface PaletteVariants {
-  light: string[];
-  dark: string[];
+const IMPORT_ACCEPT =
+  ".css,.scss,.sass,.less,.js,.cjs,.mjs,.ts,.json,.tokens,.ase,image/*";
+
+// Reads the named colors of a palette file. Design token files import their
+// first token set (e.g. light), named relative to the group they share.
+const readColorsFromFile = async (file: File): Promise<ImportedColor[]> => {
+  if (file.name.toLowerCase().endsWith(".ase")) {
+    return aseToPalette(await file.arrayBuffer());
+  }
+  const format = detectPaletteFormat(file.name);
+  if (!format) throw new Error(`Unsupported file type: ${file.name}`);
+
+  const text = await file.text();
+  if (format === "json") {
+    const document: unknown = JSON.parse(text);
+    if (isDesignTokenDocument(document)) {
+      const [firstSet] = readDesignTokens(document);
+      return trimSharedGroup(firstSet?.tokens ?? []).map(
+        ({ name, color, path, description }) => ({
+          name,
+          color,
+          group: path.slice(0, -1).join("-") || undefined,
+          description,
+        })
+      );
+    }
+  }
+  return parsePaletteFile(text, format);
+};
+
+const toPaletteColor = ({
+  name,
+  color,
+  group,
+  notation,
+  description,
+}: ImportedColor): PaletteColor =>
+  createPaletteColor(color, {
+    name,
+    ...(group ? { group } : {}),
+    ...(notation ? { notation } : {}),
+    ...(description ? { description } : {}),
+  });
+
+// Reads the distinct colors of pasted text, keeping notations other than hex
+const readColorsFromText = (text: string): PaletteColor[] => {
+  const seen = new Set<string>();
+  const colors: PaletteColor[] = [];
+  tokenizeCssColors(text).forEach(({ hex, value, notation }) => {
+    if (seen.has(hex)) return;
+    seen.add(hex);
+    colors.push(
+      createPaletteColor(hex, notation === "hex" ? {} : { notation: value })
+    );
+  });
+  return colors;
+};
+
+interface ImportPickerProps {
+  pendingImport: PendingImport;
+  onToggle: (indices: number[], selected: boolean) => void;
+  onImport: () => void;
+  onCancel: () => void;
 }
 
+// Lists the colors of a large file by group, to pick up to 10 of them
+const ImportPicker: React.FC<ImportPickerProps> = ({
+  pendingImport: { fileName, colors, selected },
+  onToggle,
+  onImport,
+  onCancel,
+}) => {
+  const groups = new Map<string, number[]>();
+  colors.forEach((color, index) => {
+    const key = color.group ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  });
+
+  return (
+    <div className="border border-surface-200 dark:border-surface-700 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          {colors.length} colors in {fileName}
+        </span>
+        <button
+          onClick={onCancel}
+          className="text-surface-400 hover:text-surface-600 dark:hover:text-surface-200"
+          aria-label="Cancel import"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <div className="max-h-64 overflow-y-auto space-y-3">
+        {[...groups].map(([group, indices]) => {
+          const allSelected = indices.every((index) =>
+            selected.includes(index)
+          );
+          return (
+            <div key={group}>
+              <label className="flex items-center gap-2 text-xs font-medium mb-1">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => onToggle(indices, !allSelected)}
+                />
+                {group || "Ungrouped"} ({indices.length})
+              </label>
+              <div className="flex flex-wrap gap-1">
+                {indices.map((index) => {
+                  const isSelected = selected.includes(index);
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => onToggle([index], !isSelected)}
+                      className={cn(
+                        "w-6 h-6 rounded border-2 transition-all",
+                        isSelected
+                          ? "border-primary-500 ring-1 ring-primary-500"
+                          : "border-surface-200 dark:border-surface-600 opacity-60"
+                      )}
+                      style={{ backgroundColor: colors[index].color }}
+                      title={`${colors[index].name} ${colors[index].color}`}
+                      aria-pressed={isSelected}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <Button
+        variant="primary"
+        size="sm"
+        onClick={onImport}
+        disabled={selected.length === 0 || selected.length > 10}
+        fullWidth
+      >
+        {selected.length > 10
+          ? `Select at most 10 colors (${selected.length} selected)`
+          : `Import ${selected.length} color${selected.length !== 1 ? "s" : ""}`}
+      </Button>
+    </div>
+  );
+};
+
 const PaletteEditor: React.FC<PaletteEditorProps> = ({
   palette,
   setPalette,
   showVariants: externalShowVariants,
   paletteVariants: externalPaletteVariants,
   activeVariant: externalActiveVariant,
+  onSave,
+  isSaved = false,
+  hasUnsavedChanges = false,
+  colorSpace: externalColorSpace,
+  onColorSpaceChange,
 }) => {
   const [activeColorIndex, setActiveColorIndex] = useState<number | null>(null);
   const [pasteStatus, setPasteStatus] = useState<"idle" | "success" | "error">(
     "idle"
   );
   const [pasteMessage, setPasteMessage] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [pendingImage, setPendingImage] = useState<File | null>(null);
 
   // Use external state if provided, otherwise use internal state
   const { isDarkMode } = useTheme();
+  const [internalColorSpace, setInternalColorSpace] =
+    useState<ColorSpace>(DEFAULT_COLOR_SPACE);
+  const colorSpace = externalColorSpace ?? internalColorSpace;
+  const setColorSpace = onColorSpaceChange ?? setInternalColorSpace;
   const [internalShowVariants] = useState(true); // Always enabled for internal use
   const [internalPaletteVariants, setInternalPaletteVariants] =
-    useState<PaletteVariants>({
-      light: palette,
-      dark: generateDarkVariant(palette),
-    });
+    useState<PaletteVariants>(() =>
+      getPaletteVariants(palette, { space: colorSpace })
+    );
   const [internalActiveVariant, setInternalActiveVariant] = useState<
     "light" | "dark"
   >(isDarkMode ? "dark" : "light");
@@ -62,21 +268,38 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
   const paletteVariants = externalPaletteVariants ?? internalPaletteVariants;
   const activeVariant = externalActiveVariant ?? internalActiveVariant;
 
-  const handleColorChange = (color: string, index: number) => {
-    setPalette((prevPalette) => {
-      const newPalette = [...prevPalette];
-      newPalette[index] = color;
-      return newPalette;
-    });
+  const updateColor = (
+    index: number,
+    fields: Partial<PaletteColor>,
+    action: HistoryAction
+  ) => {
+    setPalette(
+      (prevPalette) =>
+        prevPalette.map((color, i) =>
+          i === index ? { ...color, ...fields } : color
+        ),
+      action
+    );
+  };
+
+  // Consecutive edits of the same color field (e.g. dragging the picker)
+  // coalesce into one history step
+  const editField = (index: number, field: keyof PaletteColor) => ({
+    label: field === "hex" ? "Edit color" : `Edit color ${field}`,
+    coalesceKey: `${field}-${palette[index]?.id}`,
+  });
+
+  const handleColorChange = (hex: string, index: number) => {
+    updateColor(index, { hex }, editField(index, "hex"));
   };
 
   const addColor = () => {
     setPalette((prevPalette) => {
       if (prevPalette.length < 10) {
-        return [...prevPalette, "#CCCCCC"];
+        return [...prevPalette, createPaletteColor("#CCCCCC")];
       }
       return prevPalette;
-    });
+    }, { label: "Add color" });
   };
 
   const removeColor = (index: number) => {
@@ -88,7 +311,7 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
         setActiveColorIndex(activeColorIndex - 1);
       }
       return newPalette;
-    });
+    }, { label: "Remove color" });
   };
 
   const toRgba = (color: string) => {
@@ -99,7 +322,7 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
   const pasteColors = async () => {
     try {
       const text = await navigator.clipboard.readText();
-      const parsedColors = parseColorsFromText(text);
+      const parsedColors = readColorsFromText(text);
       if (parsedColors.length === 0) {
         setPasteStatus("error");
         setPasteMessage("No valid colors found in clipboard");
@@ -109,7 +332,10 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
       setPalette((prevPalette) => {
         const maxNewColors = Math.min(parsedColors.length, 10 - prevPalette.length);
         const colorsToAdd = parsedColors.slice(0, maxNewColors);
-        const newPalette = [...prevPalette, ...colorsToAdd].slice(0, 10);
+        const newPalette = [
+          ...prevPalette,
+          ...colorsToAdd,
+        ].slice(0, 10);
         setPasteStatus("success");
         setPasteMessage(
           `Added ${colorsToAdd.length} color${
@@ -118,7 +344,7 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
         );
         setTimeout(() => setPasteStatus("idle"), 3000);
         return newPalette;
-      });
+      }, { label: "Paste colors" });
     } catch {
       setPasteStatus("error");
       setPasteMessage("Failed to read from clipboard");
@@ -129,7 +355,7 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
   const replaceWithPastedColors = async () => {
     try {
       const text = await navigator.clipboard.readText();
-      const parsedColors = parseColorsFromText(text);
+      const parsedColors = readColorsFromText(text);
       if (parsedColors.length === 0) {
         setPasteStatus("error");
         setPasteMessage("No valid colors found in clipboard");
@@ -137,7 +363,9 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
         return;
       }
       const colorsToUse = parsedColors.slice(0, 10);
-      setPalette(colorsToUse);
+      setPalette(colorsToUse, {
+        label: "Replace with pasted colors",
+      });
       setPasteStatus("success");
       setPasteMessage(
         `Replaced palette with ${colorsToUse.length} color${
@@ -152,20 +380,121 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
     }
   };
 
+  const showStatus = (status: "success" | "error", message: string) => {
+    setPasteStatus(status);
+    setPasteMessage(message);
+    setTimeout(() => setPasteStatus("idle"), 3000);
+  };
+
+  const importColors = (colors: ImportedColor[], fileName: string) => {
+    setPalette(colors.map(toPaletteColor), { label: `Import ${fileName}` });
+    showStatus(
+      "success",
+      `Imported ${colors.length} color${
+        colors.length !== 1 ? "s" : ""
+      } from ${fileName}`
+    );
+  };
+
+  // Imports small files directly; larger ones open the color picker below, and
+  // images open the image palette picker
+  const importFile = async (file: File) => {
+    if (file.type.startsWith("image/")) {
+      setPendingImport(null);
+      setPendingImage(file);
+      return;
+    }
+    try {
+      const importedColors = await readColorsFromFile(file);
+      if (importedColors.length === 0) {
+        showStatus("error", `No colors found in ${file.name}`);
+      } else if (importedColors.length <= 10) {
+        setPendingImport(null);
+        setPendingImage(null);
+        importColors(importedColors, file.name);
+      } else {
+        setPendingImage(null);
+        setPendingImport({
+          fileName: file.name,
+          colors: importedColors,
+          selected: [],
+        });
+      }
+    } catch (error) {
+      console.error("Error importing palette file:", error);
+      showStatus("error", `Could not read ${file.name}`);
+    }
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) importFile(file);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) importFile(file);
+  };
+
+  const togglePendingColors = (indices: number[], selected: boolean) => {
+    setPendingImport(
+      (prev) =>
+        prev && {
+          ...prev,
+          selected: selected
+            ? [...new Set([...prev.selected, ...indices])]
+            : prev.selected.filter((index) => !indices.includes(index)),
+        }
+    );
+  };
+
+  const importPendingColors = () => {
+    if (!pendingImport) return;
+    importColors(
+      [...pendingImport.selected]
+        .sort((a, b) => a - b)
+        .map((index) => pendingImport.colors[index]),
+      pendingImport.fileName
+    );
+    setPendingImport(null);
+  };
+
+  const importImageColors = (colors: string[]) => {
+    if (!pendingImage) return;
+    setPalette(colors.map((color) => createPaletteColor(color)), {
+      label: `Extract colors from ${pendingImage.name}`,
+    });
+    showStatus(
+      "success",
+      `Extracted ${colors.length} color${
+        colors.length !== 1 ? "s" : ""
+      } from ${pendingImage.name}`
+    );
+    setPendingImage(null);
+  };
+
+  // Regenerates the unlocked colors, keeping locked ones in place
   const generateGoodPalette = () => {
-    const newPalette = generateQualityRandomPalette(5);
-    setPalette(newPalette);
+    const count = 5 - palette.filter((color) => color.locked).length;
+    if (count <= 0) return;
+    setPalette(
+      replaceUnlockedColors(palette, generateQualityRandomPalette(count, colorSpace)),
+      { label: "Generate palette" }
+    );
   };
 
-  // Update internal variants when palette changes (if using internal state)
+  // Update internal variants when palette changes (if using internal state).
+  // These keep the pairings the roles imply, under the default algorithm.
   useEffect(() => {
     if (!externalPaletteVariants) {
-      setInternalPaletteVariants({
-        light: palette,
-        dark: generateDarkVariant(palette),
-      });
+      setInternalPaletteVariants(
+        getPaletteVariants(palette, { space: colorSpace })
+      );
     }
-  }, [palette, externalPaletteVariants]);
+  }, [palette, externalPaletteVariants, colorSpace]);
 
   // Sync internal active variant with theme when not externally controlled
   useEffect(() => {
@@ -177,153 +506,350 @@ const PaletteEditor: React.FC<PaletteEditorProps> = ({
   const currentPalette = showVariants
     ? paletteVariants[activeVariant]
     : palette;
+  const darkCompromises =
+    showVariants && activeVariant === "dark"
+      ? paletteVariants.darkCompromises
+      : [];
 
   return (
-    <Card className="shadow-lg border border-surface-200 dark:border-surface-700">
-      <CardHeader className="flex flex-row items-center justify-between pb-0 pt-4 px-6">
-        <CardTitle className="text-lg font-semibold text-surface-900 dark:text-surface-100">
-          Edit Palette
-        </CardTitle>
-        <div className="flex gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={generateGoodPalette}
-            className="flex items-center gap-2"
-          >
-            <Palette size={16} />
-            Generate
-          </Button>
-        </div>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        <div className="flex flex-col gap-4">
-          <div className="grid grid-cols-5 gap-3 mx-auto w-full max-w-xs md:max-w-none">
-            <AnimatePresence>
-              {currentPalette.map((color, index) => (
-                <motion.div
-                  key={index}
-                  className="relative group"
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.8 }}
-                  transition={{ duration: 0.2 }}
+    // The whole editor is a drop zone for palette files
+    <div
+      className={cn("rounded-lg", isDragging && "ring-2 ring-primary-500")}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={handleDrop}
+    >
+      <Card className="shadow-lg border border-surface-200 dark:border-surface-700">
+        <CardHeader className="flex flex-row items-center justify-between pb-0 pt-4 px-6">
+          <CardTitle className="text-lg font-semibold text-surface-900 dark:text-surface-100">
+            Edit Palette
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={generateGoodPalette}
+              className="flex items-center gap-2"
+            >
+              <Palette size={16} />
+              Generate
+            </Button>
+            {onSave && (
+              <>
+                <Button
+                  variant={hasUnsavedChanges ? "primary" : "outline"}
+                  size="sm"
+                  onClick={() => onSave(false)}
+                  disabled={isSaved && !hasUnsavedChanges}
+                  className="flex items-center gap-2"
+                  title={
+                    hasUnsavedChanges
+                      ? "Save changes to the library"
+                      : "Saved in the library"
+                  }
                 >
-                  <div
-                    className={cn(
-                      "w-12 h-12 rounded-lg cursor-pointer border-2 transition-all duration-150",
-                      activeColorIndex === index
-                        ? "border-primary-500 ring-2 ring-primary-500"
-                        : "border-surface-300"
+                  <Save size={16} />
+                  {isSaved && !hasUnsavedChanges ? "Saved" : "Save"}
+                </Button>
+                {isSaved && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onSave(true)}
+                    title="Save as a new palette"
+                  >
+                    <CopyPlus size={16} />
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-5 gap-3 mx-auto w-full max-w-xs md:max-w-none">
+              <AnimatePresence>
+                {currentPalette.map((color, index) => (
+                  <motion.div
+                    key={color.id}
+                    className="relative group"
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.8 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <div
+                      className={cn(
+                        "w-12 h-12 rounded-lg cursor-pointer border-2 transition-all duration-150",
+                        activeColorIndex === index
+                          ? "border-primary-500 ring-2 ring-primary-500"
+                          : "border-surface-300"
+                      )}
+                      style={{ backgroundColor: color.hex }}
+                      title={color.name || color.hex}
+                      onClick={() => setActiveColorIndex(index)}
+                    />
+                    {currentPalette.length > 2 && !color.locked && (
+                      <button
+                        onClick={() => removeColor(index)}
+                        className="absolute -top-2 -right-2 bg-surface-200 dark:bg-surface-700 rounded-full p-0.5 text-surface-500 dark:text-surface-400 hover:bg-error-500 hover:text-white transition-colors opacity-0 group-hover:opacity-100 shadow"
+                      >
+                        <X size={12} />
+                      </button>
                     )}
-                    style={{ backgroundColor: color }}
-                    onClick={() => setActiveColorIndex(index)}
-                  />
-                  {currentPalette.length > 2 && (
                     <button
-                      onClick={() => removeColor(index)}
-                      className="absolute -top-2 -right-2 bg-surface-200 dark:bg-surface-700 rounded-full p-0.5 text-surface-500 dark:text-surface-400 hover:bg-error-500 hover:text-white transition-colors opacity-0 group-hover:opacity-100 shadow"
+                      onClick={() =>
+                        updateColor(
+                          index,
+                          { locked: !color.locked },
+                          { label: color.locked ? "Unlock color" : "Lock color" }
+                        )
+                      }
+                      title={color.locked ? "Unlock color" : "Lock color"}
+                      className={cn(
+                        "absolute -bottom-2 -right-2 bg-surface-200 dark:bg-surface-700 rounded-full p-0.5 text-surface-500 dark:text-surface-400 hover:bg-primary-500 hover:text-white transition-colors shadow",
+                        color.locked ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                      )}
                     >
-                      <X size={12} />
+                      {color.locked ? <Lock size={12} /> : <Unlock size={12} />}
                     </button>
-                  )}
-                </motion.div>
-              ))}
-            </AnimatePresence>
-            {currentPalette.length < 10 && (
-              <button
-                onClick={addColor}
-                className="w-12 h-12 rounded-lg border-2 border-dashed border-surface-300 dark:border-surface-600 flex items-center justify-center text-surface-400 dark:text-surface-500 hover:bg-surface-100 dark:hover:bg-surface-800 hover:border-primary-500 transition-colors"
-              >
-                <Plus size={20} />
-              </button>
-            )}
-          </div>
+                    {color.name && (
+                      <div className="text-[10px] text-surface-500 dark:text-surface-400 truncate w-12 mt-1 text-center">
+                        {color.name}
+                      </div>
+                    )}
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+              {currentPalette.length < 10 && (
+                <button
+                  onClick={addColor}
+                  className="w-12 h-12 rounded-lg border-2 border-dashed border-surface-300 dark:border-surface-600 flex items-center justify-center text-surface-400 dark:text-surface-500 hover:bg-surface-100 dark:hover:bg-surface-800 hover:border-primary-500 transition-colors"
+                >
+                  <Plus size={20} />
+                </button>
+              )}
+            </div>
 
-          {activeColorIndex !== null &&
-            activeColorIndex < currentPalette.length &&
-            currentPalette[activeColorIndex] && (
-              <div className="space-y-3 mx-auto w-full max-w-xs md:max-w-none">
-                <RgbaColorPicker
-                  color={toRgba(currentPalette[activeColorIndex])}
-                  onChange={(color) => {
-                    const newColor = chroma
-                      .rgb(color.r, color.g, color.b, color.a)
-                      .css();
-                    handleColorChange(newColor, activeColorIndex);
-                  }}
-                />
-                <input
-                  type="text"
-                  className="input w-full"
-                  value={currentPalette[activeColorIndex]}
-                  onChange={(e) => {
-                    handleColorChange(e.target.value, activeColorIndex);
-                  }}
-                />
+            {darkCompromises.length > 0 && (
+              <div className="flex gap-2 p-3 rounded-lg text-xs bg-warning-50 text-warning-700 border border-warning-200 dark:bg-warning-900/20 dark:text-warning-400">
+                <AlertCircle size={16} className="shrink-0" />
+                <div>
+                  <div className="font-medium mb-1">
+                    {darkCompromises.length === 1
+                      ? "1 pairing is"
+                      : `${darkCompromises.length} pairings are`}{" "}
+                    below its light contrast level in the dark variant
+                  </div>
+                  <ul className="space-y-0.5">
+                    {darkCompromises.map((compromise) => (
+                      <li key={pairingKey(compromise)}>
+                        {describeDarkThemeCompromise(
+                          compromise,
+                          currentPalette.map(
+                            (color, index) => color.name || `Color ${index + 1}`
+                          )
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               </div>
             )}
-        </div>
 
-        <div className="flex flex-col gap-3">
-          <div className="flex gap-2">
+            {activeColorIndex !== null &&
+              activeColorIndex < currentPalette.length &&
+              currentPalette[activeColorIndex] && (
+                <div className="space-y-3 mx-auto w-full max-w-xs md:max-w-none">
+                  <RgbaColorPicker
+                    color={toRgba(currentPalette[activeColorIndex].hex)}
+                    onChange={(color) => {
+                      const newColor = chroma
+                        .rgb(color.r, color.g, color.b, color.a)
+                        .hex();
+                      handleColorChange(newColor, activeColorIndex);
+                    }}
+                  />
+                  <input
+                    type="text"
+                    className="input w-full"
+                    value={currentPalette[activeColorIndex].hex}
+                    onChange={(e) => {
+                      handleColorChange(e.target.value, activeColorIndex);
+                    }}
+                  />
+                  <input
+                    type="text"
+                    className="input w-full"
+                    value={currentPalette[activeColorIndex].name}
+                    onChange={(e) =>
+                      updateColor(
+                        activeColorIndex,
+                        { name: e.target.value },
+                        editField(activeColorIndex, "name")
+                      )
+                    }
+                    placeholder="Name, e.g. primary"
+                    aria-label="Color name"
+                  />
+                  <input
+                    type="text"
+                    className="input w-full"
+                    value={currentPalette[activeColorIndex].description ?? ""}
+                    onChange={(e) =>
+                      updateColor(
+                        activeColorIndex,
+                        { description: e.target.value || undefined },
+                        editField(activeColorIndex, "description")
+                      )
+                    }
+                    placeholder="Description (optional)"
+                    aria-label="Color description"
+                  />
+                  {currentPalette[activeColorIndex].notation && (
+                    <p className="text-xs text-surface-500 dark:text-surface-400">
+                      Exported as{" "}
+                      <span className="font-mono">
+                        {getColorValue(currentPalette[activeColorIndex])}
+                      </span>
+                    </p>
+                  )}
+                  {currentPalette[activeColorIndex].group && (
+                    <p className="text-xs text-surface-500 dark:text-surface-400">
+                      Imported from group {currentPalette[activeColorIndex].group}
+                    </p>
+                  )}
+                </div>
+              )}
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={pasteColors}
+                disabled={palette.length >= 10}
+                className="flex-1"
+              >
+                <Clipboard size={14} className="mr-2" />
+                Add from Clipboard
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={replaceWithPastedColors}
+                className="flex-1"
+              >
+                <Clipboard size={14} className="mr-2" />
+                Replace with Clipboard
+              </Button>
+            </div>
+
             <Button
               variant="outline"
               size="sm"
-              onClick={pasteColors}
-              disabled={palette.length >= 10}
-              className="flex-1"
+              onClick={() => fileInputRef.current?.click()}
+              fullWidth
             >
-              <Clipboard size={14} className="mr-2" />
-              Add from Clipboard
+              <Upload size={14} className="mr-2" />
+              Import from File
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={IMPORT_ACCEPT}
+              className="hidden"
+              onChange={handleFileInput}
+            />
+            <p className="text-xs text-surface-500 dark:text-surface-400 -mt-1">
+              Or drop a file here: CSS, SCSS or Less variables, a Tailwind
+              config, JSON or DTCG tokens, Adobe Swatch Exchange (.ase), or an
+              image to extract its colors.
+            </p>
+
+            {pendingImage && (
+              <ImagePalettePicker
+                file={pendingImage}
+                onImport={importImageColors}
+                onCancel={() => setPendingImage(null)}
+              />
+            )}
+
+            {pendingImport && (
+              <ImportPicker
+                pendingImport={pendingImport}
+                onToggle={togglePendingColors}
+                onImport={importPendingColors}
+                onCancel={() => setPendingImport(null)}
+              />
+            )}
+
+            <div className="flex items-center gap-2 mt-1">
+              <label
+                htmlFor="generate-color-space"
+                className="text-sm font-medium whitespace-nowrap"
+              >
+                Generate in
+              </label>
+              <select
+                id="generate-color-space"
+                value={colorSpace}
+                onChange={(e) => setColorSpace(e.target.value as ColorSpace)}
+                className="input w-full"
+              >
+                {(Object.keys(colorSpaceLabels) as ColorSpace[]).map((id) => (
+                  <option key={id} value={id}>
+                    {colorSpaceLabels[id]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <Button
-              variant="outline"
+              variant="primary"
               size="sm"
-              onClick={replaceWithPastedColors}
-              className="flex-1"
+              onClick={generateGoodPalette}
+              fullWidth
+              className="flex items-center justify-center gap-2 mt-1"
             >
-              <Clipboard size={14} className="mr-2" />
-              Replace with Clipboard
+              <Palette size={14} />
+              Generate Good Palette
             </Button>
-          </div>
 
-          <Button
-            variant="primary"
-            size="sm"
-            onClick={generateGoodPalette}
-            fullWidth
-            className="flex items-center justify-center gap-2 mt-1"
-          >
-            <Palette size={14} />
-            Generate Good Palette
-          </Button>
-
-          <AnimatePresence>
-            {pasteStatus !== "idle" && (
-              <motion.div
-                initial={{ opacity: 0, y: -10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -10 }}
-                className={cn(
-                  "flex items-center gap-2 p-3 rounded-lg text-sm mt-1",
-                  pasteStatus === "success"
-                    ? "bg-success-50 text-success-700 border border-success-200"
-                    : "bg-error-50 text-error-700 border border-error-200"
-                )}
-              >
-                {pasteStatus === "success" ? (
-                  <Check size={16} className="text-success-600" />
-                ) : (
-                  <AlertCircle size={16} className="text-error-600" />
-                )}
-                <span>{pasteMessage}</span>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </div>
-      </CardContent>
-    </Card>
+            <AnimatePresence>
+              {pasteStatus !== "idle" && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className={cn(
+                    "flex items-center gap-2 p-3 rounded-lg text-sm mt-1",
+                    pasteStatus === "success"
+                      ? "bg-success-50 text-success-700 border border-success-200"
+                      : "bg-error-50 text-error-700 border border-error-200"
+                  )}
+                >
+                  {pasteStatus === "success" ? (
+                    <Check size={16} className="text-success-600" />
+                  ) : (
+                    <AlertCircle size={16} className="text-error-600" />
+                  )}
+                  <span>{pasteMessage}</span>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
   );
 };
 
@@ -6,56 +6,111 @@ import Button from "../ui/Button";
 import {
   exportFormats,
   type ExportFormat,
+  type ExportOutput,
   downloadFile,
   copyToClipboard,
+  formatBinaryPreview,
 } from "../../lib/color-utils";
+import { getColorTokens, type PaletteColor } from "../../lib/palette";
+import {
+  DEFAULT_SCALE_OPTIONS,
+  generatePaletteScales,
+  type ScaleOptions,
+} from "../../lib/scales";
 
 interface PaletteVariants {
-  light: string[];
-  dark: string[];
+  light: PaletteColor[];
+  dark: PaletteColor[];
 }
 
 interface PaletteExportProps {
   paletteVariants: PaletteVariants;
   paletteName?: string;
+  onPaletteNameChange?: (name: string) => void;
+  /** Options the tonal scales are exported with */
+  scaleOptions?: ScaleOptions;
   className?: string;
 }
 
 type ExportVariant = "light" | "dark" | "both";
 
+// Binary formats can't be copied as text, so quick export skips them
+const textFormats = exportFormats.filter((format) => !format.binary);
+
 const PaletteExport: React.FC<PaletteExportProps> = ({
   paletteVariants,
   paletteName = "myPalette",
+  onPaletteNameChange,
+  scaleOptions = DEFAULT_SCALE_OPTIONS,
   className,
 }) => {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>(
     exportFormats[0]
   );
   const [selectedVariant, setSelectedVariant] = useState<ExportVariant>("both");
+  const [exportScales, setExportScales] = useState(false);
   const [copiedStates, setCopiedStates] = useState<{ [key: string]: boolean }>(
     {}
   );
-  const [customName, setCustomName] = useState(paletteName);
+  const [internalName, setInternalName] = useState(paletteName);
+
+  // Use external state if provided, otherwise use internal state
+  const customName = onPaletteNameChange ? paletteName : internalName;
+  const setCustomName = onPaletteNameChange ?? setInternalName;
+
+  const usesScales = exportScales && Boolean(selectedFormat.generateScales);
+
+  // Token of the first color, for the usage examples
+  const sampleToken = `${getColorTokens(paletteVariants.light)[0] ?? "1"}${
+    usesScales ? "-500" : ""
+  }`;
+
+  // Exports one palette, as tonal scales when enabled and supported
+  const generatePalette = (
+    format: ExportFormat,
+    palette: PaletteColor[],
+    name: string
+  ): ExportOutput =>
+    exportScales && format.generateScales
+      ? format.generateScales(generatePaletteScales(palette, scaleOptions), name)
+      : format.generate(palette, name);
 
   // Generate code based on selected variant
-  const generateCode = (variant: ExportVariant) => {
+  const generateCode = (variant: ExportVariant): ExportOutput => {
     if (variant === "both") {
+      // Formats that can hold several palettes in one file export them together
+      if (selectedFormat.generateVariants && !usesScales) {
+        return selectedFormat.generateVariants([
+          { name: `${customName}Light`, palette: paletteVariants.light },
+          { name: `${customName}Dark`, palette: paletteVariants.dark },
+        ]);
+      }
       // Create a combined export with both variants
-      const lightCode = selectedFormat.generate(
+      const lightCode = generatePalette(
+        selectedFormat,
         paletteVariants.light,
         `${customName}Light`
       );
-      const darkCode = selectedFormat.generate(
+      const darkCode = generatePalette(
+        selectedFormat,
         paletteVariants.dark,
         `${customName}Dark`
       );
       return `// Light variant\n${lightCode}\n\n// Dark variant\n${darkCode}`;
     } else {
-      return selectedFormat.generate(paletteVariants[variant], customName);
+      return generatePalette(
+        selectedFormat,
+        paletteVariants[variant],
+        customName
+      );
     }
   };
 
   const generatedCode = generateCode(selectedVariant);
+  const previewCode =
+    typeof generatedCode === "string"
+      ? generatedCode
+      : formatBinaryPreview(generatedCode);
 
   const handleCopy = async (formatName: string, content: string) => {
     const success = await copyToClipboard(content);
@@ -69,14 +124,15 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
 
   const handleDownload = (
     format: ExportFormat,
-    content: string,
+    content: ExportOutput,
     variant: ExportVariant
   ) => {
     const suffix =
       variant === "both" ? "Variants" : variant === "light" ? "Light" : "Dark";
     const filename = `${customName}${suffix}.${format.extension}`;
     const mimeType =
-      format.extension === "json" ? "application/json" : "text/plain";
+      format.mimeType ??
+      (format.extension === "json" ? "application/json" : "text/plain");
     downloadFile(content, filename, mimeType);
   };
 
@@ -185,6 +241,19 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                 </option>
               ))}
             </select>
+            <label className="flex items-center gap-2 mt-3 text-sm">
+              <input
+                type="checkbox"
+                checked={exportScales}
+                onChange={(e) => setExportScales(e.target.checked)}
+              />
+              Export each color as a 50–950 tonal scale
+            </label>
+            {exportScales && !selectedFormat.generateScales && (
+              <p className="text-xs text-surface-500 dark:text-surface-400 mt-1">
+                {selectedFormat.name} exports flat colors only.
+              </p>
+            )}
           </div>
 
           {/* Color Previews */}
@@ -196,17 +265,18 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                 Light Variant ({paletteVariants.light.length} colors)
               </h4>
               <div className="grid grid-cols-5 gap-2">
-                {paletteVariants.light.map((color, index) => (
+                {paletteVariants.light.map((color) => (
                   <motion.div
-                    key={`light-${index}`}
+                    key={`light-${color.id}`}
                     className="aspect-square rounded-lg border border-surface-200 dark:border-surface-600 relative group"
-                    style={{ backgroundColor: color }}
+                    style={{ backgroundColor: color.hex }}
+                    title={color.name || undefined}
                     whileHover={{ scale: 1.05 }}
                     transition={{ duration: 0.2 }}
                   >
                     <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-opacity rounded-lg flex items-center justify-center">
                       <span className="text-white text-xs opacity-0 group-hover:opacity-100 transition-opacity font-medium">
-                        {color}
+                        {color.hex}
                       </span>
                     </div>
                   </motion.div>
@@ -221,17 +291,18 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                 Dark Variant ({paletteVariants.dark.length} colors)
               </h4>
               <div className="grid grid-cols-5 gap-2">
-                {paletteVariants.dark.map((color, index) => (
+                {paletteVariants.dark.map((color) => (
                   <motion.div
-                    key={`dark-${index}`}
+                    key={`dark-${color.id}`}
                     className="aspect-square rounded-lg border border-surface-200 dark:border-surface-600 relative group"
-                    style={{ backgroundColor: color }}
+                    style={{ backgroundColor: color.hex }}
+                    title={color.name || undefined}
                     whileHover={{ scale: 1.05 }}
                     transition={{ duration: 0.2 }}
                   >
                     <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-opacity rounded-lg flex items-center justify-center">
                       <span className="text-white text-xs opacity-0 group-hover:opacity-100 transition-opacity font-medium">
-                        {color}
+                        {color.hex}
                       </span>
                     </div>
                   </motion.div>
@@ -248,7 +319,8 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => handleCopy(selectedFormat.name, generatedCode)}
+                  onClick={() => handleCopy(selectedFormat.name, previewCode)}
+                  disabled={selectedFormat.binary}
                   className="flex items-center gap-2"
                 >
                   {copiedStates[selectedFormat.name] ? (
@@ -282,7 +354,7 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
             </div>
             <div className="bg-surface-50 dark:bg-surface-800 rounded-lg p-4 border border-surface-200 dark:border-surface-700">
               <pre className="text-sm text-surface-700 dark:text-surface-300 overflow-x-auto whitespace-pre-wrap">
-                <code>{generatedCode}</code>
+                <code>{previewCode}</code>
               </pre>
             </div>
           </div>
@@ -298,11 +370,13 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                   Light Variant
                 </h5>
                 <div className="grid grid-cols-2 gap-2">
-                  {exportFormats.slice(0, 4).map((format) => {
-                    const content = format.generate(
+                  {textFormats.slice(0, 4).map((format) => {
+                    const content = generatePalette(
+                      format,
                       paletteVariants.light,
                       `${customName}Light`
                     );
+                    if (typeof content !== "string") return null;
                     const key = `light-${format.name}`;
                     return (
                       <Button
@@ -334,11 +408,13 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                   Dark Variant
                 </h5>
                 <div className="grid grid-cols-2 gap-2">
-                  {exportFormats.slice(0, 4).map((format) => {
-                    const content = format.generate(
+                  {textFormats.slice(0, 4).map((format) => {
+                    const content = generatePalette(
+                      format,
                       paletteVariants.dark,
                       `${customName}Dark`
                     );
+                    if (typeof content !== "string") return null;
                     const key = `dark-${format.name}`;
                     return (
                       <Button
@@ -375,15 +451,15 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                   {selectedVariant === "both" ? (
                     <div className="space-y-1 mt-1">
                       <code className="bg-white dark:bg-surface-700 px-2 py-1 rounded block">
-                        color: var(--{customName}Light-1);
+                        color: var(--{customName}Light-{sampleToken});
                       </code>
                       <code className="bg-white dark:bg-surface-700 px-2 py-1 rounded block">
-                        color: var(--{customName}Dark-1);
+                        color: var(--{customName}Dark-{sampleToken});
                       </code>
                     </div>
                   ) : (
                     <code className="bg-white dark:bg-surface-700 px-2 py-1 rounded mt-1 inline-block">
-                      color: var(--{customName}-1);
+                      color: var(--{customName}-{sampleToken});
                     </code>
                   )}
                 </div>
@@ -394,12 +470,12 @@ const PaletteExport: React.FC<PaletteExportProps> = ({
                   {selectedVariant === "both" ? (
                     <div className="space-y-1 mt-1">
                       <code className="bg-white dark:bg-surface-700 px-2 py-1 rounded block">
-                        bg-{customName}Light-1 dark:bg-{customName}Dark-1
+                        bg-{customName}Light-{sampleToken} dark:bg-{customName}Dark-{sampleToken}
                       </code>
                     </div>
                   ) : (
                     <code className="bg-white dark:bg-surface-700 px-2 py-1 rounded mt-1 inline-block">
-                      bg-{customName}-1
+                      bg-{customName}-{sampleToken}
                     </code>
                   )}
                 </div>
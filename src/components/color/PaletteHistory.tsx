@@ -0,0 +1,100 @@
+import React from "react";
+import { History as HistoryIcon, Undo2, Redo2 } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import Button from "../ui/Button";
+import { canRedo, canUndo, type History } from "../../lib/history";
+import type { Palette } from "../../lib/palette";
+import { cn } from "../../lib/utils";
+
+interface PaletteHistoryProps {
+  history: History<Palette>;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Jumps to the step at `index`, keeping the steps after it for redo */
+  onJump: (index: number) => void;
+  className?: string;
+}
+
+const PaletteHistory: React.FC<PaletteHistoryProps> = ({
+  history,
+  onUndo,
+  onRedo,
+  onJump,
+  className,
+}) => {
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>
+              <HistoryIcon size={20} />
+              History
+            </CardTitle>
+            <div className="flex gap-1">
+              <Button
+                variant="outline"
+                size="xs"
+                icon={<Undo2 size={12} />}
+                onClick={onUndo}
+                disabled={!canUndo(history)}
+                title="Undo (Ctrl+Z)"
+              >
+                Undo
+              </Button>
+              <Button
+                variant="outline"
+                size="xs"
+                icon={<Redo2 size={12} />}
+                onClick={onRedo}
+                disabled={!canRedo(history)}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                Redo
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {/* Newest step first; steps after the current one can be redone */}
+          <ol className="space-y-1 max-h-64 overflow-y-auto">
+            {history.entries
+              .map((entry, index) => ({ entry, index }))
+              .reverse()
+              .map(({ entry, index }) => (
+                <li key={`${index}-${entry.timestamp}`}>
+                  <button
+                    onClick={() => onJump(index)}
+                    className={cn(
+                      "w-full flex items-center gap-3 px-2 py-1.5 rounded-md text-left text-sm transition-colors",
+                      index === history.index
+                        ? "bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300"
+                        : "hover:bg-surface-100 dark:hover:bg-surface-700",
+                      index > history.index && "opacity-50"
+                    )}
+                    aria-current={index === history.index ? "step" : undefined}
+                  >
+                    <div className="flex h-4 w-16 flex-shrink-0 rounded overflow-hidden">
+                      {entry.state.colors.map((color) => (
+                        <div
+                          key={color.id}
+                          className="flex-1"
+                          style={{ backgroundColor: color.hex }}
+                        />
+                      ))}
+                    </div>
+                    <span className="flex-1 truncate">{entry.label}</span>
+                    <span className="text-xs text-surface-500 dark:text-surface-400 flex-shrink-0">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  </button>
+                </li>
+              ))}
+          </ol>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaletteHistory;
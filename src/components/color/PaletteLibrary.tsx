@@ -0,0 +1,265 @@
+import React, { useState } from "react";
+import {
+  Library,
+  Search,
+  Pencil,
+  Tag,
+  Copy,
+  Trash2,
+  FolderOpen,
+} from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import Button from "../ui/Button";
+import {
+  parseTags,
+  searchPalettes,
+  type SavedPalette,
+} from "../../lib/palette-library";
+import { usePaletteLibrary } from "../../contexts/usePaletteLibrary";
+import { cn } from "../../lib/utils";
+
+interface PaletteLibraryProps {
+  /** Library id of the palette being edited */
+  currentPaletteId: string | null;
+  onOpen: (palette: SavedPalette) => void;
+  /** Called after renaming or retagging, so the open palette can follow */
+  onMetadataChange?: (
+    id: string,
+    fields: { name?: string; tags?: string[] }
+  ) => void;
+  className?: string;
+}
+
+interface EditingField {
+  id: string;
+  field: "name" | "tags";
+  value: string;
+}
+
+const PaletteLibrary: React.FC<PaletteLibraryProps> = ({
+  currentPaletteId,
+  onOpen,
+  onMetadataChange,
+  className,
+}) => {
+  const {
+    palettes,
+    renamePalette,
+    setPaletteTags,
+    duplicatePalette,
+    deletePalette,
+  } = usePaletteLibrary();
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<EditingField | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const results = searchPalettes(palettes, query);
+
+  const commitEdit = () => {
+    if (!editing) return;
+    if (editing.field === "name") {
+      const name = editing.value.trim();
+      if (name) {
+        renamePalette(editing.id, name);
+        onMetadataChange?.(editing.id, { name });
+      }
+    } else {
+      const tags = parseTags(editing.value);
+      setPaletteTags(editing.id, tags);
+      onMetadataChange?.(editing.id, { tags });
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (id: string) => {
+    // Deleting takes a second click, so a stray click can't lose a palette
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      setTimeout(() => setPendingDeleteId(null), 3000);
+      return;
+    }
+    deletePalette(id);
+    setPendingDeleteId(null);
+  };
+
+  const renderEditInput = (placeholder: string) => (
+    <input
+      type="text"
+      className="input w-full text-sm"
+      value={editing?.value ?? ""}
+      placeholder={placeholder}
+      autoFocus
+      onChange={(e) =>
+        setEditing((prev) => prev && { ...prev, value: e.target.value })
+      }
+      onBlur={commitEdit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commitEdit();
+        if (e.key === "Escape") setEditing(null);
+      }}
+    />
+  );
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <Library size={20} />
+            Saved Palettes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search
+              size={14}
+              className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-400"
+            />
+            <input
+              type="search"
+              className="input w-full pl-8"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, tag or color"
+              aria-label="Search saved palettes"
+            />
+          </div>
+
+          {palettes.length === 0 ? (
+            <p className="text-sm text-surface-500 dark:text-surface-400 text-center py-4">
+              No saved palettes yet. Use Save in the editor to keep a palette
+              between sessions.
+            </p>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-surface-500 dark:text-surface-400 text-center py-4">
+              No palettes match "{query}".
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {results.map((palette) => (
+                <li
+                  key={palette.id}
+                  className={cn(
+                    "p-3 rounded-lg border",
+                    palette.id === currentPaletteId
+                      ? "border-primary-500 bg-primary-50 dark:bg-primary-900/20"
+                      : "border-surface-200 dark:border-surface-700"
+                  )}
+                >
+                  <div className="flex h-6 rounded overflow-hidden mb-2">
+                    {palette.colors.map((color) => (
+                      <div
+                        key={color.id}
+                        className="flex-1"
+                        style={{ backgroundColor: color.hex }}
+                        title={color.name || color.hex}
+                      />
+                    ))}
+                  </div>
+
+                  {editing?.id === palette.id && editing.field === "name" ? (
+                    renderEditInput("Palette name")
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm truncate">
+                        {palette.name}
+                      </span>
+                      <span className="text-xs text-surface-500 dark:text-surface-400 flex-shrink-0">
+                        v{palette.version} ·{" "}
+                        {new Date(palette.updatedAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                  )}
+
+                  {editing?.id === palette.id && editing.field === "tags" ? (
+                    <div className="mt-2">
+                      {renderEditInput("Comma-separated tags")}
+                    </div>
+                  ) : (
+                    palette.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {palette.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={() => setQuery(tag)}
+                            className="text-xs px-2 py-0.5 rounded-full bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 hover:bg-primary-100 dark:hover:bg-primary-900/40"
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )
+                  )}
+
+                  <div className="flex gap-1 mt-2">
+                    <Button
+                      variant="outline"
+                      size="xs"
+                      icon={<FolderOpen size={12} />}
+                      onClick={() => onOpen(palette)}
+                      disabled={palette.id === currentPaletteId}
+                    >
+                      Open
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      title="Rename"
+                      onClick={() =>
+                        setEditing({
+                          id: palette.id,
+                          field: "name",
+                          value: palette.name,
+                        })
+                      }
+                    >
+                      <Pencil size={12} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      title="Edit tags"
+                      onClick={() =>
+                        setEditing({
+                          id: palette.id,
+                          field: "tags",
+                          value: palette.tags.join(", "),
+                        })
+                      }
+                    >
+                      <Tag size={12} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      title="Duplicate"
+                      onClick={() => duplicatePalette(palette.id)}
+                    >
+                      <Copy size={12} />
+                    </Button>
+                    <Button
+                      variant={
+                        pendingDeleteId === palette.id ? "error" : "ghost"
+                      }
+                      size="xs"
+                      title="Delete"
+                      onClick={() => handleDelete(palette.id)}
+                      className="ml-auto"
+                    >
+                      <Trash2 size={12} />
+                      {pendingDeleteId === palette.id && (
+                        <span className="ml-1">Confirm</span>
+                      )}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaletteLibrary;
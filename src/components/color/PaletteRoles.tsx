@@ -0,0 +1,188 @@
+import React from "react";
+import { Layers, Wand2, X } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import Button from "../ui/Button";
+import { contrastUsageLabels } from "../../lib/audit";
+import {
+  colorRoleLabels,
+  derivePairings,
+  pairingKey,
+  suggestRoles,
+  type ColorRole,
+} from "../../lib/roles";
+import {
+  getPaletteHexes,
+  getRoleAssignments,
+  type PaletteColor,
+} from "../../lib/palette";
+import type { HistoryAction } from "../../lib/history";
+import { cn } from "../../lib/utils";
+
+interface PaletteRolesProps {
+  palette: PaletteColor[];
+  setPalette: (palette: PaletteColor[], action?: HistoryAction) => void;
+  /** Color id keys (see `pairingKey`) of derived pairings that don't occur in the UI */
+  excludedPairings: string[];
+  onExcludedPairingsChange: (keys: string[]) => void;
+  className?: string;
+}
+
+const PaletteRoles: React.FC<PaletteRolesProps> = ({
+  palette,
+  setPalette,
+  excludedPairings,
+  onExcludedPairingsChange,
+  className,
+}) => {
+  const pairings = derivePairings(getRoleAssignments(palette));
+
+  const setRole = (index: number, role: ColorRole | null) => {
+    setPalette(
+      palette.map((color, i) =>
+        i === index ? { ...color, role: role ?? undefined } : color
+      ),
+      { label: "Set role" }
+    );
+  };
+
+  const setRoles = (roles: (ColorRole | null)[], label: string) => {
+    setPalette(
+      palette.map((color, i) => ({ ...color, role: roles[i] ?? undefined })),
+      { label }
+    );
+    onExcludedPairingsChange([]);
+  };
+
+  const togglePairing = (key: string) => {
+    onExcludedPairingsChange(
+      excludedPairings.includes(key)
+        ? excludedPairings.filter((item) => item !== key)
+        : [...excludedPairings, key]
+    );
+  };
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <Layers size={20} />
+            Roles & Pairings
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <p className="text-sm text-surface-600 dark:text-surface-400">
+            Tag colors with the role they play. Only the foreground/background
+            pairings those roles imply are audited: text against 4.5:1,
+            borders, icons and accents against 3:1. Without roles every pair is
+            audited.
+          </p>
+
+          <div className="space-y-2">
+            {palette.map((color, index) => (
+              <div key={color.id} className="flex items-center gap-3">
+                <div
+                  className="w-8 h-8 rounded-md border border-surface-200 dark:border-surface-600 flex-shrink-0"
+                  style={{ backgroundColor: color.hex }}
+                  title={color.hex}
+                />
+                <span className="text-sm w-24 truncate" title={color.hex}>
+                  {color.name || <span className="font-mono">{color.hex}</span>}
+                </span>
+                <select
+                  value={color.role ?? ""}
+                  onChange={(e) =>
+                    setRole(index, (e.target.value || null) as ColorRole | null)
+                  }
+                  className="input flex-1"
+                  aria-label={`Role of ${color.name || color.hex}`}
+                >
+                  <option value="">Unassigned</option>
+                  {(Object.keys(colorRoleLabels) as ColorRole[]).map((role) => (
+                    <option key={role} value={role}>
+                      {colorRoleLabels[role]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Wand2 size={14} />}
+              onClick={() => setRoles(suggestRoles(getPaletteHexes(palette)), "Suggest roles")}
+            >
+              Suggest Roles
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={<X size={14} />}
+              disabled={palette.every((color) => !color.role)}
+              onClick={() => setRoles([], "Clear roles")}
+            >
+              Clear
+            </Button>
+          </div>
+
+          {pairings.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">Declared pairings</h4>
+              <ul className="space-y-2">
+                {pairings.map((pairing) => {
+                  const foreground = palette[pairing.foreground];
+                  const background = palette[pairing.background];
+                  const key = pairingKey({
+                    foreground: foreground.id,
+                    background: background.id,
+                  });
+                  const included = !excludedPairings.includes(key);
+                  return (
+                    <li key={key}>
+                      <label
+                        className={cn(
+                          "flex items-center gap-3 text-sm cursor-pointer",
+                          !included && "opacity-50"
+                        )}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={included}
+                          onChange={() => togglePairing(key)}
+                        />
+                        <span
+                          className="px-2 py-1 rounded font-medium"
+                          style={{
+                            backgroundColor: background.hex,
+                            color: foreground.hex,
+                          }}
+                        >
+                          Aa
+                        </span>
+                        <span>
+                          {foreground.name ||
+                            colorRoleLabels[foreground.role as ColorRole]}{" "}
+                          on{" "}
+                          {background.name ||
+                            colorRoleLabels[background.role as ColorRole]}
+                        </span>
+                        <span className="text-xs text-surface-500 dark:text-surface-400 ml-auto">
+                          {contrastUsageLabels[pairing.usage]}
+                        </span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaletteRoles;
@@ -0,0 +1,342 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Columns2, Download, ImageUp, LayoutGrid, X } from "lucide-react";
+import Button from "../ui/Button";
+import { cn } from "../../lib/utils";
+import { downloadFile } from "../../lib/color-utils";
+import { readImageFile, scaleImageData } from "../../lib/image-file";
+import {
+  colorBlindnessTypeIds,
+  simulateColorBlindnessPixels,
+  type ColorBlindnessType,
+  type CvdAlgorithm,
+} from "../../lib/cvd";
+
+interface ScreenshotSimulationProps {
+  type: ColorBlindnessType;
+  onTypeChange: (type: ColorBlindnessType) => void;
+  algorithm: CvdAlgorithm;
+  /** Severity of anomalous types, 0 to 1 */
+  severity: number;
+  /** Display name of each type */
+  typeNames: Record<ColorBlindnessType, string>;
+}
+
+type ViewMode = "split" | "grid";
+
+// Images up to 4K are simulated at full size
+const MAX_PIXELS = 3840 * 2160;
+// Pixels simulated between yields to the browser, about 30ms of work
+const CHUNK_PIXELS = 250_000;
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_HEIGHT = 240;
+
+const drawImageData = (canvas: HTMLCanvasElement | null, image: ImageData) => {
+  if (!canvas) return;
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")?.putImageData(image, 0, 0);
+};
+
+// One type in the grid view, simulated on a thumbnail
+const SimulationThumbnail: React.FC<{
+  image: ImageData;
+  type: ColorBlindnessType | null;
+  label: string;
+  algorithm: CvdAlgorithm;
+  severity: number;
+  selected: boolean;
+  onSelect?: () => void;
+}> = ({ image, type, label, algorithm, severity, selected, onSelect }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!type) {
+      drawImageData(canvasRef.current, image);
+      return;
+    }
+    const simulated = new ImageData(image.width, image.height);
+    simulateColorBlindnessPixels(
+      image.data,
+      type,
+      { algorithm, severity },
+      simulated.data
+    );
+    drawImageData(canvasRef.current, simulated);
+  }, [image, type, algorithm, severity]);
+
+  return (
+    <button
+      onClick={onSelect}
+      disabled={!onSelect}
+      className={cn(
+        "text-left rounded-lg border p-1 transition-colors",
+        selected
+          ? "border-primary-500 ring-1 ring-primary-500"
+          : "border-surface-200 dark:border-surface-700 hover:border-surface-400"
+      )}
+    >
+      <canvas ref={canvasRef} className="block w-full rounded" />
+      <div className="text-xs mt-1 px-1 truncate">{label}</div>
+    </button>
+  );
+};
+
+// Re-renders an uploaded screenshot or mockup as seen with each deficiency
+const ScreenshotSimulation: React.FC<ScreenshotSimulationProps> = ({
+  type,
+  onTypeChange,
+  algorithm,
+  severity,
+  typeNames,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const originalRef = useRef<HTMLCanvasElement>(null);
+  const simulatedRef = useRef<HTMLCanvasElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [image, setImage] = useState<ImageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ViewMode>("split");
+  const [split, setSplit] = useState(50);
+  // Share of the image simulated so far, null when done
+  const [progress, setProgress] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setImage(null);
+    setError(null);
+    readImageFile(file, MAX_PIXELS)
+      .then((data) => {
+        if (!cancelled) setImage(data);
+      })
+      .catch((readError) => {
+        console.error("Error reading image:", readError);
+        if (!cancelled) setError(`Could not read ${file.name}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (image) drawImageData(originalRef.current, image);
+  }, [image]);
+
+  // Simulates the full image in chunks, yielding between them so a large
+  // screenshot doesn't block the page. A newer run cancels the previous one.
+  useEffect(() => {
+    if (!image) return;
+    let cancelled = false;
+    const simulated = new ImageData(image.width, image.height);
+    const total = image.width * image.height;
+
+    const run = async () => {
+      for (let start = 0; start < total; start += CHUNK_PIXELS) {
+        setProgress(start / total);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (cancelled) return;
+        simulateColorBlindnessPixels(
+          image.data,
+          type,
+          { algorithm, severity },
+          simulated.data,
+          start,
+          Math.min(total, start + CHUNK_PIXELS)
+        );
+      }
+      drawImageData(simulatedRef.current, simulated);
+      setProgress(null);
+    };
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [image, type, algorithm, severity]);
+
+  const thumbnail = useMemo(
+    () =>
+      image && view === "grid"
+        ? scaleImageData(image, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+        : null,
+    [image, view]
+  );
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    if (!selected.type.startsWith("image/")) {
+      setError(`${selected.name} is not an image`);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const downloadSimulation = () => {
+    simulatedRef.current?.toBlob((blob) => {
+      if (!blob || !file) return;
+      const name = file.name.replace(/\.[^.]+$/, "");
+      downloadFile(blob, `${name}-${type}.png`, "image/png");
+    }, "image/png");
+  };
+
+  const clear = () => {
+    setFile(null);
+    setImage(null);
+    setError(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        "space-y-3 rounded-lg",
+        isDragging && "ring-2 ring-primary-500"
+      )}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        selectFile(e.dataTransfer.files[0]);
+      }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium">Screenshot Preview</h4>
+        {file && (
+          <button
+            onClick={clear}
+            className="text-surface-400 hover:text-surface-600 dark:hover:text-surface-200"
+            aria-label="Remove screenshot"
+          >
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {!file && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full border-2 border-dashed border-surface-300 dark:border-surface-600 rounded-lg p-6 text-sm text-surface-500 dark:text-surface-400 flex flex-col items-center gap-2 hover:border-primary-500"
+        >
+          <ImageUp size={20} />
+          Drop or pick a screenshot or mockup (PNG, JPG) to see it with each
+          deficiency
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          selectFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+      {error && <p className="text-sm text-error-500">{error}</p>}
+
+      {file && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant={view === "split" ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setView("split")}
+            >
+              <Columns2 size={14} className="mr-1" />
+              Compare
+            </Button>
+            <Button
+              variant={view === "grid" ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setView("grid")}
+            >
+              <LayoutGrid size={14} className="mr-1" />
+              All Types
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={downloadSimulation}
+              disabled={!image || progress !== null}
+            >
+              <Download size={14} className="mr-1" />
+              Download {typeNames[type]}
+            </Button>
+            {progress !== null && image && (
+              <span className="text-xs text-surface-500 dark:text-surface-400">
+                Simulating… {Math.round(progress * 100)}%
+              </span>
+            )}
+          </div>
+
+          {/* Split view: original on the left of the handle, simulated on the right.
+              Kept mounted in grid view so the download has a canvas to read */}
+          <div className={cn("space-y-2", view !== "split" && "hidden")}>
+            <div className="relative rounded overflow-hidden border border-surface-200 dark:border-surface-700">
+              <canvas ref={originalRef} className="block w-full h-auto" />
+              <canvas
+                ref={simulatedRef}
+                className="absolute inset-0 block w-full h-full"
+                style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+              />
+              <div
+                className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+                style={{ left: `${split}%` }}
+              />
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={split}
+              onChange={(e) => setSplit(Number(e.target.value))}
+              className="w-full"
+              aria-label="Comparison split"
+            />
+            <div className="flex justify-between text-xs text-surface-500 dark:text-surface-400">
+              <span>Normal vision</span>
+              <span>{typeNames[type]}</span>
+            </div>
+          </div>
+
+          {view === "grid" && thumbnail && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              <SimulationThumbnail
+                image={thumbnail}
+                type={null}
+                label="Normal vision"
+                algorithm={algorithm}
+                severity={severity}
+                selected={false}
+              />
+              {colorBlindnessTypeIds.map((id) => (
+                <SimulationThumbnail
+                  key={id}
+                  image={thumbnail}
+                  type={id}
+                  label={typeNames[id]}
+                  algorithm={algorithm}
+                  severity={severity}
+                  selected={id === type}
+                  onSelect={() => {
+                    onTypeChange(id);
+                    setView("split");
+                  }}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScreenshotSimulation;
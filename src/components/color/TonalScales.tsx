@@ -0,0 +1,189 @@
+import React, { useState } from "react";
+import { Layers3 } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "../ui/Card";
+import {
+  auditContrast,
+  formatContrastValue,
+  type ContrastAlgorithm,
+} from "../../lib/audit";
+import {
+  DEFAULT_SCALE_OPTIONS,
+  generatePaletteScales,
+  lightnessCurveLabels,
+  type LightnessCurve,
+  type ScaleOptions,
+} from "../../lib/scales";
+import type { PaletteColor } from "../../lib/palette";
+import { cn } from "../../lib/utils";
+
+interface TonalScalesProps {
+  palette: PaletteColor[];
+  options?: ScaleOptions;
+  onOptionsChange?: (options: ScaleOptions) => void;
+  /** Algorithm the contrast against white and black is shown in */
+  algorithm?: ContrastAlgorithm;
+  className?: string;
+}
+
+const TonalScales: React.FC<TonalScalesProps> = ({
+  palette,
+  options: externalOptions,
+  onOptionsChange,
+  algorithm = "wcag",
+  className,
+}) => {
+  const [internalOptions, setInternalOptions] = useState<ScaleOptions>(
+    DEFAULT_SCALE_OPTIONS
+  );
+
+  // Use external state if provided, otherwise use internal state
+  const options = externalOptions ?? internalOptions;
+  const setOptions = onOptionsChange ?? setInternalOptions;
+  const updateOptions = (update: Partial<ScaleOptions>) =>
+    setOptions({ ...options, ...update });
+
+  const scales = generatePaletteScales(palette, options);
+
+  if (palette.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers3 size={20} />
+            Tonal Scales
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label
+                htmlFor="scale-curve"
+                className="block text-sm font-medium mb-2"
+              >
+                Lightness curve
+              </label>
+              <select
+                id="scale-curve"
+                value={options.curve}
+                onChange={(e) =>
+                  updateOptions({ curve: e.target.value as LightnessCurve })
+                }
+                className="input w-full"
+              >
+                {(Object.keys(lightnessCurveLabels) as LightnessCurve[]).map(
+                  (curve) => (
+                    <option key={curve} value={curve}>
+                      {lightnessCurveLabels[curve]}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Hue shift {options.hueShift}°
+              </label>
+              <input
+                type="range"
+                min={-60}
+                max={60}
+                step={1}
+                value={options.hueShift}
+                onChange={(e) =>
+                  updateOptions({ hueShift: Number(e.target.value) })
+                }
+                className="w-full"
+                aria-label="Hue shift"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Chroma easing {Math.round(options.chromaEasing * 100)}%
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={options.chromaEasing}
+                onChange={(e) =>
+                  updateOptions({ chromaEasing: Number(e.target.value) })
+                }
+                className="w-full"
+                aria-label="Chroma easing"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {scales.map(({ token, steps }, index) => (
+              <div key={palette[index].id}>
+                <h4 className="text-sm font-medium mb-2">{token}</h4>
+                <div className="overflow-x-auto">
+                  <div className="grid grid-cols-11 gap-1 min-w-[560px]">
+                    {steps.map(({ step, hex, isBase }) => {
+                      const onWhite = auditContrast(hex, "#ffffff", {
+                        algorithm,
+                      });
+                      const onBlack = auditContrast(hex, "#000000", {
+                        algorithm,
+                      });
+                      return (
+                        <div key={step} className="text-center">
+                          <div
+                            className={cn(
+                              "h-10 rounded border border-surface-200 dark:border-surface-600",
+                              isBase &&
+                                "ring-2 ring-primary-500 ring-offset-1 dark:ring-offset-surface-800"
+                            )}
+                            style={{ backgroundColor: hex }}
+                            title={isBase ? `${hex} (palette color)` : hex}
+                          />
+                          <div className="text-xs font-medium mt-1">{step}</div>
+                          <div className="text-[10px] font-mono text-surface-500 dark:text-surface-400">
+                            {hex}
+                          </div>
+                          <div
+                            className={cn(
+                              "text-[10px]",
+                              onWhite.passes
+                                ? "text-success-600 dark:text-success-400"
+                                : "text-surface-400"
+                            )}
+                            title="Contrast on white"
+                          >
+                            W {formatContrastValue(onWhite, algorithm)}
+                          </div>
+                          <div
+                            className={cn(
+                              "text-[10px]",
+                              onBlack.passes
+                                ? "text-success-600 dark:text-success-400"
+                                : "text-surface-400"
+                            )}
+                            title="Contrast on black"
+                          >
+                            B {formatContrastValue(onBlack, algorithm)}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-surface-500 dark:text-surface-400">
+            Each color keeps its own step (outlined) and the rest of the ramp is
+            laid out in OKLCH. Contrast against white (W) and black (B) is
+            highlighted where it meets AA for normal text.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TonalScales;
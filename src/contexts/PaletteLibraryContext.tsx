@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from "react";
+import type { Palette } from "../lib/palette";
+import {
+  createSavedPalette,
+  loadLastOpenedPaletteId,
+  loadPaletteLibrary,
+  storeLastOpenedPaletteId,
+  storePaletteLibrary,
+  type SavedPalette,
+} from "../lib/palette-library";
+import { PaletteLibraryContext } from "./usePaletteLibrary";
+
+interface PaletteLibraryProviderProps {
+  children: React.ReactNode;
+}
+
+export const PaletteLibraryProvider: React.FC<PaletteLibraryProviderProps> = ({
+  children,
+}) => {
+  const [palettes, setPalettes] = useState<SavedPalette[]>(loadPaletteLibrary);
+  const [lastOpenedId, setLastOpenedId] = useState<string | null>(
+    loadLastOpenedPaletteId
+  );
+
+  useEffect(() => {
+    storePaletteLibrary(palettes);
+  }, [palettes]);
+
+  useEffect(() => {
+    storeLastOpenedPaletteId(lastOpenedId);
+  }, [lastOpenedId]);
+
+  const updatePalette = (id: string, fields: Partial<SavedPalette>) => {
+    setPalettes((prev) =>
+      prev.map((palette) =>
+        palette.id === id
+          ? { ...palette, ...fields, updatedAt: new Date().toISOString() }
+          : palette
+      )
+    );
+  };
+
+  const savePalette = (palette: Palette, id?: string | null) => {
+    const existing = id ? palettes.find((entry) => entry.id === id) : undefined;
+    if (existing) {
+      const saved: SavedPalette = {
+        ...existing,
+        ...palette,
+        version: existing.version + 1,
+        updatedAt: new Date().toISOString(),
+      };
+      setPalettes((prev) =>
+        prev.map((entry) => (entry.id === saved.id ? saved : entry))
+      );
+      return saved;
+    }
+
+    const saved = createSavedPalette({ ...palette, version: 1 });
+    setPalettes((prev) => [saved, ...prev]);
+    return saved;
+  };
+
+  const duplicatePalette = (id: string) => {
+    const original = palettes.find((entry) => entry.id === id);
+    if (!original) return undefined;
+    const copy = createSavedPalette({
+      ...original,
+      name: `${original.name} copy`,
+      version: 1,
+    });
+    setPalettes((prev) => [copy, ...prev]);
+    return copy;
+  };
+
+  const deletePalette = (id: string) => {
+    setPalettes((prev) => prev.filter((entry) => entry.id !== id));
+    if (lastOpenedId === id) setLastOpenedId(null);
+  };
+
+  return (
+    <PaletteLibraryContext.Provider
+      value={{
+        palettes,
+        lastOpenedId,
+        savePalette,
+        renamePalette: (id, name) => updatePalette(id, { name }),
+        setPaletteTags: (id, tags) => updatePalette(id, { tags }),
+        duplicatePalette,
+        deletePalette,
+        setLastOpenedId,
+      }}
+    >
+      {children}
+    </PaletteLibraryContext.Provider>
+  );
+};
@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+import type { Palette } from "../lib/palette";
+import type { SavedPalette } from "../lib/palette-library";
+
+export interface PaletteLibraryContextType {
+  palettes: SavedPalette[];
+  lastOpenedId: string | null;
+  /** Saves a palette as a new entry, or over the entry with `id` (bumping its version) */
+  savePalette: (palette: Palette, id?: string | null) => SavedPalette;
+  renamePalette: (id: string, name: string) => void;
+  setPaletteTags: (id: string, tags: string[]) => void;
+  duplicatePalette: (id: string) => SavedPalette | undefined;
+  deletePalette: (id: string) => void;
+  /** Marks a palette as the one to restore on the next load */
+  setLastOpenedId: (id: string | null) => void;
+}
+
+export const PaletteLibraryContext = createContext<
+  PaletteLibraryContextType | undefined
+>(undefined);
+
+export const usePaletteLibrary = () => {
+  const context = useContext(PaletteLibraryContext);
+  if (context === undefined) {
+    throw new Error(
+      "usePaletteLibrary must be used within a PaletteLibraryProvider"
+    );
+  }
+  return context;
+};
@@ -0,0 +1,309 @@
+import chroma from 'chroma-js';
+import {
+  auditContrast,
+  calculateAccessibilityScore,
+  contrastAlgorithmLabels,
+  getContrastValue,
+  type ConformanceTarget,
+  type ContrastAlgorithm,
+  type ContrastResult,
+  type ContrastUsage,
+} from './audit';
+import { DEFAULT_COLOR_SPACE, type ColorSpace } from './color-space';
+import { analyzeHarmony, getOffSchemeColors, type HarmonyAnalysis } from './harmony';
+import {
+  generateAccessibilityImprovedColors,
+  generateImprovedPalette,
+  getRecommendedColors,
+} from './utils';
+
+/**
+ * Framework-free palette analysis. The analyzer component, the CLI and
+ * scripts all run the same `analyzePalette` and only differ in presentation.
+ */
+
+/**
+ * A pair of foreground/background palette indices to audit. `usage` overrides
+ * the analysis usage, so text and borders are held to different thresholds.
+ */
+export interface PairSpec {
+  foreground: number;
+  background: number;
+  usage?: ContrastUsage;
+}
+
+/**
+ * Which pairs count towards the audit: every ordered pair, every unordered
+ * pair once, or an explicit list of pairs (e.g. from role pairings).
+ */
+export type PairSelection = 'all' | 'unique' | PairSpec[];
+
+export interface AnalysisOptions {
+  algorithm?: ContrastAlgorithm;
+  target?: ConformanceTarget;
+  usage?: ContrastUsage;
+  pairs?: PairSelection;
+  /** Set to false to skip generating the improved palette suggestion */
+  includeImprovedPalette?: boolean;
+  /** Color space the improved palette is generated in */
+  colorSpace?: ColorSpace;
+}
+
+/**
+ * Contrast result of a palette pair, with the palette indices of both colors
+ * and the usage it was held to.
+ */
+export interface PaletteContrast extends ContrastResult {
+  foregroundIndex: number;
+  backgroundIndex: number;
+  usage: ContrastUsage;
+}
+
+export type RecommendationCode =
+  | 'failing-contrast'
+  | 'add-high-contrast'
+  | 'test-color-vision'
+  | 'harmony-clash'
+  | 'harmony-unsystematic'
+  | 'palette-too-small'
+  | 'palette-too-large'
+  | 'mostly-light'
+  | 'mostly-dark'
+  | 'all-saturated'
+  | 'excellent';
+
+export type RecommendationSeverity = 'error' | 'warning' | 'info' | 'success';
+
+export interface Recommendation {
+  code: RecommendationCode;
+  severity: RecommendationSeverity;
+  /** Palette colors the recommendation is about (empty when it applies to the whole palette) */
+  colors: string[];
+  /** Pairs the recommendation is about, for contrast recommendations */
+  pairs?: PaletteContrast[];
+}
+
+export interface AnalysisResult {
+  algorithm: ContrastAlgorithm;
+  target: ConformanceTarget;
+  usage: ContrastUsage;
+  /** Audited pairs, sorted by the active contrast metric (descending) */
+  contrastScores: PaletteContrast[];
+  harmonyScore: number;
+  /** Closest harmony scheme, per-color hue deviations and balance scores */
+  harmony: HarmonyAnalysis;
+  accessibilityScore: number;
+  overallScore: number;
+  recommendations: Recommendation[];
+  improvedPalette: string[];
+}
+
+const selectPairs = (size: number, selection: PairSelection): PairSpec[] => {
+  if (Array.isArray(selection)) {
+    return selection.filter(
+      ({ foreground, background }) =>
+        foreground !== background &&
+        foreground >= 0 &&
+        background >= 0 &&
+        foreground < size &&
+        background < size
+    );
+  }
+
+  const pairs: PairSpec[] = [];
+  for (let i = 0; i < size; i++) {
+    for (let j = selection === 'unique' ? i + 1 : 0; j < size; j++) {
+      if (i === j) continue; // Don't compare a color with itself
+      pairs.push({ foreground: i, background: j });
+    }
+  }
+  return pairs;
+};
+
+const safeLuminance = (color: string): number | null => {
+  try {
+    return chroma(color).luminance();
+  } catch {
+    return null;
+  }
+};
+
+const safeSaturation = (color: string): number => {
+  try {
+    return chroma(color).hsl()[1] || 0;
+  } catch {
+    return 0;
+  }
+};
+
+const collectRecommendations = (
+  palette: string[],
+  contrastScores: PaletteContrast[],
+  accessibilityScore: number,
+  harmony: HarmonyAnalysis
+): Recommendation[] => {
+  const recommendations: Recommendation[] = [];
+  const harmonyScore = harmony.score;
+
+  // Accessibility-specific recommendations
+  if (accessibilityScore < 60) {
+    const failing = contrastScores.filter((score) => !score.passes);
+    if (failing.length > 0) {
+      recommendations.push({
+        code: 'failing-contrast',
+        severity: 'error',
+        colors: [...new Set(failing.flatMap((pair) => [pair.foregroundColor, pair.backgroundColor]))],
+        pairs: failing,
+      });
+    }
+    recommendations.push({ code: 'add-high-contrast', severity: 'warning', colors: [] });
+  } else if (accessibilityScore < 80) {
+    recommendations.push({ code: 'test-color-vision', severity: 'info', colors: [] });
+  }
+
+  // Harmony-specific recommendations, pointing at the colors off the closest scheme
+  if (harmonyScore < 50) {
+    recommendations.push({ code: 'harmony-clash', severity: 'warning', colors: getOffSchemeColors(harmony) });
+  } else if (harmonyScore < 70) {
+    recommendations.push({ code: 'harmony-unsystematic', severity: 'info', colors: getOffSchemeColors(harmony) });
+  }
+
+  // Palette size recommendations
+  if (palette.length < 3) {
+    recommendations.push({ code: 'palette-too-small', severity: 'info', colors: [] });
+  } else if (palette.length > 8) {
+    recommendations.push({ code: 'palette-too-large', severity: 'info', colors: [] });
+  }
+
+  // Specific color analysis
+  const veryLightColors = palette.filter((color) => (safeLuminance(color) ?? 0) > 0.8);
+  const veryDarkColors = palette.filter((color) => (safeLuminance(color) ?? 1) < 0.2);
+
+  if (veryLightColors.length > palette.length * 0.6) {
+    recommendations.push({ code: 'mostly-light', severity: 'warning', colors: veryLightColors });
+  }
+  if (veryDarkColors.length > palette.length * 0.6) {
+    recommendations.push({ code: 'mostly-dark', severity: 'warning', colors: veryDarkColors });
+  }
+
+  // Saturation analysis
+  const highSatColors = palette.filter((color) => safeSaturation(color) > 0.8);
+  if (highSatColors.length === palette.length && palette.length > 2) {
+    recommendations.push({ code: 'all-saturated', severity: 'info', colors: highSatColors });
+  }
+
+  // Success message if everything looks good
+  if (accessibilityScore >= 80 && harmonyScore >= 70 && palette.length >= 3 && palette.length <= 7) {
+    recommendations.push({ code: 'excellent', severity: 'success', colors: [] });
+  }
+
+  return recommendations;
+};
+
+// Generates an improved palette suggestion based on the current scores
+const suggestImprovedPalette = (
+  palette: string[],
+  accessibilityScore: number,
+  harmonyScore: number,
+  space: ColorSpace
+): string[] => {
+  if (palette.length === 0) return [];
+
+  // Focus on accessibility improvements, otherwise use general improvements
+  let improvedPalette =
+    accessibilityScore < 60
+      ? generateAccessibilityImprovedColors(palette).slice(0, 6)
+      : generateImprovedPalette(palette, accessibilityScore, harmonyScore, space);
+
+  // If we don't have enough suggestions, fallback to basic recommendations
+  if (improvedPalette.length < 3) {
+    const basicSuggestions = getRecommendedColors(palette[0], space);
+    improvedPalette = [...new Set([...improvedPalette, ...basicSuggestions])].slice(0, 6);
+  }
+
+  return improvedPalette;
+};
+
+/**
+ * Analyzes a palette: contrast of the selected pairs, harmony, scores,
+ * recommendations and an improved palette suggestion. Pure and deterministic.
+ * @param palette - The palette colors in any CSS format chroma understands.
+ * @param options - Algorithm, conformance target, usage and pair selection.
+ */
+export const analyzePalette = (palette: string[], options: AnalysisOptions = {}): AnalysisResult => {
+  const {
+    algorithm = 'wcag',
+    target = 'AA',
+    usage = 'normal-text',
+    pairs = 'all',
+    includeImprovedPalette = true,
+    colorSpace = DEFAULT_COLOR_SPACE,
+  } = options;
+
+  const contrastScores: PaletteContrast[] = selectPairs(palette.length, pairs).map(
+    ({ foreground, background, usage: pairUsage = usage }) => ({
+      ...auditContrast(palette[foreground], palette[background], { algorithm, usage: pairUsage, target }),
+      foregroundIndex: foreground,
+      backgroundIndex: background,
+      usage: pairUsage,
+    })
+  );
+
+  // Sort by the active contrast metric (descending)
+  contrastScores.sort(
+    (a, b) => Math.abs(getContrastValue(b, algorithm)) - Math.abs(getContrastValue(a, algorithm))
+  );
+
+  const harmony = analyzeHarmony(palette);
+  const harmonyScore = harmony.score;
+  const accessibilityScore = calculateAccessibilityScore(contrastScores);
+  const overallScore = Math.round((harmonyScore + accessibilityScore) / 2);
+
+  return {
+    algorithm,
+    target,
+    usage,
+    contrastScores,
+    harmonyScore,
+    harmony,
+    accessibilityScore,
+    overallScore,
+    recommendations: collectRecommendations(palette, contrastScores, accessibilityScore, harmony),
+    improvedPalette: includeImprovedPalette
+      ? suggestImprovedPalette(palette, accessibilityScore, harmonyScore, colorSpace)
+      : [],
+  };
+};
+
+/**
+ * Describes a recommendation in English for display.
+ */
+export const describeRecommendation = (
+  recommendation: Recommendation,
+  algorithm: ContrastAlgorithm = 'wcag'
+): string => {
+  switch (recommendation.code) {
+    case 'failing-contrast':
+      return `${recommendation.pairs?.length ?? 0} color combinations fail ${contrastAlgorithmLabels[algorithm]} standards - consider darkening or lightening some colors`;
+    case 'add-high-contrast':
+      return 'Add high-contrast colors (very light or very dark) to improve readability';
+    case 'test-color-vision':
+      return 'Good accessibility! Consider testing with color vision simulators for complete coverage';
+    case 'harmony-clash':
+      return 'Colors appear to clash - try using complementary, analogous, or triadic color relationships';
+    case 'harmony-unsystematic':
+      return 'Color harmony can be improved by using more systematic color relationships';
+    case 'palette-too-small':
+      return 'Consider adding 2-3 more colors for a more versatile palette';
+    case 'palette-too-large':
+      return 'Large palettes can be overwhelming - consider focusing on 5-7 core colors';
+    case 'mostly-light':
+      return 'Palette is mostly light colors - add some darker shades for better contrast';
+    case 'mostly-dark':
+      return 'Palette is mostly dark colors - add some lighter tones for better balance';
+    case 'all-saturated':
+      return 'All colors are highly saturated - consider adding some muted tones for balance';
+    case 'excellent':
+      return 'Excellent palette! Well-balanced colors with good accessibility and harmony';
+  }
+};
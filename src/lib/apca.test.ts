@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getAPCAContrast, getAPCALevel, getAPCAPolarity } from './apca';
+
+// Reference values from the APCA-W3 0.0.98G-4g test suite
+const REFERENCE_PAIRS: [string, string, number][] = [
+  ['#888888', '#ffffff', 63.056469930209424],
+  ['#ffffff', '#888888', -68.54146436644962],
+  ['#000000', '#aaaaaa', 58.146262578561334],
+  ['#aaaaaa', '#000000', -56.24113336839742],
+  ['#112233', '#ddeeff', 91.66830811481631],
+  ['#ddeeff', '#112233', -93.06770049484275],
+  ['#112233', '#444444', 8.32326136957393],
+  ['#444444', '#112233', -7.526878460278154],
+];
+
+describe('getAPCAContrast', () => {
+  it.each(REFERENCE_PAIRS)('gives %s on %s the published Lc', (text, background, lc) => {
+    expect(getAPCAContrast(text, background)).toBeCloseTo(lc, 3);
+  });
+
+  it('is zero for identical colors', () => {
+    expect(getAPCAContrast('#777777', '#777777')).toBe(0);
+  });
+
+  it('is positive for dark text and negative for light text', () => {
+    expect(getAPCAPolarity(getAPCAContrast('#000000', '#ffffff'))).toBe('dark-on-light');
+    expect(getAPCAPolarity(getAPCAContrast('#ffffff', '#000000'))).toBe('light-on-dark');
+  });
+});
+
+describe('getAPCALevel', () => {
+  it('grades by the magnitude of Lc', () => {
+    expect(getAPCALevel(92)).toBe('Preferred');
+    expect(getAPCALevel(-92)).toBe('Preferred');
+    expect(getAPCALevel(10)).toBe('Fail');
+  });
+});
@@ -0,0 +1,159 @@
+import chroma from 'chroma-js';
+
+/**
+ * APCA (Accessible Perceptual Contrast Algorithm), the contrast method proposed
+ * for WCAG 3. Implements APCA-W3 0.0.98G-4g with its published constants.
+ *
+ * Unlike the WCAG 2.x ratio, APCA is polarity aware: the result is positive for
+ * dark text on a light background and negative for light text on a dark
+ * background, and swapping text and background does not give the same magnitude.
+ */
+
+const MAIN_TRC = 2.4;
+const R_COEFF = 0.2126729;
+const G_COEFF = 0.7151522;
+const B_COEFF = 0.072175;
+
+const NORM_BG = 0.56;
+const NORM_TXT = 0.57;
+const REV_TXT = 0.62;
+const REV_BG = 0.65;
+
+const BLACK_THRESHOLD = 0.022;
+const BLACK_CLAMP = 1.414;
+const SCALE_BOW = 1.14;
+const SCALE_WOB = 1.14;
+const LO_BOW_OFFSET = 0.027;
+const LO_WOB_OFFSET = 0.027;
+const DELTA_Y_MIN = 0.0005;
+const LO_CLIP = 0.1;
+
+/**
+ * Which way round a text/background pair is.
+ */
+export type APCAPolarity = 'dark-on-light' | 'light-on-dark';
+
+/**
+ * APCA conformance buckets, from preferred body text down to failing.
+ */
+export type APCALevel = 'Preferred' | 'Body' | 'Content' | 'Large' | 'Fail';
+
+/**
+ * Minimum |Lc| for each APCA level.
+ */
+export const APCA_LEVEL_THRESHOLDS: Record<Exclude<APCALevel, 'Fail'>, number> = {
+  Preferred: 90,
+  Body: 75,
+  Content: 60,
+  Large: 45,
+};
+
+/**
+ * Estimated screen luminance (Y) of a color, using APCA's simple exponent.
+ */
+export const getAPCALuminance = (color: string): number => {
+  const [r, g, b] = chroma(color).rgb();
+  return (
+    R_COEFF * Math.pow(r / 255, MAIN_TRC) +
+    G_COEFF * Math.pow(g / 255, MAIN_TRC) +
+    B_COEFF * Math.pow(b / 255, MAIN_TRC)
+  );
+};
+
+// Soft clamp near black to account for flare
+const clampBlack = (y: number): number =>
+  y > BLACK_THRESHOLD ? y : y + Math.pow(BLACK_THRESHOLD - y, BLACK_CLAMP);
+
+/**
+ * Calculates the APCA lightness contrast (Lc) of text on a background.
+ * @param textColor - The text (foreground) color.
+ * @param backgroundColor - The background color.
+ * @returns Signed Lc, roughly -108 to 106. Positive for dark-on-light.
+ */
+export const getAPCAContrast = (textColor: string, backgroundColor: string): number => {
+  const textY = clampBlack(getAPCALuminance(textColor));
+  const backgroundY = clampBlack(getAPCALuminance(backgroundColor));
+
+  if (Math.abs(backgroundY - textY) < DELTA_Y_MIN) return 0;
+
+  if (backgroundY > textY) {
+    const sapc = (Math.pow(backgroundY, NORM_BG) - Math.pow(textY, NORM_TXT)) * SCALE_BOW;
+    return sapc < LO_CLIP ? 0 : (sapc - LO_BOW_OFFSET) * 100;
+  }
+
+  const sapc = (Math.pow(backgroundY, REV_BG) - Math.pow(textY, REV_TXT)) * SCALE_WOB;
+  return sapc > -LO_CLIP ? 0 : (sapc + LO_WOB_OFFSET) * 100;
+};
+
+/**
+ * Gets the polarity of an Lc value.
+ */
+export const getAPCAPolarity = (lc: number): APCAPolarity =>
+  lc >= 0 ? 'dark-on-light' : 'light-on-dark';
+
+/**
+ * Gets the APCA level for an Lc value. Polarity does not affect the level.
+ */
+export const getAPCALevel = (lc: number): APCALevel => {
+  const magnitude = Math.abs(lc);
+  if (magnitude >= APCA_LEVEL_THRESHOLDS.Preferred) return 'Preferred';
+  if (magnitude >= APCA_LEVEL_THRESHOLDS.Body) return 'Body';
+  if (magnitude >= APCA_LEVEL_THRESHOLDS.Content) return 'Content';
+  if (magnitude >= APCA_LEVEL_THRESHOLDS.Large) return 'Large';
+  return 'Fail';
+};
+
+/**
+ * Font weights covered by the lookup table.
+ */
+export const APCA_FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+/**
+ * Minimum |Lc| per font size (px) and weight (100-900), based on the APCA
+ * 0.98G-4g font lookup table. `null` means the size/weight is not recommended
+ * for text at any contrast.
+ */
+export const APCA_FONT_LOOKUP: { size: number; lc: (number | null)[] }[] = [
+  { size: 12, lc: [null, null, null, null, null, 100, 90, null, null] },
+  { size: 14, lc: [null, null, null, 100, 100, 90, 75, null, null] },
+  { size: 16, lc: [null, null, null, 90, 75, 70, 60, 60, null] },
+  { size: 18, lc: [null, null, 100, 75, 70, 60, 55, 55, 55] },
+  { size: 24, lc: [null, 100, 75, 60, 55, 50, 45, 45, 45] },
+  { size: 30, lc: [null, 90, 70, 55, 50, 45, 40, 40, 40] },
+  { size: 36, lc: [100, 75, 60, 45, 43, 40, 38, 38, 38] },
+  { size: 48, lc: [90, 60, 55, 43, 40, 38, 35, 35, 35] },
+  { size: 60, lc: [75, 55, 50, 40, 38, 35, 33, 33, 33] },
+  { size: 72, lc: [60, 50, 45, 38, 35, 33, 30, 30, 30] },
+  { size: 96, lc: [50, 45, 40, 35, 33, 30, 30, 30, 30] },
+];
+
+const weightIndex = (fontWeight: number): number => {
+  const rounded = Math.round(fontWeight / 100) * 100;
+  return Math.max(0, Math.min(APCA_FONT_WEIGHTS.length - 1, rounded / 100 - 1));
+};
+
+/**
+ * Gets the minimum |Lc| required for text of a given size and weight.
+ * @param fontSize - Font size in CSS pixels.
+ * @param fontWeight - Font weight (100-900).
+ * @returns The required Lc, or null when the text is too small/thin to be used.
+ */
+export const getAPCARequiredContrast = (fontSize: number, fontWeight: number = 400): number | null => {
+  const row = [...APCA_FONT_LOOKUP].reverse().find((entry) => fontSize >= entry.size);
+  if (!row) return null;
+  return row.lc[weightIndex(fontWeight)];
+};
+
+/**
+ * Gets the smallest font size (px) that an Lc value supports at a given weight.
+ * @returns The font size, or null when no size in the table passes.
+ */
+export const getAPCAMinimumFontSize = (lc: number, fontWeight: number = 400): number | null => {
+  const magnitude = Math.abs(lc);
+  const index = weightIndex(fontWeight);
+  const row = APCA_FONT_LOOKUP.find((entry) => {
+    const required = entry.lc[index];
+    return required !== null && magnitude >= required;
+  });
+  return row ? row.size : null;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { aseToPalette, decodeAse, encodeAse, palettesToAse, type AseDocument } from './ase';
+
+describe('ASE encoding', () => {
+  it('decodes what it encodes', () => {
+    const document: AseDocument = {
+      swatches: [{ name: 'Loose', model: 'Gray', values: [0.5], type: 'global' }],
+      groups: [
+        {
+          name: 'Brand – ünïcode',
+          swatches: [
+            { name: 'Primary', model: 'RGB', values: [0.25, 0.5, 1], type: 'global' },
+            { name: 'Print', model: 'CMYK', values: [0, 0.5, 1, 0.1], type: 'spot' },
+            { name: 'Lab', model: 'LAB', values: [0.6, 20, -40], type: 'process' },
+          ],
+        },
+      ],
+    };
+
+    const decoded = decodeAse(encodeAse(document));
+
+    expect(decoded.groups.map(({ name }) => name)).toEqual(['Brand – ünïcode']);
+    const swatches = [...decoded.swatches, ...decoded.groups[0].swatches];
+    const expected = [...document.swatches, ...document.groups[0].swatches];
+    expect(swatches.map(({ name, model, type }) => ({ name, model, type }))).toEqual(
+      expected.map(({ name, model, type }) => ({ name, model, type }))
+    );
+    swatches.forEach((swatch, index) => {
+      swatch.values.forEach((value, channel) => {
+        // Values are stored as 32-bit floats
+        expect(value).toBeCloseTo(expected[index].values[channel], 5);
+      });
+    });
+  });
+
+  it('round-trips named palettes as hex colors', () => {
+    const colors = [
+      { name: 'primary', color: '#1e3a8a' },
+      { name: 'accent', color: '#f59e0b' },
+    ];
+    expect(aseToPalette(palettesToAse([{ name: 'light', colors }]))).toEqual(
+      colors.map((color) => ({ ...color, group: 'light' }))
+    );
+  });
+
+  it('rejects data that is not an ASE file', () => {
+    expect(() => decodeAse(new TextEncoder().encode('not a swatch file').buffer)).toThrow();
+  });
+});
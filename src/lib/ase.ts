@@ -0,0 +1,358 @@
+import chroma from 'chroma-js';
+import type { NamedColor } from './palette-parsers';
+
+/**
+ * Adobe Swatch Exchange (.ase) encoding and decoding.
+ *
+ * File layout (all values big-endian):
+ *   "ASEF" signature, uint16 major version (1), uint16 minor version (0),
+ *   uint32 block count, followed by the blocks. Every block is a uint16 type,
+ *   a uint32 byte length and the block payload.
+ */
+
+const SIGNATURE = 'ASEF';
+const BLOCK_COLOR = 0x0001;
+const BLOCK_GROUP_START = 0xc001;
+const BLOCK_GROUP_END = 0xc002;
+
+/**
+ * Color models supported by the ASE format.
+ */
+export type AseColorModel = 'RGB' | 'CMYK' | 'Gray' | 'LAB';
+
+/**
+ * Swatch kinds, in the order Adobe stores them (0 = global, 1 = spot, 2 = process).
+ */
+export type AseColorType = 'global' | 'spot' | 'process';
+
+export interface AseSwatch {
+  name: string;
+  model: AseColorModel;
+  /**
+   * Channel values as stored in the file: 0-1 for RGB, CMYK and Gray,
+   * L in 0-1 and a/b in -128..127 for LAB.
+   */
+  values: number[];
+  type: AseColorType;
+}
+
+export interface AseGroup {
+  name: string;
+  swatches: AseSwatch[];
+}
+
+export interface AseDocument {
+  /** Swatches that are not part of any group */
+  swatches: AseSwatch[];
+  groups: AseGroup[];
+}
+
+const MODEL_CODES: Record<AseColorModel, string> = {
+  RGB: 'RGB ',
+  CMYK: 'CMYK',
+  Gray: 'Gray',
+  LAB: 'LAB ',
+};
+
+const MODEL_CHANNELS: Record<AseColorModel, number> = {
+  RGB: 3,
+  CMYK: 4,
+  Gray: 1,
+  LAB: 3,
+};
+
+const COLOR_TYPES: AseColorType[] = ['global', 'spot', 'process'];
+
+// Names are stored as a uint16 length (in UTF-16 code units, including the
+// null terminator) followed by the UTF-16BE code units.
+const nameByteLength = (name: string): number => 2 + (name.length + 1) * 2;
+
+const colorBlockLength = (swatch: AseSwatch): number =>
+  nameByteLength(swatch.name) + 4 + MODEL_CHANNELS[swatch.model] * 4 + 2;
+
+const createWriter = (size: number) => {
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+
+  const uint16 = (value: number) => {
+    view.setUint16(offset, value);
+    offset += 2;
+  };
+
+  return {
+    buffer: view.buffer as ArrayBuffer,
+    uint16,
+    uint32: (value: number) => {
+      view.setUint32(offset, value);
+      offset += 4;
+    },
+    float32: (value: number) => {
+      view.setFloat32(offset, value);
+      offset += 4;
+    },
+    ascii: (value: string) => {
+      for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset++, value.charCodeAt(i));
+      }
+    },
+    name: (value: string) => {
+      uint16(value.length + 1);
+      for (let i = 0; i < value.length; i++) {
+        uint16(value.charCodeAt(i));
+      }
+      uint16(0);
+    },
+  };
+};
+
+type AseWriter = ReturnType<typeof createWriter>;
+
+const createReader = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const ensure = (bytes: number) => {
+    if (offset + bytes > view.byteLength) {
+      throw new Error('Invalid ASE file: unexpected end of data');
+    }
+  };
+
+  const uint16 = (): number => {
+    ensure(2);
+    const value = view.getUint16(offset);
+    offset += 2;
+    return value;
+  };
+
+  return {
+    getOffset: () => offset,
+    seek: (position: number) => {
+      offset = position;
+    },
+    uint16,
+    uint32: (): number => {
+      ensure(4);
+      const value = view.getUint32(offset);
+      offset += 4;
+      return value;
+    },
+    float32: (): number => {
+      ensure(4);
+      const value = view.getFloat32(offset);
+      offset += 4;
+      return value;
+    },
+    ascii: (length: number): string => {
+      ensure(length);
+      let value = '';
+      for (let i = 0; i < length; i++) {
+        value += String.fromCharCode(view.getUint8(offset++));
+      }
+      return value;
+    },
+    name: (): string => {
+      const length = uint16();
+      let value = '';
+      for (let i = 0; i < length; i++) {
+        const code = uint16();
+        if (code !== 0) value += String.fromCharCode(code);
+      }
+      return value;
+    },
+  };
+};
+
+const writeSwatch = (writer: AseWriter, swatch: AseSwatch) => {
+  const channels = MODEL_CHANNELS[swatch.model];
+  if (swatch.values.length !== channels) {
+    throw new Error(
+      `ASE swatch "${swatch.name}" needs ${channels} ${swatch.model} values, got ${swatch.values.length}`
+    );
+  }
+
+  writer.uint16(BLOCK_COLOR);
+  writer.uint32(colorBlockLength(swatch));
+  writer.name(swatch.name);
+  writer.ascii(MODEL_CODES[swatch.model]);
+  swatch.values.forEach((value) => writer.float32(value));
+  writer.uint16(COLOR_TYPES.indexOf(swatch.type));
+};
+
+/**
+ * Encodes a swatch document into a binary ASE file.
+ */
+export const encodeAse = (document: AseDocument): ArrayBuffer => {
+  let size = 12;
+  let blockCount = document.swatches.length;
+
+  document.swatches.forEach((swatch) => {
+    size += 6 + colorBlockLength(swatch);
+  });
+  document.groups.forEach((group) => {
+    size += 6 + nameByteLength(group.name) + 6;
+    blockCount += 2 + group.swatches.length;
+    group.swatches.forEach((swatch) => {
+      size += 6 + colorBlockLength(swatch);
+    });
+  });
+
+  const writer = createWriter(size);
+  writer.ascii(SIGNATURE);
+  writer.uint16(1);
+  writer.uint16(0);
+  writer.uint32(blockCount);
+
+  document.swatches.forEach((swatch) => writeSwatch(writer, swatch));
+  document.groups.forEach((group) => {
+    writer.uint16(BLOCK_GROUP_START);
+    writer.uint32(nameByteLength(group.name));
+    writer.name(group.name);
+    group.swatches.forEach((swatch) => writeSwatch(writer, swatch));
+    writer.uint16(BLOCK_GROUP_END);
+    writer.uint32(0);
+  });
+
+  return writer.buffer;
+};
+
+/**
+ * Decodes a binary ASE file. Throws if the data is not a valid ASE file.
+ */
+export const decodeAse = (buffer: ArrayBuffer): AseDocument => {
+  const reader = createReader(buffer);
+  const document: AseDocument = { swatches: [], groups: [] };
+
+  if (reader.ascii(4) !== SIGNATURE) {
+    throw new Error('Invalid ASE file: missing ASEF signature');
+  }
+  reader.uint16(); // major version
+  reader.uint16(); // minor version
+  const blockCount = reader.uint32();
+
+  let currentGroup: AseGroup | null = null;
+
+  for (let i = 0; i < blockCount; i++) {
+    const blockType = reader.uint16();
+    const blockLength = reader.uint32();
+    const blockEnd = reader.getOffset() + blockLength;
+
+    switch (blockType) {
+      case BLOCK_GROUP_START:
+        currentGroup = { name: reader.name(), swatches: [] };
+        document.groups.push(currentGroup);
+        break;
+      case BLOCK_GROUP_END:
+        currentGroup = null;
+        break;
+      case BLOCK_COLOR: {
+        const name = reader.name();
+        const code = reader.ascii(4);
+        const model = (Object.keys(MODEL_CODES) as AseColorModel[]).find(
+          (key) => MODEL_CODES[key] === code
+        );
+        if (!model) {
+          throw new Error(`Invalid ASE file: unknown color model "${code}"`);
+        }
+        const values: number[] = [];
+        for (let c = 0; c < MODEL_CHANNELS[model]; c++) {
+          values.push(reader.float32());
+        }
+        const type = COLOR_TYPES[reader.uint16()] ?? 'global';
+        const swatch: AseSwatch = { name, model, values, type };
+        if (currentGroup) {
+          currentGroup.swatches.push(swatch);
+        } else {
+          document.swatches.push(swatch);
+        }
+        break;
+      }
+      default:
+        // Unknown block types are skipped using their declared length
+        break;
+    }
+
+    reader.seek(blockEnd);
+  }
+
+  return document;
+};
+
+/**
+ * Creates an ASE swatch from a CSS color in the requested color model.
+ */
+export const colorToAseSwatch = (
+  color: string,
+  name: string,
+  model: AseColorModel = 'RGB',
+  type: AseColorType = 'global'
+): AseSwatch => {
+  const chromaColor = chroma(color);
+  let values: number[];
+
+  switch (model) {
+    case 'CMYK':
+      values = chromaColor.cmyk();
+      break;
+    case 'Gray':
+      values = [chromaColor.get('lab.l') / 100];
+      break;
+    case 'LAB': {
+      const [l, a, b] = chromaColor.lab();
+      values = [l / 100, a, b];
+      break;
+    }
+    default:
+      values = chromaColor.rgb(false).map((channel) => channel / 255);
+  }
+
+  return { name, model, values, type };
+};
+
+/**
+ * Converts an ASE swatch back into a hex color.
+ */
+export const aseSwatchToHex = (swatch: AseSwatch): string => {
+  const { values } = swatch;
+
+  switch (swatch.model) {
+    case 'CMYK':
+      return chroma.cmyk(values[0], values[1], values[2], values[3]).hex();
+    case 'Gray':
+      return chroma.lab(values[0] * 100, 0, 0).hex();
+    case 'LAB':
+      return chroma.lab(values[0] * 100, values[1], values[2]).hex();
+    default:
+      return chroma.rgb(values[0] * 255, values[1] * 255, values[2] * 255).hex();
+  }
+};
+
+/**
+ * Encodes named palettes into an ASE file, one group per palette.
+ */
+export const palettesToAse = (
+  palettes: { name: string; colors: NamedColor[] }[],
+  model: AseColorModel = 'RGB',
+  type: AseColorType = 'global'
+): ArrayBuffer => {
+  return encodeAse({
+    swatches: [],
+    groups: palettes.map(({ name, colors }) => ({
+      name,
+      swatches: colors.map((color) => colorToAseSwatch(color.color, color.name, model, type)),
+    })),
+  });
+};
+
+/**
+ * Reads every swatch of an ASE file (grouped or not) as named hex colors.
+ * Grouped swatches keep their group name.
+ */
+export const aseToPalette = (buffer: ArrayBuffer): NamedColor[] => {
+  const document = decodeAse(buffer);
+  return [
+    ...document.swatches.map((swatch) => ({ name: swatch.name, color: aseSwatchToHex(swatch) })),
+    ...document.groups.flatMap((group) =>
+      group.swatches.map((swatch) => ({ name: swatch.name, color: aseSwatchToHex(swatch), group: group.name }))
+    ),
+  ];
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { auditContrast, compositeColor, isTranslucent } from './audit';
+
+describe('auditContrast', () => {
+  it('audits opaque pairs as they are', () => {
+    const result = auditContrast('#000000', '#ffffff');
+    expect(result.ratio).toBeCloseTo(21, 5);
+    expect(result.passes).toBe(true);
+    expect(result.composited).toEqual({ foreground: '#000000', background: '#ffffff' });
+    expect(result.range.min).toBe(result.range.max);
+  });
+
+  it('composites translucent text over its background', () => {
+    const result = auditContrast('#00000080', '#ffffff');
+    expect(result.composited).toEqual({ foreground: '#808080', background: '#ffffff' });
+    expect(result.ratio).toBeCloseTo(3.95, 2);
+    expect(result.conformance).toEqual({ 'normal-text': 'Fail', 'large-text': 'AA', 'ui-component': 'AAA' });
+    expect(result.passes).toBe(false);
+  });
+
+  it('judges translucent backgrounds by the backdrop they render worst on', () => {
+    // Half-transparent black is mid gray over white and black over black
+    const result = auditContrast('#ffffff', 'rgba(0, 0, 0, 0.5)');
+    expect(result.composited).toEqual({ foreground: '#ffffff', background: '#808080' });
+    expect(result.range.min).toBeCloseTo(3.95, 2);
+    expect(result.range.max).toBeCloseTo(21, 5);
+    expect(result.passes).toBe(false);
+    expect(result.passes).toBe(auditContrast('#ffffff', '#808080').passes);
+  });
+
+  it('uses the worst backdrop under APCA too', () => {
+    const result = auditContrast('#ffffff', '#00000080', { algorithm: 'apca', usage: 'large-text' });
+    expect(result.composited.background).toBe('#808080');
+    expect(Math.abs(result.lc)).toBeCloseTo(Math.abs(auditContrast('#ffffff', '#808080').lc), 5);
+  });
+});
+
+describe('compositeColor', () => {
+  it('blends a translucent color over an opaque one', () => {
+    expect(compositeColor('#ff000080', '#0000ff')).toBe('#800080');
+    expect(isTranslucent(compositeColor('#ff000080', '#0000ff'))).toBe(false);
+  });
+
+  it('stays translucent when both colors are', () => {
+    expect(isTranslucent(compositeColor('#ff000080', '#0000ff80'))).toBe(true);
+  });
+});
@@ -0,0 +1,320 @@
+import chroma from 'chroma-js';
+import { getAPCAContrast, getAPCALevel, APCA_LEVEL_THRESHOLDS, type APCALevel } from './apca';
+
+/**
+ * Audit core: the single source of contrast ratios, conformance levels and
+ * scores. Every component and generator checks contrast through this module so
+ * the same pair always gets the same verdict.
+ */
+
+/**
+ * Contrast algorithms available for auditing: WCAG 2.1 ratios or APCA (WCAG 3 draft) Lc.
+ */
+export type ContrastAlgorithm = 'wcag' | 'apca';
+
+export const contrastAlgorithmLabels: Record<ContrastAlgorithm, string> = {
+  wcag: 'WCAG 2.1',
+  apca: 'APCA',
+};
+
+/**
+ * What a contrast pair is used for. UI components covers WCAG 1.4.11
+ * non-text contrast (borders, icons, focus indicators).
+ */
+export type ContrastUsage = 'normal-text' | 'large-text' | 'ui-component';
+
+export const contrastUsageLabels: Record<ContrastUsage, string> = {
+  'normal-text': 'Normal text',
+  'large-text': 'Large text',
+  'ui-component': 'UI components',
+};
+
+/**
+ * Conformance targets a pair can be audited against.
+ */
+export type ConformanceTarget = 'AA' | 'AAA';
+
+/**
+ * Defines WCAG 2.1 accessibility levels for text contrast.
+ */
+export type WCAGLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+/**
+ * Level reported for a pair: a WCAG level or an APCA level, depending on the algorithm.
+ */
+export type ContrastLevel = WCAGLevel | APCALevel;
+
+/**
+ * Minimum contrast per algorithm, usage and target. WCAG values are ratios,
+ * APCA values are |Lc|. WCAG 1.4.11 has no AAA level, so UI components use
+ * 3:1 for both targets.
+ */
+export const CONFORMANCE_THRESHOLDS: Record<
+  ContrastAlgorithm,
+  Record<ContrastUsage, Record<ConformanceTarget, number>>
+> = {
+  wcag: {
+    'normal-text': { AA: 4.5, AAA: 7 },
+    'large-text': { AA: 3, AAA: 4.5 },
+    'ui-component': { AA: 3, AAA: 3 },
+  },
+  apca: {
+    'normal-text': { AA: APCA_LEVEL_THRESHOLDS.Content, AAA: APCA_LEVEL_THRESHOLDS.Body },
+    'large-text': { AA: APCA_LEVEL_THRESHOLDS.Large, AAA: APCA_LEVEL_THRESHOLDS.Content },
+    'ui-component': { AA: 30, AAA: APCA_LEVEL_THRESHOLDS.Large },
+  },
+};
+
+/**
+ * Composites a translucent color over another, as a browser paints it (source
+ * over, in sRGB). The result is only translucent when both colors are.
+ */
+export const compositeColor = (foreground: string, background: string): string => {
+  const [r, g, b, alpha] = chroma(foreground).rgba();
+  const [backgroundR, backgroundG, backgroundB, backgroundAlpha] = chroma(background).rgba();
+  const outAlpha = alpha + backgroundAlpha * (1 - alpha);
+  if (outAlpha === 0) return chroma.rgb(0, 0, 0, 0).hex();
+
+  const blend = (channel: number, backgroundChannel: number) =>
+    (channel * alpha + backgroundChannel * backgroundAlpha * (1 - alpha)) / outAlpha;
+  return chroma
+    .rgb(blend(r, backgroundR), blend(g, backgroundG), blend(b, backgroundB))
+    .alpha(outAlpha)
+    .hex();
+};
+
+/**
+ * True for colors with an alpha below 1. Unparseable colors count as opaque.
+ */
+export const isTranslucent = (color: string): boolean => {
+  try {
+    return chroma(color).alpha() < 1;
+  } catch {
+    return false;
+  }
+};
+
+// Page colors a translucent background can sit on; the real one is unknown,
+// so pairs are evaluated over both and the worst case counts
+const BACKDROPS = ['#ffffff', '#000000'];
+
+// The opaque pairs a foreground/background pair can render as: the foreground
+// composited over the background, which is itself composited over white and
+// over black when translucent. Unparseable colors are returned as they are.
+const getRenderedPairs = (foreground: string, background: string): [string, string][] => {
+  try {
+    const backgrounds = isTranslucent(background)
+      ? BACKDROPS.map((backdrop) => compositeColor(background, backdrop))
+      : [chroma(background).hex()];
+    return backgrounds.map((opaque) => [compositeColor(foreground, opaque), opaque]);
+  } catch {
+    return [[foreground, background]];
+  }
+};
+
+// Contrast of the pair that renders worst, by magnitude
+const getWorstContrast = (
+  foreground: string,
+  background: string,
+  contrast: (foreground: string, background: string) => number
+): number =>
+  getRenderedPairs(foreground, background)
+    .map(([renderedForeground, renderedBackground]) => contrast(renderedForeground, renderedBackground))
+    .reduce((worst, value) => (Math.abs(value) < Math.abs(worst) ? value : worst));
+
+/**
+ * Calculates the WCAG 2.x contrast ratio between two colors. Unparseable
+ * colors give a ratio of 1 so they are reported as failing. A translucent
+ * first color is composited over the second; a translucent second color is
+ * composited over white and black, and the lower ratio is returned.
+ * @param color1 - The first color in any CSS format chroma understands.
+ * @param color2 - The second color.
+ * @returns The contrast ratio, from 1 to 21.
+ */
+export const getContrastRatio = (color1: string, color2: string): number => {
+  try {
+    return getWorstContrast(color1, color2, chroma.contrast);
+  } catch {
+    return 1;
+  }
+};
+
+/**
+ * Calculates the APCA Lc of text on a background, compositing translucent
+ * colors like `getContrastRatio`. Unparseable colors give 0.
+ */
+export const getLightnessContrast = (textColor: string, backgroundColor: string): number => {
+  try {
+    return getWorstContrast(textColor, backgroundColor, getAPCAContrast);
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Gets the WCAG 2.1 accessibility level for a given contrast ratio.
+ * @param ratio - The contrast ratio.
+ * @returns The WCAG level.
+ */
+export const getWCAGLevel = (ratio: number): WCAGLevel => {
+  if (ratio >= 7) return 'AAA';
+  if (ratio >= 4.5) return 'AA';
+  if (ratio >= 3) return 'AA Large';
+  return 'Fail';
+};
+
+/**
+ * Checks a contrast value (ratio or |Lc|) against a usage and target.
+ */
+export const meetsConformance = (
+  value: number,
+  usage: ContrastUsage = 'normal-text',
+  target: ConformanceTarget = 'AA',
+  algorithm: ContrastAlgorithm = 'wcag'
+): boolean => Math.abs(value) >= CONFORMANCE_THRESHOLDS[algorithm][usage][target];
+
+/**
+ * Highest target met for each usage, or 'Fail'.
+ */
+export type ConformanceSummary = Record<ContrastUsage, ConformanceTarget | 'Fail'>;
+
+/**
+ * Gets the highest target a contrast value meets for every usage.
+ */
+export const getConformance = (
+  value: number,
+  algorithm: ContrastAlgorithm = 'wcag'
+): ConformanceSummary => {
+  const levelFor = (usage: ContrastUsage): ConformanceTarget | 'Fail' => {
+    if (meetsConformance(value, usage, 'AAA', algorithm)) return 'AAA';
+    if (meetsConformance(value, usage, 'AA', algorithm)) return 'AA';
+    return 'Fail';
+  };
+
+  return {
+    'normal-text': levelFor('normal-text'),
+    'large-text': levelFor('large-text'),
+    'ui-component': levelFor('ui-component'),
+  };
+};
+
+/**
+ * Scores a contrast value from 0 to 100. For normal text, passing large text
+ * scores 50, passing normal text 80 and the enhanced (AAA) level 100. Other
+ * usages score 80 at their AA threshold and 100 at AAA.
+ */
+export const getContrastScore = (
+  value: number,
+  algorithm: ContrastAlgorithm = 'wcag',
+  usage: ContrastUsage = 'normal-text'
+): number => {
+  const magnitude = Math.abs(value);
+
+  if (usage !== 'normal-text') {
+    const { AA, AAA } = CONFORMANCE_THRESHOLDS[algorithm][usage];
+    if (magnitude >= AAA) return 100;
+    if (magnitude >= AA) return 80;
+    return (magnitude / AA) * 50;
+  }
+
+  if (algorithm === 'apca') {
+    if (magnitude >= APCA_LEVEL_THRESHOLDS.Preferred) return 100;
+    if (magnitude >= APCA_LEVEL_THRESHOLDS.Body) return 80;
+    if (magnitude >= APCA_LEVEL_THRESHOLDS.Content) return 65;
+    if (magnitude >= APCA_LEVEL_THRESHOLDS.Large) return 50;
+    return (magnitude / APCA_LEVEL_THRESHOLDS.Large) * 50;
+  }
+
+  if (magnitude >= 7) return 100;
+  if (magnitude >= 4.5) return 80;
+  if (magnitude >= 3) return 50;
+  return (magnitude / 3) * 50; // Scale for scores below AA large
+};
+
+export interface ContrastAuditOptions {
+  algorithm?: ContrastAlgorithm;
+  usage?: ContrastUsage;
+  target?: ConformanceTarget;
+}
+
+/**
+ * Audit result for one foreground/background pair.
+ */
+export interface ContrastResult {
+  foregroundColor: string;
+  backgroundColor: string;
+  /** WCAG 2.x contrast ratio */
+  ratio: number;
+  /** APCA lightness contrast of the foreground on the background */
+  lc: number;
+  /** Level under the active algorithm */
+  level: ContrastLevel;
+  /** 0-100 score under the active algorithm */
+  score: number;
+  conformance: ConformanceSummary;
+  /** Whether the pair meets the requested usage and target */
+  passes: boolean;
+  /** The pair as rendered in the worst case, after compositing translucent colors */
+  composited: { foreground: string; background: string };
+  /**
+   * Lowest and highest contrast value (ratio or Lc) over the backdrops a
+   * translucent background can sit on. Both are the same for opaque backgrounds.
+   */
+  range: { min: number; max: number };
+}
+
+/**
+ * Audits a foreground/background pair. Translucent colors are composited
+ * first, and the pair is judged by the backdrop it renders worst on.
+ */
+export const auditContrast = (
+  foregroundColor: string,
+  backgroundColor: string,
+  { algorithm = 'wcag', usage = 'normal-text', target = 'AA' }: ContrastAuditOptions = {}
+): ContrastResult => {
+  const rendered = getRenderedPairs(foregroundColor, backgroundColor).map(([foreground, background]) => {
+    const pairRatio = getContrastRatio(foreground, background);
+    const pairLc = getLightnessContrast(foreground, background);
+    return { foreground, background, ratio: pairRatio, lc: pairLc, value: algorithm === 'apca' ? pairLc : pairRatio };
+  });
+  const byMagnitude = [...rendered].sort((a, b) => Math.abs(a.value) - Math.abs(b.value));
+  const worst = byMagnitude[0];
+  const { ratio, lc, value } = worst;
+
+  return {
+    foregroundColor,
+    backgroundColor,
+    ratio,
+    lc,
+    level: algorithm === 'apca' ? getAPCALevel(lc) : getWCAGLevel(ratio),
+    score: getContrastScore(value, algorithm, usage),
+    conformance: getConformance(value, algorithm),
+    passes: meetsConformance(value, usage, target, algorithm),
+    composited: { foreground: worst.foreground, background: worst.background },
+    range: { min: value, max: byMagnitude[byMagnitude.length - 1].value },
+  };
+};
+
+/**
+ * Gets the contrast value of a result under an algorithm (ratio or Lc).
+ */
+export const getContrastValue = (result: ContrastResult, algorithm: ContrastAlgorithm = 'wcag'): number =>
+  algorithm === 'apca' ? result.lc : result.ratio;
+
+/**
+ * Formats the contrast value of a result for display.
+ */
+export const formatContrastValue = (
+  result: Pick<ContrastResult, 'ratio' | 'lc'>,
+  algorithm: ContrastAlgorithm = 'wcag'
+): string =>
+  algorithm === 'apca' ? `Lc ${result.lc.toFixed(1)}` : `${result.ratio.toFixed(2)}:1`;
+
+/**
+ * Averages the scores of audited pairs into a 0-100 accessibility score.
+ */
+export const calculateAccessibilityScore = (results: ContrastResult[]): number => {
+  if (results.length === 0) return 0;
+  const total = results.reduce((sum, result) => sum + result.score, 0);
+  return Math.round(total / results.length);
+};
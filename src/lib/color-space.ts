@@ -0,0 +1,152 @@
+import chroma from 'chroma-js';
+
+/**
+ * Color spaces the generators work in. Hue rotations and lightness changes in
+ * HSL give very uneven perceived lightness (a yellow at 50% HSL lightness looks
+ * far brighter than a blue), while the perceptual spaces keep lightness and
+ * chroma consistent across hues.
+ *
+ * Generators work on a polar color: lightness, chroma and hue. OKLab and CIELAB
+ * are handled through their a/b plane (chroma is the distance from the gray
+ * axis, hue its angle), so they behave like OKLCH and LCH for hue rotation.
+ */
+
+export type ColorSpace = 'oklch' | 'oklab' | 'lch' | 'lab' | 'hsl';
+
+export const colorSpaceLabels: Record<ColorSpace, string> = {
+  oklch: 'OKLCH',
+  oklab: 'OKLab',
+  lch: 'LCH',
+  lab: 'CIELAB',
+  hsl: 'HSL',
+};
+
+export const DEFAULT_COLOR_SPACE: ColorSpace = 'oklch';
+
+/**
+ * A color as lightness, chroma and hue, normalized across spaces so
+ * generators can use the same numbers in any of them.
+ */
+export interface PolarColor {
+  /** Lightness, 0 (black) to 1 (white) */
+  l: number;
+  /** Chroma relative to the space's range, 0 (gray) to about 1. Saturation in HSL */
+  c: number;
+  /** Hue angle in degrees, 0 for grays */
+  h: number;
+}
+
+// Chroma that normalizes to 1, a little above the most saturated sRGB color
+const MAX_CHROMA: Record<ColorSpace, number> = {
+  oklch: 0.4,
+  oklab: 0.4,
+  lch: 150,
+  lab: 150,
+  hsl: 1,
+};
+
+// Lightness range of each space
+const MAX_LIGHTNESS: Record<ColorSpace, number> = {
+  oklch: 1,
+  oklab: 1,
+  lch: 100,
+  lab: 100,
+  hsl: 1,
+};
+
+const toDegrees = (radians: number): number => ((radians * 180) / Math.PI + 360) % 360;
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Converts a color to lightness, chroma and hue in a color space.
+ */
+export const toPolar = (color: string, space: ColorSpace = DEFAULT_COLOR_SPACE): PolarColor => {
+  const value = chroma(color);
+  let l: number;
+  let c: number;
+  let h: number;
+
+  switch (space) {
+    case 'oklab':
+    case 'lab': {
+      const [lightness, a, b] = space === 'oklab' ? value.oklab() : value.lab();
+      l = lightness;
+      c = Math.hypot(a, b);
+      h = toDegrees(Math.atan2(b, a));
+      break;
+    }
+    case 'oklch':
+      [l, c, h] = value.oklch();
+      break;
+    case 'lch':
+      [l, c, h] = value.lch();
+      break;
+    case 'hsl':
+      [h, c, l] = value.hsl();
+      break;
+  }
+
+  return {
+    l: l / MAX_LIGHTNESS[space],
+    c: (c || 0) / MAX_CHROMA[space],
+    h: Number.isNaN(h) ? 0 : h,
+  };
+};
+
+const createColor = (l: number, c: number, h: number, space: ColorSpace) => {
+  const lightness = l * MAX_LIGHTNESS[space];
+  const chromaValue = c * MAX_CHROMA[space];
+  const hue = ((h % 360) + 360) % 360;
+
+  switch (space) {
+    case 'oklab':
+      return chroma.oklab(lightness, chromaValue * Math.cos(toRadians(hue)), chromaValue * Math.sin(toRadians(hue)));
+    case 'lab':
+      return chroma.lab(lightness, chromaValue * Math.cos(toRadians(hue)), chromaValue * Math.sin(toRadians(hue)));
+    case 'oklch':
+      return chroma.oklch(lightness, chromaValue, hue);
+    case 'lch':
+      return chroma.lch(lightness, chromaValue, hue);
+    case 'hsl':
+      return chroma.hsl(hue, Math.min(1, chromaValue), lightness);
+  }
+};
+
+/**
+ * Converts lightness, chroma and hue in a color space to a hex color. Colors
+ * outside sRGB are gamut mapped by reducing chroma at the same lightness and
+ * hue, rather than clipping channels, which would shift the hue.
+ */
+export const fromPolar = ({ l, c, h }: PolarColor, space: ColorSpace = DEFAULT_COLOR_SPACE): string => {
+  const lightness = Math.min(1, Math.max(0, l));
+  const chromaValue = Math.max(0, c);
+
+  if (!createColor(lightness, chromaValue, h, space).clipped()) {
+    return createColor(lightness, chromaValue, h, space).hex();
+  }
+
+  // Binary search for the highest chroma that fits
+  let low = 0;
+  let high = chromaValue;
+  for (let i = 0; i < 16; i++) {
+    const middle = (low + high) / 2;
+    if (createColor(lightness, middle, h, space).clipped()) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return createColor(lightness, low, h, space).hex();
+};
+
+/**
+ * Updates the lightness, chroma or hue of a color in a color space.
+ */
+export const adjustColor = (
+  color: string,
+  update: (polar: PolarColor) => Partial<PolarColor>,
+  space: ColorSpace = DEFAULT_COLOR_SPACE
+): string => {
+  const polar = toPolar(color, space);
+  return fromPolar({ ...polar, ...update(polar) }, space);
+};
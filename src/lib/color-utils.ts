@@ -1,178 +1,184 @@
-import chroma from 'chroma-js';
+import { palettesToAse } from './ase';
+import { paletteToDtcg, paletteVariantsToDtcg, scalesToDtcg } from './dtcg';
+import { getColorTokens, getColorValue, type PaletteColor } from './palette';
+import type { NamedColor } from './palette-parsers';
+import type { ColorScale } from './scales';
 
-/**
- * Calculates the contrast ratio between two hex colors.
- * @param color1 - The first color in hex format (e.g., '#RRGGBB').
- * @param color2 - The second color in hex format (e.g., '#RRGGBB').
- * @returns The contrast ratio.
- */
-export const getContrastRatio = (color1: string, color2: string): number => {
-  return chroma.contrast(color1, color2);
-};
+// Palette export utilities
 
 /**
- * Defines WCAG 2.1 accessibility levels for text contrast.
+ * Export output: source text, or raw bytes for binary formats such as ASE.
  */
-export type WCAGLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+export type ExportOutput = string | ArrayBuffer;
 
-/**
- * Gets the WCAG 2.1 accessibility level for a given contrast ratio.
- * @param ratio - The contrast ratio.
- * @returns The WCAG level.
- */
-export const getWCAGLevel = (ratio: number): WCAGLevel => {
-  if (ratio >= 7) return 'AAA';
-  if (ratio >= 4.5) return 'AA';
-  if (ratio >= 3) return 'AA Large';
-  return 'Fail';
+export interface ExportFormat {
+  name: string;
+  extension: string;
+  mimeType?: string;
+  /** True when `generate` returns an ArrayBuffer instead of text */
+  binary?: boolean;
+  /** Generates the file; colors are named `<name>-<token>` (see `getColorTokens`) */
+  generate: (palette: PaletteColor[], name?: string) => ExportOutput;
+  /**
+   * Generates a single file holding several named palettes (e.g. light and dark).
+   * Formats without it are exported by concatenating `generate` output.
+   */
+  generateVariants?: (variants: { name: string; palette: PaletteColor[] }[]) => ExportOutput;
+  /**
+   * Generates the file from tonal scales, nesting each color's 50–950 steps
+   * under its token. Formats without it can only export flat palettes.
+   */
+  generateScales?: (scales: ColorScale[], name?: string) => ExportOutput;
+}
+
+// Pairs each color with its token name, keeping the notation it was imported in
+const tokenEntries = (palette: PaletteColor[]): [string, string][] => {
+  const tokens = getColorTokens(palette);
+  return palette.map((color, index) => [tokens[index], getColorValue(color)]);
 };
 
-// Color blindness simulation functions
-export type ColorBlindnessType = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'protanomaly' | 'deuteranomaly' | 'tritanomaly' | 'achromatopsia' | 'achromatomaly';
+// Serializes token entries as a JSON object, keeping palette order
+// (object keys like "2" would otherwise be hoisted to the front)
+const stringifyEntries = (entries: [string, string][], indent = ''): string =>
+  `{\n${entries
+    .map(([token, color]) => `${indent}  ${JSON.stringify(token)}: ${JSON.stringify(color)}`)
+    .join(',\n')}\n${indent}}`;
 
-/**
- * Simulates color blindness for a given color
- */
-export const simulateColorBlindness = (color: string, type: ColorBlindnessType): string => {
-  try {
-    const rgb = chroma(color).rgb();
-    let [r, g, b] = rgb;
-    
-    // Normalize RGB values to 0-1 range
-    r /= 255;
-    g /= 255;
-    b /= 255;
-    
-    // Apply color blindness transformation matrices
-    let newR, newG, newB;
-    
-    switch (type) {
-      case 'protanopia': // Red-blind
-        newR = 0.567 * r + 0.433 * g + 0.000 * b;
-        newG = 0.558 * r + 0.442 * g + 0.000 * b;
-        newB = 0.000 * r + 0.242 * g + 0.758 * b;
-        break;
-      case 'protanomaly': // Red-weak
-        newR = 0.817 * r + 0.183 * g + 0.000 * b;
-        newG = 0.333 * r + 0.667 * g + 0.000 * b;
-        newB = 0.000 * r + 0.125 * g + 0.875 * b;
-        break;
-      case 'deuteranopia': // Green-blind
-        newR = 0.625 * r + 0.375 * g + 0.000 * b;
-        newG = 0.700 * r + 0.300 * g + 0.000 * b;
-        newB = 0.000 * r + 0.300 * g + 0.700 * b;
-        break;
-      case 'deuteranomaly': // Green-weak
-        newR = 0.800 * r + 0.200 * g + 0.000 * b;
-        newG = 0.258 * r + 0.742 * g + 0.000 * b;
-        newB = 0.000 * r + 0.142 * g + 0.858 * b;
-        break;
-      case 'tritanopia': // Blue-blind
-        newR = 0.950 * r + 0.050 * g + 0.000 * b;
-        newG = 0.000 * r + 0.433 * g + 0.567 * b;
-        newB = 0.000 * r + 0.475 * g + 0.525 * b;
-        break;
-      case 'tritanomaly': // Blue-weak
-        newR = 0.967 * r + 0.033 * g + 0.000 * b;
-        newG = 0.000 * r + 0.733 * g + 0.267 * b;
-        newB = 0.000 * r + 0.183 * g + 0.817 * b;
-        break;
-      case 'achromatopsia': // Complete color blindness
-        { const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-        newR = newG = newB = gray;
-        break; }
-      case 'achromatomaly': // Partial color blindness
-        { const grayPartial = 0.299 * r + 0.587 * g + 0.114 * b;
-        newR = 0.618 * r + 0.320 * grayPartial + 0.062 * b;
-        newG = 0.163 * r + 0.775 * g + 0.062 * b;
-        newB = 0.163 * r + 0.320 * grayPartial + 0.516 * b;
-        break; }
-      default:
-        return color;
-    }
-    
-    // Convert back to 0-255 range and ensure valid values
-    const finalR = Math.max(0, Math.min(255, Math.round(newR * 255)));
-    const finalG = Math.max(0, Math.min(255, Math.round(newG * 255)));
-    const finalB = Math.max(0, Math.min(255, Math.round(newB * 255)));
-    
-    return chroma.rgb(finalR, finalG, finalB).hex();
-  } catch (error) {
-    console.error('Error simulating color blindness:', error);
-    return color;
-  }
-};
+// Serializes scales as nested JSON objects, `{ token: { 50: ..., 950: ... } }`
+const stringifyScales = (scales: ColorScale[], indent = ''): string =>
+  `{\n${scales
+    .map(
+      ({ token, steps }) =>
+        `${indent}  ${JSON.stringify(token)}: ${stringifyEntries(
+          steps.map(({ step, hex }) => [String(step), hex]),
+          `${indent}  `
+        )}`
+    )
+    .join(',\n')}\n${indent}}`;
 
-/**
- * Simulates color blindness for an entire palette
- */
-export const simulatePaletteColorBlindness = (palette: string[], type: ColorBlindnessType): string[] => {
-  return palette.map(color => simulateColorBlindness(color, type));
+// Names each color after its palette and token, as in `brand-primary`
+const toNamedColors = (palette: PaletteColor[], name: string): NamedColor[] => {
+  const tokens = getColorTokens(palette);
+  return palette.map((color, index) => ({ name: `${name}-${tokens[index]}`, color: color.hex }));
 };
 
-// Palette export utilities
-export interface ExportFormat {
-  name: string;
-  extension: string;
-  generate: (palette: string[], name?: string) => string;
-}
-
 export const exportFormats: ExportFormat[] = [
   {
     name: 'CSS Variables',
     extension: 'css',
-    generate: (palette: string[], name = 'palette') => {
-      const cssVars = palette.map((color, index) => `  --${name}-${index + 1}: ${color};`).join('\n');
+    generate: (palette: PaletteColor[], name = 'palette') => {
+      const cssVars = tokenEntries(palette).map(([token, color]) => `  --${name}-${token}: ${color};`).join('\n');
+      return `:root {\n${cssVars}\n}`;
+    },
+    generateScales: (scales: ColorScale[], name = 'palette') => {
+      const cssVars = scales
+        .map(({ token, steps }) => steps.map(({ step, hex }) => `  --${name}-${token}-${step}: ${hex};`).join('\n'))
+        .join('\n\n');
       return `:root {\n${cssVars}\n}`;
     }
   },
   {
     name: 'SCSS Variables',
     extension: 'scss',
-    generate: (palette: string[], name = 'palette') => {
-      return palette.map((color, index) => `$${name}-${index + 1}: ${color};`).join('\n');
+    generate: (palette: PaletteColor[], name = 'palette') => {
+      return tokenEntries(palette).map(([token, color]) => `$${name}-${token}: ${color};`).join('\n');
     }
   },
   {
-    name: 'JavaScript Array',
+    name: 'JavaScript Object',
     extension: 'js',
-    generate: (palette: string[], name = 'palette') => {
-      return `const ${name} = ${JSON.stringify(palette, null, 2)};`;
+    generate: (palette: PaletteColor[], name = 'palette') => {
+      return `const ${name} = ${stringifyEntries(tokenEntries(palette))};`;
     }
   },
   {
     name: 'JSON',
     extension: 'json',
-    generate: (palette: string[], name = 'palette') => {
-      return JSON.stringify({ [name]: palette }, null, 2);
+    generate: (palette: PaletteColor[], name = 'palette') => {
+      return `{\n  ${JSON.stringify(name)}: ${stringifyEntries(tokenEntries(palette), '  ')}\n}`;
+    },
+    generateScales: (scales: ColorScale[], name = 'palette') => {
+      return `{\n  ${JSON.stringify(name)}: ${stringifyScales(scales, '  ')}\n}`;
+    }
+  },
+  {
+    name: 'Design Tokens (DTCG)',
+    extension: 'tokens.json',
+    mimeType: 'application/json',
+    generate: (palette: PaletteColor[], name = 'palette') => {
+      return paletteToDtcg(palette, name);
+    },
+    generateVariants: (variants) => {
+      return paletteVariantsToDtcg(variants);
+    },
+    generateScales: (scales: ColorScale[], name = 'palette') => {
+      return scalesToDtcg(scales, name);
     }
   },
   {
     name: 'Tailwind Config',
     extension: 'js',
-    generate: (palette: string[], name = 'palette') => {
-      const colors = palette.reduce((acc, color, index) => {
-        acc[`${name}-${index + 1}`] = color;
+    generate: (palette: PaletteColor[], name = 'palette') => {
+      const colors = tokenEntries(palette).reduce((acc, [token, color]) => {
+        acc[`${name}-${token}`] = color;
         return acc;
       }, {} as Record<string, string>);
       return `module.exports = {\n  theme: {\n    extend: {\n      colors: ${JSON.stringify(colors, null, 8)}\n    }\n  }\n}`;
+    },
+    generateScales: (scales: ColorScale[], name = 'palette') => {
+      // Nested colors become classes like `bg-<name>-<token>-500`
+      const colors = `{\n        ${JSON.stringify(name)}: ${stringifyScales(scales, '        ')}\n      }`;
+      return `module.exports = {\n  theme: {\n    extend: {\n      colors: ${colors}\n    }\n  }\n}`;
     }
   },
   {
     name: 'Adobe Swatch Exchange (ASE)',
     extension: 'ase',
-    generate: (palette: string[], name = 'palette') => {
-      // This would need a proper ASE file generator, for now return hex values
-      return palette.map((color, index) => `${name}-${index + 1}: ${color}`).join('\n');
+    mimeType: 'application/octet-stream',
+    binary: true,
+    generate: (palette: PaletteColor[], name = 'palette') => {
+      return palettesToAse([{ name, colors: toNamedColors(palette, name) }]);
+    },
+    generateVariants: (variants) => {
+      return palettesToAse(
+        variants.map(({ name, palette }) => ({ name, colors: toNamedColors(palette, name) }))
+      );
     }
   }
 ];
 
+/**
+ * Renders binary export output as a hex dump for previewing
+ */
+export const formatBinaryPreview = (buffer: ArrayBuffer, maxBytes: number = 256): string => {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, maxBytes));
+  const lines: string[] = [];
+
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = Array.from(bytes.slice(offset, offset + 16));
+    const hex = row.map((byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = row
+      .map((byte) => (byte >= 32 && byte < 127 ? String.fromCharCode(byte) : '.'))
+      .join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+
+  if (buffer.byteLength > maxBytes) {
+    lines.push(`... ${buffer.byteLength - maxBytes} more bytes`);
+  }
+
+  return `Binary file (${buffer.byteLength} bytes)\n\n${lines.join('\n')}`;
+};
+
 /**
  * Downloads a file with the given content
  */
-export const downloadFile = (content: string, filename: string, mimeType: string = 'text/plain') => {
-  const blob = new Blob([content], { type: mimeType });
+export const downloadFile = (
+  content: string | ArrayBuffer | Blob,
+  filename: string,
+  mimeType: string = 'text/plain'
+) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
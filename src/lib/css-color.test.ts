@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseCssColor, tokenizeCssColors } from './css-color';
+
+describe('parseCssColor', () => {
+  it.each([
+    ['#f00', '#ff0000'],
+    ['#FF000080', '#ff000080'],
+    ['red', '#ff0000'],
+    ['RebeccaPurple', '#663399'],
+    ['transparent', '#00000000'],
+    ['rgb(255 0 0)', '#ff0000'],
+    ['rgba(255, 0, 0, 0.5)', '#ff000080'],
+    ['hsl(120 100% 50%)', '#00ff00'],
+    ['hsl(120deg, 100%, 25%)', '#008000'],
+    ['hwb(0 0% 0% / 0.5)', '#ff000080'],
+    ['lab(54.29% 80.8 69.89)', '#ff0000'],
+    ['lch(54.29% 106.84 40.86)', '#ff0000'],
+    ['oklab(0.628 0.2249 0.1258)', '#ff0000'],
+    ['oklch(62.8% 0.2577 29.23)', '#ff0000'],
+    ['color(srgb 0 0.5 1)', '#0080ff'],
+  ])('reads %s', (value, hex) => {
+    expect(parseCssColor(value)).toBe(hex);
+  });
+
+  it('maps out-of-gamut colors into sRGB', () => {
+    expect(parseCssColor('color(display-p3 1 0 0)')).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it.each(['decade', 'cafe', 'maroon2', 'rgb(1 2)', 'notacolor(1 2 3)', '#12345'])('rejects %s', (value) => {
+    expect(parseCssColor(value)).toBeNull();
+  });
+});
+
+describe('tokenizeCssColors', () => {
+  const values = (text: string) => tokenizeCssColors(text).map(({ value }) => value);
+
+  it('finds colors of every notation in order, with their positions', () => {
+    const text = 'a { color: oklch(62.8% 0.2577 29.23); background: #fff; border-color: navy }';
+    expect(tokenizeCssColors(text)).toEqual([
+      { value: 'oklch(62.8% 0.2577 29.23)', notation: 'oklch', hex: '#ff0000', start: 11, end: 36 },
+      { value: '#fff', notation: 'hex', hex: '#ffffff', start: 50, end: 54 },
+      { value: 'navy', notation: 'named', hex: '#000080', start: 70, end: 74 },
+    ]);
+  });
+
+  it('reads named colors in values and in lists of colors', () => {
+    expect(values('{"primary": "red", "surface": "white"}')).toEqual(['red', 'white']);
+    expect(values("colors = ['tan', 'teal']")).toEqual(['tan', 'teal']);
+    expect(values('red, navy, #fff')).toEqual(['red', 'navy', '#fff']);
+  });
+
+  it('ignores color words in prose', () => {
+    expect(values('The red fox is tan')).toEqual([]);
+    expect(values('add bee cafe decade')).toEqual([]);
+  });
+
+  it('ignores property names and object keys', () => {
+    expect(values('red: #123456')).toEqual(['#123456']);
+  });
+
+  it('reads hex without "#" only when it mixes letters and digits', () => {
+    expect(values('1e3a8a 123456 facade')).toEqual(['1e3a8a']);
+  });
+});
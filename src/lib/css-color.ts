@@ -0,0 +1,443 @@
+import chroma from 'chroma-js';
+import { fromPolar } from './color-space';
+import { srgbToLinear } from './cvd';
+
+/**
+ * CSS Color Module Level 4 parsing: hex, named colors, rgb(), hsl() and hwb()
+ * in legacy comma and modern space syntax, lab(), lch(), oklab(), oklch() and
+ * color() with the predefined RGB and XYZ spaces.
+ *
+ * Colors are converted to sRGB hex. Colors outside sRGB (e.g. saturated
+ * display-p3) are gamut mapped in OKLCH by reducing chroma, so the hex is the
+ * closest displayable color while the original notation keeps the full color.
+ */
+
+export type CssColorNotation =
+  | 'hex'
+  | 'named'
+  | 'rgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'color';
+
+/**
+ * A color found in text.
+ */
+export interface CssColorMatch {
+  /** The color as written, e.g. `rgb(12 34 56 / 50%)` */
+  value: string;
+  notation: CssColorNotation;
+  /** sRGB hex, with an alpha byte when translucent */
+  hex: string;
+  /** Offset of the first character in the source text */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+}
+
+type Vector = [number, number, number];
+type Matrix = [Vector, Vector, Vector];
+
+const multiply = (m: Matrix, [x, y, z]: Vector): Vector => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+];
+
+// Conversion matrices from the CSS Color 4 sample code, linear RGB to XYZ
+const SRGB_TO_XYZ: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+const P3_TO_XYZ: Matrix = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+const A98_TO_XYZ: Matrix = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+const REC2020_TO_XYZ: Matrix = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+// ProPhoto is relative to D50
+const PROPHOTO_TO_XYZ_D50: Matrix = [
+  [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+  [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+  [0, 0, 0.8251046025104601],
+];
+// Bradford chromatic adaptation
+const D50_TO_D65: Matrix = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const XYZ_TO_LMS: Matrix = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+const LMS_TO_OKLAB: Matrix = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.4285922420485799, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757548730775],
+];
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+// Transfer functions, mirrored for negative values
+const signed = (transfer: (value: number) => number) => (value: number) =>
+  Math.sign(value) * transfer(Math.abs(value));
+
+const srgbTransfer = signed(srgbToLinear);
+const a98Transfer = signed((value) => Math.pow(value, 563 / 256));
+const prophotoTransfer = signed((value) => (value <= 16 / 512 ? value / 16 : Math.pow(value, 1.8)));
+const rec2020Transfer = signed((value) => {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  return value < beta * 4.5 ? value / 4.5 : Math.pow((value + alpha - 1) / alpha, 1 / 0.45);
+});
+
+const xyzToOklab = (xyz: Vector): Vector =>
+  multiply(LMS_TO_OKLAB, multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as Vector);
+
+// CIE Lab, which CSS defines relative to D50
+const labToXyzD50 = ([l, a, b]: Vector): Vector => {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  const xyz: Vector = [
+    fx ** 3 > epsilon ? fx ** 3 : (116 * fx - 16) / kappa,
+    l > kappa * epsilon ? fy ** 3 : l / kappa,
+    fz ** 3 > epsilon ? fz ** 3 : (116 * fz - 16) / kappa,
+  ];
+  return xyz.map((value, index) => value * D50_WHITE[index]) as Vector;
+};
+
+const withAlpha = (hex: string, alpha: number): string =>
+  alpha < 1 ? chroma(hex).alpha(alpha).hex() : hex;
+
+// Converts OKLab to hex, gamut mapping colors outside sRGB
+const oklabToHex = ([l, a, b]: Vector, alpha: number): string => {
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return withAlpha(fromPolar({ l, c: Math.hypot(a, b) / 0.4, h: hue }, 'oklch'), alpha);
+};
+
+interface Component {
+  value: number;
+  unit: string;
+}
+
+const COMPONENT = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+
+const parseComponent = (token: string): Component | null => {
+  if (token.toLowerCase() === 'none') return { value: 0, unit: 'none' };
+  const match = COMPONENT.exec(token);
+  return match ? { value: parseFloat(match[1]), unit: (match[2] ?? '').toLowerCase() } : null;
+};
+
+// A number, or a percentage of `reference`
+const toNumber = ({ value, unit }: Component, reference: number): number => {
+  if (unit === '%') return (value / 100) * reference;
+  return unit === '' || unit === 'none' ? value : NaN;
+};
+
+const toHue = ({ value, unit }: Component): number => {
+  switch (unit) {
+    case '':
+    case 'deg':
+    case 'none':
+      return value;
+    case 'rad':
+      return (value * 180) / Math.PI;
+    case 'grad':
+      return value * 0.9;
+    case 'turn':
+      return value * 360;
+    default:
+      return NaN;
+  }
+};
+
+const toAlpha = (component: Component | undefined): number =>
+  component ? Math.min(1, Math.max(0, toNumber(component, 1))) : 1;
+
+// Splits function arguments into three channels and an optional alpha, in the
+// legacy comma syntax (`1, 2, 3, 0.5`) or the modern one (`1 2 3 / 50%`)
+const parseArguments = (args: string): { channels: Component[]; alpha?: Component } | null => {
+  let parts: string[];
+  let alphaPart: string | undefined;
+
+  if (args.includes(',')) {
+    parts = args.split(',').map((part) => part.trim());
+    if (parts.length === 4) alphaPart = parts.pop();
+  } else {
+    const [main, alpha, ...rest] = args.split('/');
+    if (rest.length > 0) return null;
+    parts = main.trim().split(/\s+/);
+    alphaPart = alpha?.trim();
+  }
+  if (parts.length !== 3) return null;
+
+  const channels = parts.map(parseComponent);
+  const alpha = alphaPart === undefined ? undefined : parseComponent(alphaPart);
+  if (channels.some((channel) => channel === null) || alpha === null) return null;
+  return { channels: channels as Component[], alpha };
+};
+
+const clamp = (value: number, max = 1): number => Math.min(max, Math.max(0, value));
+
+// Channels are NaN when a component has the wrong unit, e.g. an angle in rgb()
+const isFinite = (...values: number[]): boolean => values.every(Number.isFinite);
+
+// hwb() to sRGB: the pure hue mixed with white and black
+const hwbToHex = (hue: number, white: number, black: number, alpha: number): string => {
+  if (white + black >= 1) {
+    const gray = white / (white + black);
+    return chroma.gl(gray, gray, gray, alpha).hex();
+  }
+  const [r, g, b] = chroma.hsl(hue, 1, 0.5).gl();
+  const mix = (channel: number) => channel * (1 - white - black) + white;
+  return chroma.gl(mix(r), mix(g), mix(b), alpha).hex();
+};
+
+// Converts a color() channel triple in a predefined space to OKLab
+const predefinedToOklab = (space: string, rgb: Vector): Vector | null => {
+  switch (space) {
+    case 'srgb-linear':
+      return xyzToOklab(multiply(SRGB_TO_XYZ, rgb));
+    case 'display-p3':
+      return xyzToOklab(multiply(P3_TO_XYZ, rgb.map(srgbTransfer) as Vector));
+    case 'a98-rgb':
+      return xyzToOklab(multiply(A98_TO_XYZ, rgb.map(a98Transfer) as Vector));
+    case 'rec2020':
+      return xyzToOklab(multiply(REC2020_TO_XYZ, rgb.map(rec2020Transfer) as Vector));
+    case 'prophoto-rgb':
+      return xyzToOklab(multiply(D50_TO_D65, multiply(PROPHOTO_TO_XYZ_D50, rgb.map(prophotoTransfer) as Vector)));
+    case 'xyz':
+    case 'xyz-d65':
+      return xyzToOklab(rgb);
+    case 'xyz-d50':
+      return xyzToOklab(multiply(D50_TO_D65, rgb));
+    default:
+      return null;
+  }
+};
+
+const FUNCTION_NOTATIONS: Record<string, CssColorNotation> = {
+  rgb: 'rgb',
+  rgba: 'rgb',
+  hsl: 'hsl',
+  hsla: 'hsl',
+  hwb: 'hwb',
+  lab: 'lab',
+  lch: 'lch',
+  oklab: 'oklab',
+  oklch: 'oklch',
+  color: 'color',
+};
+
+// Converts a color function to hex, or null when its arguments are invalid
+const parseColorFunction = (name: string, args: string): string | null => {
+  const notation = FUNCTION_NOTATIONS[name.toLowerCase()];
+
+  if (notation === 'color') {
+    const [space, ...rest] = args.trim().split(/\s+/);
+    const parsed = parseArguments(rest.join(' '));
+    if (!parsed) return null;
+    const rgb = parsed.channels.map((channel) => toNumber(channel, 1)) as Vector;
+    const alpha = toAlpha(parsed.alpha);
+    if (!isFinite(...rgb, alpha)) return null;
+    if (space.toLowerCase() === 'srgb') {
+      return chroma.gl(clamp(rgb[0]), clamp(rgb[1]), clamp(rgb[2]), alpha).hex();
+    }
+    const oklab = predefinedToOklab(space.toLowerCase(), rgb);
+    return oklab ? oklabToHex(oklab, alpha) : null;
+  }
+
+  const parsed = parseArguments(args);
+  if (!parsed) return null;
+  const [first, second, third] = parsed.channels;
+  const alpha = toAlpha(parsed.alpha);
+  let result: string;
+
+  switch (notation) {
+    case 'rgb': {
+      const [r, g, b] = [first, second, third].map((channel) => toNumber(channel, 255));
+      if (!isFinite(r, g, b)) return null;
+      result = chroma.rgb(clamp(r, 255), clamp(g, 255), clamp(b, 255)).alpha(alpha).hex();
+      break;
+    }
+    case 'hsl': {
+      // Saturation and lightness may be percentages or, in modern syntax, numbers
+      const h = toHue(first);
+      const s = toNumber({ ...second, unit: second.unit || '%' }, 1);
+      const l = toNumber({ ...third, unit: third.unit || '%' }, 1);
+      if (!isFinite(h, s, l)) return null;
+      result = chroma.hsl(h, clamp(s), clamp(l)).alpha(alpha).hex();
+      break;
+    }
+    case 'hwb': {
+      const h = toHue(first);
+      const white = toNumber({ ...second, unit: second.unit || '%' }, 1);
+      const black = toNumber({ ...third, unit: third.unit || '%' }, 1);
+      if (!isFinite(h, white, black)) return null;
+      result = hwbToHex(h, clamp(white), clamp(black), alpha);
+      break;
+    }
+    case 'lab':
+    case 'lch': {
+      const l = toNumber(first, 100);
+      let lab: Vector;
+      if (notation === 'lab') {
+        lab = [l, toNumber(second, 125), toNumber(third, 125)];
+      } else {
+        const c = toNumber(second, 150);
+        const h = (toHue(third) * Math.PI) / 180;
+        lab = [l, c * Math.cos(h), c * Math.sin(h)];
+      }
+      if (!isFinite(...lab)) return null;
+      result = oklabToHex(xyzToOklab(multiply(D50_TO_D65, labToXyzD50(lab))), alpha);
+      break;
+    }
+    case 'oklab':
+    case 'oklch': {
+      const l = toNumber(first, 1);
+      let oklab: Vector;
+      if (notation === 'oklab') {
+        oklab = [l, toNumber(second, 0.4), toNumber(third, 0.4)];
+      } else {
+        const c = toNumber(second, 0.4);
+        const h = (toHue(third) * Math.PI) / 180;
+        oklab = [l, c * Math.cos(h), c * Math.sin(h)];
+      }
+      if (!isFinite(...oklab)) return null;
+      result = oklabToHex(oklab, alpha);
+      break;
+    }
+    default:
+      return null;
+  }
+  return Number.isNaN(alpha) ? null : result;
+};
+
+const FUNCTION_PATTERN = /\b(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(([^()]*)\)/gi;
+const HEX_PATTERN = /#([0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})(?![\w-])/gi;
+// Named colors that aren't part of an identifier or followed by a colon (an
+// object key or property name)
+const NAME_PATTERN = /(?<![\w#$@.-])([a-z]+)(?![\w-])(?!\s*:)/gi;
+// Hex without "#": 6 or 8 digits mixing letters and numbers, so words
+// ("decade") and numbers ("123456") aren't taken for colors
+const BARE_HEX_PATTERN = /(?<![\w#$@.])(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])([0-9a-f]{8}|[0-9a-f]{6})(?!\w)/gi;
+
+// The CSS named colors. chroma-js knows a few more (X11 names like "maroon2")
+// and reads letter-only words like "decade" as hex, so names are checked here.
+const CSS_COLOR_NAMES = new Set(
+  [
+    'aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue blueviolet ',
+    'brown burlywood cadetblue chartreuse chocolate coral cornflowerblue cornsilk crimson cyan ',
+    'darkblue darkcyan darkgoldenrod darkgray darkgreen darkgrey darkkhaki darkmagenta ',
+    'darkolivegreen darkorange darkorchid darkred darksalmon darkseagreen darkslateblue ',
+    'darkslategray darkslategrey darkturquoise darkviolet deeppink deepskyblue dimgray dimgrey ',
+    'dodgerblue firebrick floralwhite forestgreen fuchsia gainsboro ghostwhite gold goldenrod gray ',
+    'green greenyellow grey honeydew hotpink indianred indigo ivory khaki lavender lavenderblush ',
+    'lawngreen lemonchiffon lightblue lightcoral lightcyan lightgoldenrodyellow lightgray lightgreen ',
+    'lightgrey lightpink lightsalmon lightseagreen lightskyblue lightslategray lightslategrey ',
+    'lightsteelblue lightyellow lime limegreen linen magenta maroon mediumaquamarine mediumblue ',
+    'mediumorchid mediumpurple mediumseagreen mediumslateblue mediumspringgreen mediumturquoise ',
+    'mediumvioletred midnightblue mintcream mistyrose moccasin navajowhite navy oldlace olive ',
+    'olivedrab orange orangered orchid palegoldenrod palegreen paleturquoise palevioletred ',
+    'papayawhip peachpuff peru pink plum powderblue purple rebeccapurple red rosybrown royalblue ',
+    'saddlebrown salmon sandybrown seagreen seashell sienna silver skyblue slateblue slategray ',
+    'slategrey snow springgreen steelblue tan teal thistle tomato turquoise violet wheat white ',
+    'whitesmoke yellow yellowgreen',
+  ]
+    .join('')
+    .split(' ')
+);
+
+const parseNamedColor = (name: string): string | null => {
+  if (name === 'transparent') return '#00000000';
+  return CSS_COLOR_NAMES.has(name) ? chroma(name).hex() : null;
+};
+
+/**
+ * Converts a single CSS color to sRGB hex.
+ * @returns The hex, or null when the value isn't a supported CSS color.
+ */
+export const parseCssColor = (value: string): string | null => {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (/^[a-z]+$/.test(lower)) return parseNamedColor(lower);
+  if (/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(lower)) return chroma(lower).hex();
+
+  const match = /^([a-z]+)\(([^()]*)\)$/.exec(lower);
+  if (!match || !(match[1] in FUNCTION_NOTATIONS)) return null;
+  try {
+    return parseColorFunction(match[1], match[2]);
+  } catch {
+    return null;
+  }
+};
+
+// Named colors count in values (after ":" or "=" in the same statement) and on
+// lines holding nothing but colors, so color words in prose ("the red fox")
+// aren't taken for colors
+const isNamedColorContext = (text: string, start: number, end: number): boolean => {
+  const statementStart = Math.max(...[';', '{', '}', '\n'].map((char) => text.lastIndexOf(char, start - 1))) + 1;
+  if (/[:=]/.test(text.slice(statementStart, start))) return true;
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end);
+  return text
+    .slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+    .replace(FUNCTION_PATTERN, ' ')
+    .split(/[\s,;'"`]+/)
+    .filter(Boolean)
+    .every((word) => parseCssColor(word) !== null);
+};
+
+/**
+ * Finds every CSS color in a text, in order, with its position and notation.
+ * Overlapping candidates are resolved in favour of functions, then hex, then
+ * named colors, then hex without "#". Named colors only count in CSS values
+ * or lists of colors, not in prose.
+ */
+export const tokenizeCssColors = (text: string): CssColorMatch[] => {
+  const matches: CssColorMatch[] = [];
+  const overlaps = (start: number, end: number) =>
+    matches.some((match) => start < match.end && end > match.start);
+
+  const collect = (
+    pattern: RegExp,
+    notationOf: (match: RegExpExecArray) => CssColorNotation,
+    prefix = '',
+    inContext: (start: number, end: number) => boolean = () => true
+  ) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (overlaps(start, end) || !inContext(start, end)) continue;
+      const hex = parseCssColor(prefix + match[0]);
+      if (hex) matches.push({ value: match[0], notation: notationOf(match), hex, start, end });
+    }
+  };
+
+  collect(FUNCTION_PATTERN, (match) => FUNCTION_NOTATIONS[match[1].toLowerCase()]);
+  collect(HEX_PATTERN, () => 'hex');
+  collect(NAME_PATTERN, () => 'named', '', (start, end) => isNamedColorContext(text, start, end));
+  collect(BARE_HEX_PATTERN, () => 'hex', '#');
+
+  return matches.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,106 @@
+import chroma from 'chroma-js';
+import {
+  colorBlindnessTypeIds,
+  simulatePaletteColorBlindness,
+  type ColorBlindnessOptions,
+  type ColorBlindnessType,
+} from './cvd';
+
+/**
+ * Distinguishability audit: which palette colors collapse into each other for
+ * people with a color vision deficiency. Colors are simulated per deficiency
+ * and compared with CIEDE2000, the CIE's perceptual color difference.
+ */
+
+/** ΔE2000 below which two colors are hard to tell apart at a glance */
+export const DEFAULT_CONFUSABLE_THRESHOLD = 10;
+
+export interface CvdAuditOptions extends ColorBlindnessOptions {
+  /** Pairs closer than this ΔE2000 after simulation are flagged */
+  threshold?: number;
+  types?: ColorBlindnessType[];
+}
+
+/**
+ * A pair of palette colors that's distinguishable with normal vision but not
+ * under a deficiency.
+ */
+export interface ConfusablePair {
+  firstIndex: number;
+  secondIndex: number;
+  /** ΔE2000 between the simulated colors */
+  deltaE: number;
+  /** ΔE2000 between the original colors */
+  normalDeltaE: number;
+}
+
+export interface CvdAuditResult {
+  type: ColorBlindnessType;
+  /** Palette as simulated for the deficiency */
+  simulated: string[];
+  /** ΔE2000 between every pair of simulated colors, indexed [i][j] */
+  deltaE: number[][];
+  /** Confusable pairs, closest first */
+  confusablePairs: ConfusablePair[];
+}
+
+/**
+ * CIEDE2000 color difference of two colors.
+ */
+export const getDeltaE = (color1: string, color2: string): number =>
+  chroma.deltaE(color1, color2);
+
+const getDeltaEMatrix = (colors: string[]): number[][] =>
+  colors.map((color, i) =>
+    colors.map((other, j) => (i === j ? 0 : getDeltaE(color, other)))
+  );
+
+/**
+ * Audits how distinguishable palette colors stay under each deficiency.
+ * Pairs that are already confusable with normal vision aren't flagged, since
+ * that isn't caused by the deficiency.
+ */
+export const auditDistinguishability = (
+  palette: string[],
+  {
+    threshold = DEFAULT_CONFUSABLE_THRESHOLD,
+    types = colorBlindnessTypeIds,
+    ...simulationOptions
+  }: CvdAuditOptions = {}
+): CvdAuditResult[] => {
+  const normal = getDeltaEMatrix(palette);
+
+  return types.map((type) => {
+    const simulated = simulatePaletteColorBlindness(palette, type, simulationOptions);
+    const deltaE = getDeltaEMatrix(simulated);
+    const confusablePairs: ConfusablePair[] = [];
+
+    for (let i = 0; i < palette.length; i++) {
+      for (let j = i + 1; j < palette.length; j++) {
+        if (deltaE[i][j] < threshold && normal[i][j] >= threshold) {
+          confusablePairs.push({
+            firstIndex: i,
+            secondIndex: j,
+            deltaE: deltaE[i][j],
+            normalDeltaE: normal[i][j],
+          });
+        }
+      }
+    }
+    confusablePairs.sort((a, b) => a.deltaE - b.deltaE);
+
+    return { type, simulated, deltaE, confusablePairs };
+  });
+};
+
+/**
+ * Describes a confusable pair, e.g. "success green and error red collapse
+ * under deuteranopia (ΔE 4.1)".
+ * @param labels - Display label of each palette color, e.g. its name or hex.
+ */
+export const describeConfusablePair = (
+  pair: ConfusablePair,
+  type: ColorBlindnessType,
+  labels: string[]
+): string =>
+  `${labels[pair.firstIndex]} and ${labels[pair.secondIndex]} collapse under ${type} (ΔE ${pair.deltaE.toFixed(1)})`;
@@ -0,0 +1,349 @@
+import chroma from 'chroma-js';
+
+/**
+ * Color vision deficiency (CVD) simulation in linear RGB.
+ *
+ * sRGB is linearized before a simulation matrix is applied, since the cone
+ * responses the models are built on are linear in light intensity. Three
+ * published models are available:
+ *
+ * - Brettel, Viénot & Mollon (1997): projects onto two half-planes per
+ *   deficiency. The most accurate for tritan deficiencies.
+ * - Viénot, Brettel & Mollon (1999): a single-plane simplification of Brettel,
+ *   accurate for protan and deutan deficiencies.
+ * - Machado, Oliveira & Fernandes (2009): physiologically based matrices for
+ *   anomalous trichromacy at severities 0 to 1 in steps of 0.1.
+ *
+ * The Brettel and Viénot matrices are the linear RGB versions computed by
+ * DaltonLens (Smith & Pokorny cone fundamentals, sRGB primaries).
+ */
+
+type Matrix = readonly [
+  number, number, number,
+  number, number, number,
+  number, number, number,
+];
+
+type RGB = [number, number, number];
+
+/**
+ * Cone type affected by a deficiency, or 'achromat' for no color vision.
+ */
+export type CvdDeficiency = 'protan' | 'deutan' | 'tritan' | 'achromat';
+
+export type CvdAlgorithm = 'brettel' | 'vienot' | 'machado';
+
+export const cvdAlgorithmLabels: Record<CvdAlgorithm, string> = {
+  brettel: 'Brettel 1997',
+  vienot: 'Viénot 1999',
+  machado: 'Machado 2009',
+};
+
+export const DEFAULT_CVD_ALGORITHM: CvdAlgorithm = 'brettel';
+
+/** Default severity for anomalous trichromacy, a moderate anomaly */
+export const DEFAULT_CVD_SEVERITY = 0.6;
+
+const IDENTITY: Matrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+interface BrettelParams {
+  /** Used when the color is on the positive side of the separation plane */
+  first: Matrix;
+  second: Matrix;
+  separationPlaneNormal: RGB;
+}
+
+const BRETTEL: Record<Exclude<CvdDeficiency, 'achromat'>, BrettelParams> = {
+  protan: {
+    first: [0.1498, 1.19548, -0.34528, 0.10764, 0.84864, 0.04372, 0.00384, -0.0054, 1.00156],
+    second: [0.1457, 1.16172, -0.30742, 0.10816, 0.85291, 0.03892, 0.00386, -0.00524, 1.00139],
+    separationPlaneNormal: [0.00048, 0.00393, -0.00441],
+  },
+  deutan: {
+    first: [0.36477, 0.86381, -0.22858, 0.26294, 0.64245, 0.09462, -0.02006, 0.02728, 0.99278],
+    second: [0.37298, 0.88166, -0.25464, 0.25954, 0.63506, 0.1054, -0.0198, 0.02784, 0.99196],
+    separationPlaneNormal: [-0.00281, -0.00611, 0.00892],
+  },
+  tritan: {
+    first: [1.01277, 0.13548, -0.14826, -0.01243, 0.86812, 0.14431, 0.07589, 0.805, 0.11911],
+    second: [0.93678, 0.18979, -0.12657, 0.06154, 0.81526, 0.1232, -0.37562, 1.12767, 0.24796],
+    separationPlaneNormal: [0.03901, -0.02788, -0.01113],
+  },
+};
+
+const VIENOT: Record<Exclude<CvdDeficiency, 'achromat'>, Matrix> = {
+  protan: [0.11238, 0.88762, 0, 0.11238, 0.88762, 0, 0.00401, -0.00401, 1],
+  deutan: [0.29275, 0.70725, 0, 0.29275, 0.70725, 0, -0.02234, 0.02234, 1],
+  tritan: [1, 0.14461, -0.14461, 0, 0.85924, 0.14076, 0, 0.85924, 0.14076],
+};
+
+// Machado 2009, Table 1: severities 0.1 to 1.0 (0.0 is the identity)
+const MACHADO: Record<Exclude<CvdDeficiency, 'achromat'>, Matrix[]> = {
+  protan: [
+    [0.856167, 0.182038, -0.038205, 0.029342, 0.955115, 0.015544, -0.00288, -0.001563, 1.004443],
+    [0.734766, 0.334872, -0.069637, 0.05184, 0.919198, 0.028963, -0.004928, -0.004209, 1.009137],
+    [0.630323, 0.465641, -0.095964, 0.069181, 0.890046, 0.040773, -0.006308, -0.007724, 1.014032],
+    [0.539009, 0.579343, -0.118352, 0.082546, 0.866121, 0.051332, -0.007136, -0.011959, 1.019095],
+    [0.458064, 0.679578, -0.137642, 0.092785, 0.846313, 0.060902, -0.007494, -0.016807, 1.024301],
+    [0.38545, 0.769005, -0.154455, 0.100526, 0.829802, 0.069673, -0.007442, -0.02219, 1.029632],
+    [0.319627, 0.849633, -0.169261, 0.106241, 0.815969, 0.07779, -0.007025, -0.028051, 1.035076],
+    [0.259411, 0.923008, -0.18242, 0.110296, 0.80434, 0.085364, -0.006276, -0.034346, 1.040622],
+    [0.203876, 0.990338, -0.194214, 0.112975, 0.794542, 0.092483, -0.005222, -0.041043, 1.046265],
+    [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  ],
+  deutan: [
+    [0.866435, 0.177704, -0.044139, 0.049567, 0.939063, 0.01137, -0.003453, 0.007233, 0.99622],
+    [0.760729, 0.319078, -0.079807, 0.090568, 0.889315, 0.020117, -0.006027, 0.013325, 0.992702],
+    [0.675425, 0.43385, -0.109275, 0.125303, 0.847755, 0.026942, -0.00795, 0.018572, 0.989378],
+    [0.605511, 0.52856, -0.134071, 0.155318, 0.812366, 0.032316, -0.009376, 0.023176, 0.9862],
+    [0.547494, 0.607765, -0.155259, 0.181692, 0.781742, 0.036566, -0.01041, 0.027275, 0.983136],
+    [0.498864, 0.674741, -0.173604, 0.205199, 0.754872, 0.039929, -0.011131, 0.030969, 0.980162],
+    [0.457771, 0.731899, -0.18967, 0.226409, 0.731012, 0.042579, -0.011595, 0.034333, 0.977261],
+    [0.422823, 0.781057, -0.203881, 0.245752, 0.709602, 0.044646, -0.011843, 0.037423, 0.974421],
+    [0.392952, 0.82361, -0.216562, 0.263559, 0.69021, 0.046232, -0.01191, 0.040281, 0.97163],
+    [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+  ],
+  tritan: [
+    [0.92667, 0.092514, -0.019184, 0.021191, 0.964503, 0.014306, 0.008437, 0.054813, 0.93675],
+    [0.89572, 0.13333, -0.02905, 0.029997, 0.9454, 0.024603, 0.013027, 0.104707, 0.882266],
+    [0.905871, 0.127791, -0.033662, 0.026856, 0.941251, 0.031893, 0.01341, 0.148296, 0.838294],
+    [0.948035, 0.08949, -0.037526, 0.014364, 0.946792, 0.038844, 0.010853, 0.193991, 0.795156],
+    [1.017277, 0.027029, -0.044306, -0.006113, 0.958479, 0.047634, 0.006379, 0.248708, 0.744913],
+    [1.104996, -0.046633, -0.058363, -0.032137, 0.971635, 0.060503, 0.001336, 0.317922, 0.680742],
+    [1.193214, -0.109812, -0.083402, -0.058496, 0.97941, 0.079086, -0.002346, 0.403492, 0.598854],
+    [1.257728, -0.139648, -0.118081, -0.078003, 0.975409, 0.102594, -0.003316, 0.501214, 0.502102],
+    [1.278864, -0.125333, -0.153531, -0.084748, 0.957674, 0.127074, -0.000989, 0.601151, 0.399838],
+    [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039],
+  ],
+};
+
+// Rec. 709 luminance coefficients, for achromatic vision
+const LUMINANCE: RGB = [0.2126, 0.7152, 0.0722];
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Converts an sRGB channel (0-1) to linear light.
+ */
+export const srgbToLinear = (value: number): number =>
+  value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+
+/**
+ * Converts a linear light channel (0-1) to sRGB.
+ */
+export const linearToSrgb = (value: number): number =>
+  value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+
+const multiply = (m: Matrix, [r, g, b]: RGB): RGB => [
+  m[0] * r + m[1] * g + m[2] * b,
+  m[3] * r + m[4] * g + m[5] * b,
+  m[6] * r + m[7] * g + m[8] * b,
+];
+
+const dot = (a: RGB, b: RGB): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const mixMatrix = (a: Matrix, b: Matrix, amount: number): Matrix => {
+  const mix = (i: number) => a[i] + (b[i] - a[i]) * amount;
+  return [
+    mix(0), mix(1), mix(2),
+    mix(3), mix(4), mix(5),
+    mix(6), mix(7), mix(8),
+  ] satisfies Matrix;
+};
+
+// Interpolates between the two Machado matrices around the severity
+const getMachadoMatrix = (deficiency: Exclude<CvdDeficiency, 'achromat'>, severity: number): Matrix => {
+  const matrices = [IDENTITY, ...MACHADO[deficiency]];
+  const position = severity * 10;
+  const lower = Math.floor(position);
+  if (lower >= 10) return matrices[10];
+  return mixMatrix(matrices[lower], matrices[lower + 1], position - lower);
+};
+
+/**
+ * A simulation as linear RGB matrices: `first` applies on the positive side of
+ * the separation plane and `second` on the other. Only Brettel has a plane.
+ */
+interface CvdTransform {
+  first: Matrix;
+  second: Matrix;
+  separationPlaneNormal: RGB | null;
+}
+
+// Builds the transform for a deficiency. Mixing with the original color is
+// linear, so partial severities fold into the matrices.
+const getCvdTransform = (
+  deficiency: CvdDeficiency,
+  severity: number,
+  algorithm: CvdAlgorithm
+): CvdTransform => {
+  const amount = clamp01(severity);
+  const single = (matrix: Matrix): CvdTransform => ({ first: matrix, second: matrix, separationPlaneNormal: null });
+
+  if (deficiency === 'achromat') {
+    const [r, g, b] = LUMINANCE;
+    return single(mixMatrix(IDENTITY, [r, g, b, r, g, b, r, g, b], amount));
+  }
+  if (algorithm === 'machado') return single(getMachadoMatrix(deficiency, amount));
+  if (algorithm === 'vienot') return single(mixMatrix(IDENTITY, VIENOT[deficiency], amount));
+
+  const { first, second, separationPlaneNormal } = BRETTEL[deficiency];
+  return {
+    first: mixMatrix(IDENTITY, first, amount),
+    second: mixMatrix(IDENTITY, second, amount),
+    separationPlaneNormal,
+  };
+};
+
+/**
+ * Simulates a deficiency on a linear RGB color (channels 0-1).
+ * @param severity - 1 for dichromacy (or monochromacy), lower values for anomalous
+ * trichromacy, down to 0 for normal vision. Brettel and Viénot only model
+ * dichromacy, so lower severities interpolate towards the original color.
+ */
+export const simulateCvdLinear = (
+  rgb: RGB,
+  deficiency: CvdDeficiency,
+  severity = 1,
+  algorithm: CvdAlgorithm = DEFAULT_CVD_ALGORITHM
+): RGB => {
+  const { first, second, separationPlaneNormal } = getCvdTransform(deficiency, severity, algorithm);
+  return multiply(separationPlaneNormal && dot(rgb, separationPlaneNormal) < 0 ? second : first, rgb);
+};
+
+/**
+ * Simulates a deficiency on a CSS color, returning a hex color.
+ */
+export const simulateCvd = (
+  color: string,
+  deficiency: CvdDeficiency,
+  severity = 1,
+  algorithm: CvdAlgorithm = DEFAULT_CVD_ALGORITHM
+): string => {
+  const rgb = chroma(color)
+    .rgb()
+    .map((channel) => srgbToLinear(channel / 255)) as RGB;
+  const simulated = simulateCvdLinear(rgb, deficiency, severity, algorithm);
+  const [r, g, b] = simulated.map((channel) =>
+    Math.round(linearToSrgb(clamp01(channel)) * 255)
+  );
+  return chroma.rgb(r, g, b).hex();
+};
+
+// Color blindness types, as named in the UI, on top of the simulation models
+
+export type ColorBlindnessType = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'protanomaly' | 'deuteranomaly' | 'tritanomaly' | 'achromatopsia' | 'achromatomaly';
+
+export const colorBlindnessTypeIds: ColorBlindnessType[] = ['protanopia', 'deuteranopia', 'tritanopia', 'protanomaly', 'deuteranomaly', 'tritanomaly', 'achromatopsia', 'achromatomaly'];
+
+const colorBlindnessDeficiencies: Record<ColorBlindnessType, CvdDeficiency> = {
+  protanopia: 'protan',
+  protanomaly: 'protan',
+  deuteranopia: 'deutan',
+  deuteranomaly: 'deutan',
+  tritanopia: 'tritan',
+  tritanomaly: 'tritan',
+  achromatopsia: 'achromat',
+  achromatomaly: 'achromat',
+};
+
+/**
+ * Whether a type is an anomaly (a weakened cone type), which has a severity,
+ * rather than the full loss of a cone type.
+ */
+export const isAnomalousType = (type: ColorBlindnessType): boolean =>
+  type.endsWith('omaly');
+
+export interface ColorBlindnessOptions {
+  algorithm?: CvdAlgorithm;
+  /** Severity of anomalous types, 0 (normal vision) to 1 (dichromacy). Ignored for the others */
+  severity?: number;
+}
+
+/**
+ * Simulates color blindness for a given color
+ */
+export const simulateColorBlindness = (
+  color: string,
+  type: ColorBlindnessType,
+  { algorithm = DEFAULT_CVD_ALGORITHM, severity = DEFAULT_CVD_SEVERITY }: ColorBlindnessOptions = {}
+): string => {
+  try {
+    return simulateCvd(
+      color,
+      colorBlindnessDeficiencies[type],
+      isAnomalousType(type) ? severity : 1,
+      algorithm
+    );
+  } catch (error) {
+    console.error('Error simulating color blindness:', error);
+    return color;
+  }
+};
+
+/**
+ * Simulates color blindness for an entire palette
+ */
+export const simulatePaletteColorBlindness = (
+  palette: string[],
+  type: ColorBlindnessType,
+  options: ColorBlindnessOptions = {}
+): string[] => {
+  return palette.map(color => simulateColorBlindness(color, type, options));
+};
+
+// Lookup tables for images: sRGB bytes to linear light, and linear light back
+// to sRGB bytes at LINEAR_STEPS steps, fine enough to round-trip every byte
+const LINEAR_STEPS = 8191;
+let srgbToLinearTable: Float32Array | null = null;
+let linearToSrgbTable: Uint8ClampedArray | null = null;
+
+const getLookupTables = (): [Float32Array, Uint8ClampedArray] => {
+  if (!srgbToLinearTable || !linearToSrgbTable) {
+    srgbToLinearTable = new Float32Array(256).map((_, i) => srgbToLinear(i / 255));
+    linearToSrgbTable = new Uint8ClampedArray(LINEAR_STEPS + 1).map((_, i) =>
+      Math.round(linearToSrgb(i / LINEAR_STEPS) * 255)
+    );
+  }
+  return [srgbToLinearTable, linearToSrgbTable];
+};
+
+/**
+ * Simulates color blindness on RGBA pixels (e.g. canvas `ImageData.data`),
+ * with lookup tables for the sRGB conversions so large images stay fast.
+ * Alpha is copied unchanged.
+ * @param output - Pixels to write to, a new array by default. May be `pixels`.
+ * @param start - First pixel (not byte) to simulate, so callers can work in chunks.
+ * @param end - Pixel after the last one to simulate.
+ * @returns The output pixels.
+ */
+export const simulateColorBlindnessPixels = (
+  pixels: Uint8ClampedArray,
+  type: ColorBlindnessType,
+  { algorithm = DEFAULT_CVD_ALGORITHM, severity = DEFAULT_CVD_SEVERITY }: ColorBlindnessOptions = {},
+  output = new Uint8ClampedArray(pixels.length),
+  start = 0,
+  end = pixels.length / 4
+): Uint8ClampedArray => {
+  const [toLinear, toSrgb] = getLookupTables();
+  const { first, second, separationPlaneNormal } = getCvdTransform(
+    colorBlindnessDeficiencies[type],
+    isAnomalousType(type) ? severity : 1,
+    algorithm
+  );
+  const [nr, ng, nb] = separationPlaneNormal ?? [0, 0, 0];
+  const encode = (value: number): number =>
+    toSrgb[value <= 0 ? 0 : value >= 1 ? LINEAR_STEPS : Math.round(value * LINEAR_STEPS)];
+
+  for (let offset = start * 4; offset < end * 4; offset += 4) {
+    const r = toLinear[pixels[offset]];
+    const g = toLinear[pixels[offset + 1]];
+    const b = toLinear[pixels[offset + 2]];
+    const m = r * nr + g * ng + b * nb < 0 ? second : first;
+    output[offset] = encode(m[0] * r + m[1] * g + m[2] * b);
+    output[offset + 1] = encode(m[3] * r + m[4] * g + m[5] * b);
+    output[offset + 2] = encode(m[6] * r + m[7] * g + m[8] * b);
+    output[offset + 3] = pixels[offset + 3];
+  }
+  return output;
+};
@@ -0,0 +1,222 @@
+import { adjustColor, DEFAULT_COLOR_SPACE, fromPolar, toPolar, type ColorSpace } from './color-space';
+import {
+  CONFORMANCE_THRESHOLDS,
+  formatContrastValue,
+  getConformance,
+  getContrastRatio,
+  getLightnessContrast,
+  type ConformanceTarget,
+  type ContrastAlgorithm,
+} from './audit';
+import { derivePairings, suggestRoles, type ColorPairing } from './roles';
+
+/**
+ * Dark theme generation that keeps contrast. Colors are first mapped by the
+ * part they play in the pairings, following dark-mode conventions: surfaces
+ * become dark but never black, neutral text and borders light, and accents keep
+ * their lightness (or mirror it when dark) with less chroma. OKLCH lightness is
+ * then solved one color at a time until every pairing meets the level it meets
+ * in the light theme, moving foregrounds before surfaces.
+ */
+
+export interface DarkThemeOptions {
+  /**
+   * Pairings to keep. Defaults to the ones implied by `suggestRoles`, also
+   * when empty, since no dark theme can keep every pair of colors apart.
+   */
+  pairings?: ColorPairing[];
+  algorithm?: ContrastAlgorithm;
+  /** Space the initial mapping works in */
+  space?: ColorSpace;
+}
+
+/**
+ * A pairing the dark theme couldn't keep at its light theme level.
+ */
+export interface DarkThemeCompromise extends ColorPairing {
+  algorithm: ContrastAlgorithm;
+  /** Level the pair meets in the light theme */
+  required: ConformanceTarget;
+  /** Contrast (ratio or |Lc|) in the light theme */
+  lightValue: number;
+  /** Contrast (ratio or |Lc|) in the dark theme */
+  darkValue: number;
+}
+
+export interface DarkTheme {
+  colors: string[];
+  /** Indices of colors moved away from the conventional mapping to keep contrast */
+  adjusted: number[];
+  /** Pairings still below their light theme level */
+  compromises: DarkThemeCompromise[];
+}
+
+// OKLCH lightness of the darkest surface, about #161616
+const SURFACE_MIN_LIGHTNESS = 0.2;
+// How much of their light theme lightness above 0.8 surfaces keep, so
+// elevated (lighter) surfaces stay lighter than the page
+const SURFACE_ELEVATION = 0.5;
+// Light text stays off-white, which glares less on dark surfaces
+const TEXT_MAX_LIGHTNESS = 0.95;
+// Chroma kept by colors in the dark theme
+const DARK_CHROMA_FACTOR = 0.8;
+// Normalized OKLCH chroma below which a color counts as neutral
+const NEUTRAL_CHROMA = 0.075;
+
+// Lightness search steps
+const COARSE_STEP = 0.04;
+const FINE_STEP = 0.004;
+const MAX_ROUNDS = 4;
+// Lightness changes smaller than this don't count as adjustments
+const ADJUSTMENT_TOLERANCE = 0.01;
+
+type ColorKind = 'foreground' | 'both' | 'surface';
+
+const SOLVE_ORDER: ColorKind[] = ['foreground', 'both', 'surface'];
+
+// Maps a color to the dark theme by convention, before contrast is checked
+const mapColor = (color: string, kind: ColorKind | null, space: ColorSpace): string => {
+  const { l, c, h } = toPolar(color, space);
+  const neutral = toPolar(color, 'oklch').c < NEUTRAL_CHROMA;
+
+  let lightness: number;
+  if (kind === 'surface') {
+    lightness = SURFACE_MIN_LIGHTNESS + Math.max(0, l - 0.8) * SURFACE_ELEVATION;
+  } else if (neutral) {
+    // Dark text becomes light text; mid grays stay visible on dark surfaces
+    lightness = Math.min(TEXT_MAX_LIGHTNESS, 1 - 0.6 * l);
+  } else {
+    lightness = Math.max(l, 1 - l);
+  }
+  return fromPolar({ l: lightness, c: c * DARK_CHROMA_FACTOR, h }, space);
+};
+
+const setLightness = (color: string, lightness: number): string =>
+  adjustColor(color, ({ c }) => ({ l: lightness, c: c > 0.0025 ? c : 0 }), 'oklch');
+
+/**
+ * Generates a dark theme from a light palette that keeps every pairing at or
+ * above the level (AA or AAA) it meets in the light theme, and reports the
+ * colors it had to adjust and the pairings it couldn't keep. Pairings that fail
+ * in the light theme have no level to keep.
+ */
+export const generateDarkTheme = (lightPalette: string[], options: DarkThemeOptions = {}): DarkTheme => {
+  const { algorithm = 'wcag', space = DEFAULT_COLOR_SPACE } = options;
+  const pairings =
+    options.pairings && options.pairings.length > 0
+      ? options.pairings
+      : derivePairings(suggestRoles(lightPalette));
+  const measure = (colors: string[], { foreground, background }: ColorPairing): number =>
+    Math.abs(
+      algorithm === 'apca'
+        ? getLightnessContrast(colors[foreground], colors[background])
+        : getContrastRatio(colors[foreground], colors[background])
+    );
+
+  // Level each pairing meets in the light theme
+  const requirements = pairings.flatMap((pairing) => {
+    const lightValue = measure(lightPalette, pairing);
+    const required = getConformance(lightValue, algorithm)[pairing.usage];
+    if (required === 'Fail') return [];
+    return [{ pairing, required, lightValue, threshold: CONFORMANCE_THRESHOLDS[algorithm][pairing.usage][required] }];
+  });
+
+  const kinds = lightPalette.map((_, index): ColorKind | null => {
+    const isForeground = pairings.some(({ foreground }) => foreground === index);
+    const isBackground = pairings.some(({ background }) => background === index);
+    if (isForeground && isBackground) return 'both';
+    if (isBackground) return 'surface';
+    return isForeground ? 'foreground' : null;
+  });
+  const conventional = lightPalette.map((color, index) => mapColor(color, kinds[index], space));
+  const conventionalLightness = conventional.map((color) => toPolar(color, 'oklch').l);
+  const colors = [...conventional];
+
+  const isMet = ({ pairing, threshold }: (typeof requirements)[number], candidate: string[]) =>
+    measure(candidate, pairing) >= threshold;
+
+  // Foregrounds move first, then colors that are both, then surfaces
+  const order = kinds
+    .flatMap((kind, index) => (kind ? [{ index, kind }] : []))
+    .sort((a, b) => SOLVE_ORDER.indexOf(a.kind) - SOLVE_ORDER.indexOf(b.kind));
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    let changed = false;
+    order.forEach(({ index, kind }) => {
+      const own = requirements.filter(
+        ({ pairing }) => pairing.foreground === index || pairing.background === index
+      );
+      if (own.every((requirement) => isMet(requirement, colors))) return;
+
+      // Lightness that meets the most requirements, then falls least short of
+      // the rest, then stays closest to the conventional mapping. Searched on a
+      // coarse grid first, then finely around the best coarse step.
+      // Anything used as a surface keeps the surface floor
+      const minLightness = kind === 'foreground' ? 0 : SURFACE_MIN_LIGHTNESS;
+      let best = { lightness: 0, color: colors[index], unmet: Infinity, shortfall: Infinity, distance: Infinity };
+      const tryLightness = (lightness: number) => {
+        const candidate = [...colors];
+        candidate[index] = setLightness(conventional[index], lightness);
+        let unmet = 0;
+        let shortfall = 0;
+        own.forEach((requirement) => {
+          const value = measure(candidate, requirement.pairing);
+          if (value < requirement.threshold) {
+            unmet++;
+            shortfall += (requirement.threshold - value) / requirement.threshold;
+          }
+        });
+        const distance = Math.abs(lightness - conventionalLightness[index]);
+        if (
+          unmet < best.unmet ||
+          (unmet === best.unmet && shortfall < best.shortfall - 1e-9) ||
+          (unmet === best.unmet && Math.abs(shortfall - best.shortfall) <= 1e-9 && distance < best.distance)
+        ) {
+          best = { lightness, color: candidate[index], unmet, shortfall, distance };
+        }
+      };
+      for (let lightness = minLightness; lightness < 1 + COARSE_STEP; lightness += COARSE_STEP) {
+        tryLightness(Math.min(1, lightness));
+      }
+      const coarse = best.lightness;
+      for (let lightness = coarse - COARSE_STEP; lightness <= coarse + COARSE_STEP; lightness += FINE_STEP) {
+        if (lightness >= minLightness && lightness <= 1) tryLightness(lightness);
+      }
+      if (best.color !== colors[index]) {
+        colors[index] = best.color;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  return {
+    colors,
+    adjusted: colors
+      .map((_, index) => index)
+      .filter(
+        (index) =>
+          Math.abs(toPolar(colors[index], 'oklch').l - conventionalLightness[index]) > ADJUSTMENT_TOLERANCE
+      ),
+    compromises: requirements
+      .filter((requirement) => !isMet(requirement, colors))
+      .map(({ pairing, required, lightValue }) => ({
+        ...pairing,
+        algorithm,
+        required,
+        lightValue,
+        darkValue: measure(colors, pairing),
+      })),
+  };
+};
+
+/**
+ * Describes a compromise for display, e.g.
+ * "text on accent: 5.17:1 (AA) in light, 4.21:1 in dark".
+ * @param names - Display name of each palette color, by index.
+ */
+export const describeDarkThemeCompromise = (compromise: DarkThemeCompromise, names: string[]): string =>
+  `${names[compromise.foreground]} on ${names[compromise.background]}: ` +
+  `${formatContrastValue({ ratio: compromise.lightValue, lc: compromise.lightValue }, compromise.algorithm)} ` +
+  `(${compromise.required}) in light, ` +
+  `${formatContrastValue({ ratio: compromise.darkValue, lc: compromise.darkValue }, compromise.algorithm)} in dark`;
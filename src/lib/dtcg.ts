@@ -0,0 +1,255 @@
+import chroma from 'chroma-js';
+import { parseCssColor } from './css-color';
+import { getColorTokens, type PaletteColor } from './palette';
+import type { NamedColor } from './palette-parsers';
+import type { ColorScale } from './scales';
+
+/**
+ * W3C Design Tokens Community Group (DTCG) format, as read and written by
+ * Style Dictionary and Tokens Studio.
+ *
+ * Tokens are objects with a `$value`, an optional `$type` (inherited from the
+ * enclosing groups) and `$description`. Values can reference other tokens by
+ * path, e.g. `{color.brand.500}`. Several token sets in one file (Tokens
+ * Studio's light and dark modes) are top-level groups listed in
+ * `$metadata.tokenSetOrder`.
+ */
+
+/**
+ * A color token read from a DTCG file, named after its path (`brand-500`).
+ */
+export interface DesignToken extends NamedColor {
+  /** Path of the token within its set */
+  path: string[];
+  description?: string;
+}
+
+export interface DesignTokenSet {
+  /** Set name, empty for files without token sets */
+  name: string;
+  tokens: DesignToken[];
+}
+
+// Ordered JSON tree, so tokens keep palette order (object keys like "2" would
+// otherwise be hoisted to the front)
+type TokenTree = string | TokenTree[] | Map<string, TokenTree>;
+
+const stringifyTree = (node: TokenTree, indent = ''): string => {
+  if (typeof node === 'string') return JSON.stringify(node);
+  if (Array.isArray(node)) {
+    if (node.every((item) => typeof item === 'string')) return JSON.stringify(node);
+    return `[\n${node.map((item) => `${indent}  ${stringifyTree(item, `${indent}  `)}`).join(',\n')}\n${indent}]`;
+  }
+  const entries = [...node].map(
+    ([key, child]) => `${indent}  ${JSON.stringify(key)}: ${stringifyTree(child, `${indent}  `)}`
+  );
+  return `{\n${entries.join(',\n')}\n${indent}}`;
+};
+
+const colorToken = (hex: string, description?: string): TokenTree => {
+  const token = new Map<string, TokenTree>([['$value', hex]]);
+  if (description) token.set('$description', description);
+  return token;
+};
+
+// A color group: `$type` once, then a token per palette color
+const paletteGroup = (palette: PaletteColor[]): Map<string, TokenTree> => {
+  const tokens = getColorTokens(palette);
+  const group = new Map<string, TokenTree>([['$type', 'color']]);
+  palette.forEach((color, index) => group.set(tokens[index], colorToken(color.hex, color.description)));
+  return group;
+};
+
+/**
+ * Exports a palette as a DTCG group named after the palette.
+ */
+export const paletteToDtcg = (palette: PaletteColor[], name: string): string =>
+  stringifyTree(new Map([[name, paletteGroup(palette)]]));
+
+/**
+ * Exports palette variants as token sets with the same token paths, plus the
+ * Tokens Studio metadata and a theme per set, so modes can be switched.
+ */
+export const paletteVariantsToDtcg = (variants: { name: string; palette: PaletteColor[] }[]): string => {
+  const document = new Map<string, TokenTree>(variants.map(({ name, palette }) => [name, paletteGroup(palette)]));
+  const names = variants.map(({ name }) => name);
+  document.set('$metadata', new Map([['tokenSetOrder', names]]));
+  document.set(
+    '$themes',
+    names.map(
+      (name) =>
+        new Map<string, TokenTree>([
+          ['id', name],
+          ['name', name],
+          ['selectedTokenSets', new Map([[name, 'enabled']])],
+        ])
+    )
+  );
+  return stringifyTree(document);
+};
+
+/**
+ * Exports tonal scales as a DTCG group, one subgroup of 50–950 steps per color.
+ */
+export const scalesToDtcg = (scales: ColorScale[], name: string): string => {
+  const group = new Map<string, TokenTree>([['$type', 'color']]);
+  scales.forEach(({ token, steps }) => {
+    group.set(token, new Map(steps.map(({ step, hex }) => [String(step), colorToken(hex)])));
+  });
+  return stringifyTree(new Map([[name, group]]));
+};
+
+interface RawToken {
+  path: string[];
+  value: unknown;
+  type?: string;
+  description?: string;
+}
+
+const ALIAS = /^\{([^{}]+)\}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Token leaves keep their value in `$value`, or `value` in older Tokens Studio files
+const isToken = (node: Record<string, unknown>): boolean => '$value' in node || 'value' in node;
+
+// Walks a group, collecting tokens with the `$type` they inherit
+const collectTokens = (node: unknown, path: string[], inheritedType: string | undefined, tokens: RawToken[]) => {
+  if (!isRecord(node)) return;
+  const ownType = node.$type ?? (isToken(node) ? node.type : undefined);
+  const type = typeof ownType === 'string' ? ownType : inheritedType;
+
+  if (isToken(node)) {
+    const description = node.$description ?? node.description;
+    tokens.push({
+      path,
+      value: node.$value ?? node.value,
+      type,
+      description: typeof description === 'string' ? description : undefined,
+    });
+    return;
+  }
+  Object.entries(node).forEach(([key, child]) => {
+    if (!key.startsWith('$')) collectTokens(child, [...path, key], type, tokens);
+  });
+};
+
+// Converts a literal color value: a CSS color string, or the DTCG object form
+// `{ colorSpace, components, alpha, hex }`
+const toHex = (value: unknown): string | null => {
+  if (typeof value === 'string') {
+    return parseCssColor(value.trim());
+  }
+  if (!isRecord(value)) return null;
+  if (typeof value.hex === 'string') return toHex(value.hex);
+
+  const components = value.components;
+  if (!Array.isArray(components) || components.length < 3 || !components.every((c) => typeof c === 'number')) {
+    return null;
+  }
+  const [a, b, c] = components as number[];
+  const alpha = typeof value.alpha === 'number' ? value.alpha : 1;
+  switch (value.colorSpace) {
+    case 'srgb':
+      return chroma.gl(a, b, c, alpha).hex();
+    case 'hsl':
+      return chroma.hsl(a, b / 100, c / 100).alpha(alpha).hex();
+    case 'oklab':
+      return chroma.oklab(a, b, c).alpha(alpha).hex();
+    case 'oklch':
+      return chroma.oklch(a, b, c).alpha(alpha).hex();
+    case 'lab':
+      return chroma.lab(a, b, c).alpha(alpha).hex();
+    case 'lch':
+      return chroma.lch(a, b, c).alpha(alpha).hex();
+    default:
+      return null;
+  }
+};
+
+// Reads the token sets of a document: the groups in `$metadata.tokenSetOrder`,
+// or the whole document as a single unnamed set
+const getSets = (document: Record<string, unknown>): { name: string; root: unknown }[] => {
+  const order = isRecord(document.$metadata) ? document.$metadata.tokenSetOrder : undefined;
+  if (Array.isArray(order)) {
+    const names = order.filter((name): name is string => typeof name === 'string' && isRecord(document[name]));
+    if (names.length > 0) return names.map((name) => ({ name, root: document[name] }));
+  }
+  return [{ name: '', root: document }];
+};
+
+/**
+ * True when a parsed JSON document holds design tokens (any `$value`).
+ */
+export const isDesignTokenDocument = (document: unknown): boolean => {
+  if (Array.isArray(document)) return document.some(isDesignTokenDocument);
+  if (!isRecord(document)) return false;
+  return '$value' in document || Object.values(document).some(isDesignTokenDocument);
+};
+
+/**
+ * Reads the color tokens of a DTCG document, set by set. Aliases are resolved
+ * against the set itself first, then the other sets, as Tokens Studio does.
+ * Tokens typed as something other than color, and unresolvable aliases, are
+ * skipped.
+ */
+export const readDesignTokens = (document: unknown): DesignTokenSet[] => {
+  if (!isRecord(document)) return [];
+
+  const sets = getSets(document).map(({ name, root }) => {
+    const tokens: RawToken[] = [];
+    collectTokens(root, [], undefined, tokens);
+    return { name, tokens };
+  });
+  const shared = new Map(sets.flatMap(({ tokens }) => tokens.map((token) => [token.path.join('.'), token])));
+
+  return sets.map(({ name, tokens }) => {
+    const lookup = new Map([...shared, ...tokens.map((token): [string, RawToken] => [token.path.join('.'), token])]);
+
+    const resolve = (token: RawToken, seen: Set<RawToken>): RawToken | null => {
+      const alias = typeof token.value === 'string' ? ALIAS.exec(token.value.trim()) : null;
+      if (!alias) return token;
+      const target = lookup.get(alias[1]);
+      if (!target || seen.has(target)) return null;
+      return resolve(target, new Set([...seen, token]));
+    };
+
+    const colors: DesignToken[] = [];
+    tokens.forEach((token) => {
+      const resolved = resolve(token, new Set());
+      if (!resolved) return;
+      const type = token.type ?? resolved.type;
+      if (type !== undefined && type !== 'color') return;
+      const color = toHex(resolved.value);
+      if (!color) return;
+      colors.push({
+        name: token.path.join('-'),
+        path: token.path,
+        color,
+        ...(token.description ? { description: token.description } : {}),
+      });
+    });
+    return { name, tokens: colors };
+  });
+};
+
+/**
+ * Parses a DTCG JSON file into token sets.
+ * Throws when the content isn't valid JSON.
+ */
+export const parseDesignTokens = (text: string): DesignTokenSet[] => readDesignTokens(JSON.parse(text));
+
+/**
+ * Drops the leading group shared by every token, e.g. the palette name an
+ * export nests its colors under, so `myPalette-brand` imports as `brand`.
+ */
+export const trimSharedGroup = (tokens: DesignToken[]): DesignToken[] => {
+  const group = tokens[0]?.path[0];
+  const shared = tokens.every((token) => token.path.length > 1 && token.path[0] === group);
+  if (!shared) return tokens;
+  return tokens.map((token) => {
+    const path = token.path.slice(1);
+    return { ...token, path, name: path.join('-') };
+  });
+};
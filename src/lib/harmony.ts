@@ -0,0 +1,187 @@
+import { toPolar } from './color-space';
+
+/**
+ * Color-theory harmony analysis. Colors are placed on the OKLCH hue wheel,
+ * where equal angles look equally far apart, and fitted to the schemes
+ * `generateColorHarmony` produces. Lightness and chroma balance are scored
+ * alongside the hue fit.
+ */
+
+export type HarmonyScheme =
+  | 'monochromatic'
+  | 'analogous'
+  | 'complementary'
+  | 'splitComplementary'
+  | 'triadic'
+  | 'tetradic';
+
+export const harmonySchemeLabels: Record<HarmonyScheme, string> = {
+  monochromatic: 'Monochromatic',
+  analogous: 'Analogous',
+  complementary: 'Complementary',
+  splitComplementary: 'Split-complementary',
+  triadic: 'Triadic',
+  tetradic: 'Tetradic',
+};
+
+// Hue offsets of each scheme from its base hue. Ties go to the earlier scheme,
+// so two opposite hues are complementary rather than tetradic
+const SCHEME_HUES: [HarmonyScheme, number[]][] = [
+  ['monochromatic', [0]],
+  ['complementary', [0, 180]],
+  ['analogous', [-60, -30, 0, 30, 60]],
+  ['splitComplementary', [0, 150, 210]],
+  ['triadic', [0, 120, 240]],
+  ['tetradic', [0, 90, 180, 270]],
+];
+
+// Normalized OKLCH chroma below which a color counts as neutral and has no
+// meaningful hue (0.03 in raw OKLCH)
+const NEUTRAL_CHROMA = 0.075;
+
+// Deviation that scores 0 for the hue fit, and up to which a scheme is "near"
+const MAX_DEVIATION = 30;
+// Deviation a color may have and still sit exactly on the scheme
+const ON_SCHEME_DEVIATION = 5;
+
+// Lightness range, as OKLCH L, that scores full marks for lightness balance
+const FULL_LIGHTNESS_RANGE = 0.5;
+
+/**
+ * Where one palette color sits relative to the detected scheme.
+ */
+export interface HarmonyColor {
+  color: string;
+  /** OKLCH hue in degrees, or null for neutrals */
+  hue: number | null;
+  /** Degrees from the nearest hue of the scheme, 0 for neutrals */
+  deviation: number;
+}
+
+export interface HarmonyAnalysis {
+  /** Scheme the hues fit best */
+  scheme: HarmonyScheme;
+  /** Base hue the scheme is anchored at, in degrees */
+  baseHue: number;
+  colors: HarmonyColor[];
+  /** Mean deviation of the chromatic colors, in degrees */
+  deviation: number;
+  /** 0-100 fit of the hues to the scheme */
+  hueScore: number;
+  /** 0-100 spread of lightness, so the palette has light and dark colors */
+  lightnessScore: number;
+  /** 0-100 consistency of chroma among the chromatic colors */
+  chromaScore: number;
+  /** 0-100 overall harmony, weighted towards the hue fit */
+  score: number;
+}
+
+// Shortest angle between two hues
+const hueDistance = (a: number, b: number): number => {
+  const difference = Math.abs((((a - b) % 360) + 360) % 360);
+  return Math.min(difference, 360 - difference);
+};
+
+const normalizeHue = (hue: number): number => ((hue % 360) + 360) % 360;
+
+const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Fits hues to a scheme. The best base hue lines one of the hues up with one of
+// the scheme's hues, so only those alignments are tried.
+const fitScheme = (hues: number[], offsets: number[]): { baseHue: number; deviations: number[] } => {
+  let best = { baseHue: hues[0] ?? 0, deviations: hues.map(() => 0), total: Infinity };
+  hues.forEach((hue) => {
+    offsets.forEach((offset) => {
+      const baseHue = normalizeHue(hue - offset);
+      const deviations = hues.map((other) =>
+        Math.min(...offsets.map((candidate) => hueDistance(other, baseHue + candidate)))
+      );
+      const total = deviations.reduce((sum, deviation) => sum + deviation, 0);
+      if (total < best.total - 1e-9) best = { baseHue, deviations, total };
+    });
+  });
+  return best;
+};
+
+const clampScore = (score: number): number => Math.round(Math.min(100, Math.max(0, score)));
+
+/**
+ * Detects the harmony scheme closest to a palette's hues and scores how well
+ * it fits, with lightness and chroma balance. Neutral colors fit any scheme.
+ * Palettes with fewer than two colors score 100.
+ */
+export const analyzeHarmony = (palette: string[]): HarmonyAnalysis => {
+  const polar = palette.map((color) => {
+    try {
+      return toPolar(color, 'oklch');
+    } catch {
+      return { l: 0, c: 0, h: 0 };
+    }
+  });
+  const chromatic = polar
+    .map((color, index) => ({ ...color, index }))
+    .filter(({ c }) => c >= NEUTRAL_CHROMA);
+  const hues = chromatic.map(({ h }) => h);
+
+  const fits = SCHEME_HUES.map(([scheme, offsets]) => ({ scheme, ...fitScheme(hues, offsets) }));
+  const best = fits.reduce((closest, fit) =>
+    mean(fit.deviations) < mean(closest.deviations) - 1e-9 ? fit : closest
+  );
+
+  const colors: HarmonyColor[] = palette.map((color, index) => {
+    const chromaticIndex = chromatic.findIndex((entry) => entry.index === index);
+    return chromaticIndex === -1
+      ? { color, hue: null, deviation: 0 }
+      : {
+          color,
+          hue: Math.round(hues[chromaticIndex]),
+          deviation: Math.round(best.deviations[chromaticIndex]),
+        };
+  });
+
+  const deviation = mean(best.deviations);
+  const lightness = polar.map(({ l }) => l);
+  const lightnessRange = lightness.length > 0 ? Math.max(...lightness) - Math.min(...lightness) : 0;
+  const chromas = chromatic.map(({ c }) => c);
+  const chromaMean = mean(chromas);
+  const chromaSpread = Math.sqrt(mean(chromas.map((c) => (c - chromaMean) ** 2)));
+
+  const hueScore = clampScore(100 * (1 - deviation / MAX_DEVIATION));
+  const lightnessScore = clampScore((100 * lightnessRange) / FULL_LIGHTNESS_RANGE);
+  const chromaScore = chromaMean === 0 ? 100 : clampScore(100 * (1 - chromaSpread / chromaMean));
+
+  return {
+    scheme: best.scheme,
+    baseHue: Math.round(best.baseHue),
+    colors,
+    deviation: Math.round(deviation),
+    hueScore,
+    lightnessScore,
+    chromaScore,
+    score: palette.length < 2 ? 100 : clampScore(0.6 * hueScore + 0.2 * lightnessScore + 0.2 * chromaScore),
+  };
+};
+
+/**
+ * Gets the colors whose hue is noticeably off the detected scheme.
+ */
+export const getOffSchemeColors = (analysis: HarmonyAnalysis): string[] =>
+  analysis.colors.filter(({ deviation }) => deviation > ON_SCHEME_DEVIATION).map(({ color }) => color);
+
+/**
+ * Describes the detected scheme and its worst color, e.g.
+ * "Near-triadic, color 3 is 18° off". Colors are numbered from 1.
+ */
+export const describeHarmony = (analysis: HarmonyAnalysis): string => {
+  const label = harmonySchemeLabels[analysis.scheme];
+  const worst = analysis.colors.reduce(
+    (worstIndex, color, index) => (color.deviation > analysis.colors[worstIndex].deviation ? index : worstIndex),
+    0
+  );
+  const worstDeviation = analysis.colors[worst]?.deviation ?? 0;
+
+  if (worstDeviation <= ON_SCHEME_DEVIATION) return label;
+  if (analysis.deviation > MAX_DEVIATION) return `No clear scheme, closest is ${label.toLowerCase()}`;
+  return `Near-${label.toLowerCase()}, color ${worst + 1} is ${worstDeviation}° off`;
+};
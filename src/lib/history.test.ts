@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COALESCE_WINDOW_MS,
+  canRedo,
+  canUndo,
+  createHistory,
+  getPresent,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from './history';
+
+describe('history', () => {
+  const start = createHistory('a', 'Open');
+
+  it('undoes and redoes recorded steps', () => {
+    const history = recordHistory(recordHistory(start, 'b', { label: 'Edit' }), 'c', { label: 'Edit' });
+    expect(getPresent(history)).toBe('c');
+
+    const undone = undoHistory(undoHistory(history));
+    expect(getPresent(undone)).toBe('a');
+    expect(canUndo(undone)).toBe(false);
+    expect(getPresent(undoHistory(undone))).toBe('a');
+
+    const redone = redoHistory(undone);
+    expect(getPresent(redone)).toBe('b');
+    expect(canRedo(redone)).toBe(true);
+  });
+
+  it('drops the redo steps when recording after an undo', () => {
+    const history = recordHistory(undoHistory(recordHistory(start, 'b', { label: 'Edit' })), 'c', {
+      label: 'Edit',
+    });
+    expect(history.entries.map(({ state }) => state)).toEqual(['a', 'c']);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('ignores unchanged states', () => {
+    expect(recordHistory(start, 'a', { label: 'Edit' })).toBe(start);
+  });
+
+  it('merges steps with the same coalesce key inside the window', () => {
+    const drag = { label: 'Edit color', coalesceKey: 'color-1' };
+    let history = recordHistory(start, 'b', drag, 1000);
+    history = recordHistory(history, 'c', drag, 1000 + COALESCE_WINDOW_MS / 2);
+    history = recordHistory(history, 'd', drag, 1000 + COALESCE_WINDOW_MS);
+
+    expect(history.entries.map(({ state }) => state)).toEqual(['a', 'd']);
+    expect(getPresent(undoHistory(history))).toBe('a');
+  });
+
+  it('keeps steps apart outside the window or with another key', () => {
+    const drag = { label: 'Edit color', coalesceKey: 'color-1' };
+    let history = recordHistory(start, 'b', drag, 1000);
+    history = recordHistory(history, 'c', drag, 1000 + COALESCE_WINDOW_MS + 1);
+    history = recordHistory(history, 'd', { label: 'Edit color', coalesceKey: 'color-2' }, 1000 + COALESCE_WINDOW_MS + 2);
+
+    expect(history.entries.map(({ state }) => state)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
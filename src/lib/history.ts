@@ -0,0 +1,92 @@
+/**
+ * Undo history as a linear list of snapshots with a cursor, so the whole
+ * history can be listed and any step jumped to. Undo moves the cursor back;
+ * recording a new step drops the steps after the cursor.
+ */
+
+export interface HistoryAction {
+  /** Shown in the history list, e.g. "Edit color" */
+  label: string;
+  /**
+   * Consecutive steps with the same key, recorded close together, merge into
+   * one (e.g. every change while dragging a color picker).
+   */
+  coalesceKey?: string;
+}
+
+export interface HistoryEntry<T> extends HistoryAction {
+  state: T;
+  timestamp: number;
+}
+
+export interface History<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+/** Steps older than this many are dropped */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/** Window in which steps with the same coalesce key merge */
+export const COALESCE_WINDOW_MS = 1000;
+
+export const createHistory = <T>(state: T, label: string): History<T> => ({
+  entries: [{ state, label, timestamp: Date.now() }],
+  index: 0,
+});
+
+export const getPresent = <T>(history: History<T>): T => history.entries[history.index].state;
+
+export const canUndo = <T>(history: History<T>): boolean => history.index > 0;
+
+export const canRedo = <T>(history: History<T>): boolean =>
+  history.index < history.entries.length - 1;
+
+/**
+ * Records a new state as the next step. Unchanged states are ignored.
+ */
+export const recordHistory = <T>(
+  history: History<T>,
+  state: T,
+  action: HistoryAction,
+  now: number = Date.now()
+): History<T> => {
+  const present = history.entries[history.index];
+  if (state === present.state) return history;
+
+  const kept = history.entries.slice(0, history.index + 1);
+  const coalesce =
+    action.coalesceKey !== undefined &&
+    history.index > 0 &&
+    !canRedo(history) &&
+    present.coalesceKey === action.coalesceKey &&
+    now - present.timestamp <= COALESCE_WINDOW_MS;
+
+  if (coalesce) {
+    kept[kept.length - 1] = { ...present, state, timestamp: now };
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  const entries = [...kept, { ...action, state, timestamp: now }].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+/**
+ * Replaces the present state without recording a step, for changes that
+ * shouldn't be undone on their own (e.g. a version bump on save).
+ */
+export const replacePresent = <T>(history: History<T>, state: T): History<T> => ({
+  ...history,
+  entries: history.entries.map((entry, index) =>
+    index === history.index ? { ...entry, state } : entry
+  ),
+});
+
+export const jumpToHistory = <T>(history: History<T>, index: number): History<T> =>
+  index >= 0 && index < history.entries.length ? { ...history, index } : history;
+
+export const undoHistory = <T>(history: History<T>): History<T> =>
+  jumpToHistory(history, history.index - 1);
+
+export const redoHistory = <T>(history: History<T>): History<T> =>
+  jumpToHistory(history, history.index + 1);
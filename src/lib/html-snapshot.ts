@@ -0,0 +1,541 @@
+import { parseCssColor } from './css-color';
+import {
+  auditStyledTree,
+  collapseWhitespace,
+  getSelectorStep,
+  type NodeStyle,
+  type PageAuditOptions,
+  type PageContrastResult,
+  type StyledNode,
+} from './page-audit';
+
+/**
+ * Static HTML snapshots: a small HTML parser and CSS cascade, enough to style a
+ * saved page for the page audit without a browser.
+ *
+ * Supported: type, class, id, attribute, `*`, `:root`, `:first-child` and
+ * `:last-child` selectors with descendant and child combinators, specificity,
+ * `!important`, inline styles, inheritance and custom properties with `var()`,
+ * layered over the browser defaults for heading sizes and bold text.
+ * Rules inside at-rules (`@media`, `@supports`, ...) and selectors with other
+ * pseudo-classes (`:hover`) don't apply, since a snapshot has no viewport or
+ * interaction. Use `readDomTree` with jsdom or a browser for full fidelity.
+ */
+
+interface SnapshotElement {
+  tagName: string;
+  attributes: Map<string, string>;
+  children: (SnapshotElement | string)[];
+  parent: SnapshotElement | null;
+}
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+// Elements whose content is raw text rather than markup
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Elements that never render text
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'template', 'noscript', 'svg']);
+
+// Opening a tag in this list closes an open element of the same kind
+const SELF_NESTING_TAGS = new Set(['p', 'li', 'option', 'tr', 'td', 'th', 'dt', 'dd']);
+
+// Block elements that close an open paragraph
+const CLOSES_PARAGRAPH = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'details',
+  'div',
+  'dl',
+  'fieldset',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const parseAttributes = (source: string): Map<string, string> => {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes.set(match[1].toLowerCase(), decodeEntities(match[2] ?? match[3] ?? match[4] ?? ''));
+  }
+  return attributes;
+};
+
+// Parses HTML into an element tree, collecting the contents of <style> elements
+const parseHtml = (html: string): { root: SnapshotElement; styles: string[] } => {
+  const root: SnapshotElement = { tagName: '#document', attributes: new Map(), children: [], parent: null };
+  const styles: string[] = [];
+  const tag = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+  let current = root;
+  let position = 0;
+
+  const addText = (text: string) => {
+    if (text) current.children.push(decodeEntities(text));
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(html)) !== null) {
+    addText(html.slice(position, match.index));
+    position = tag.lastIndex;
+    const [, closing, opening, attributes, selfClosing] = match;
+
+    if (closing) {
+      const name = closing.toLowerCase();
+      // Close up to the matching element; stray closing tags are ignored
+      for (let element: SnapshotElement | null = current; element; element = element.parent) {
+        if (element.tagName === name) {
+          current = element.parent ?? root;
+          break;
+        }
+      }
+      continue;
+    }
+    if (!opening) continue; // Comment, doctype or CDATA
+
+    const name = opening.toLowerCase();
+    if (SELF_NESTING_TAGS.has(name) && current.tagName === name) current = current.parent ?? root;
+    if (CLOSES_PARAGRAPH.has(name) && current.tagName === 'p') current = current.parent ?? root;
+    const element: SnapshotElement = {
+      tagName: name,
+      attributes: parseAttributes(attributes),
+      children: [],
+      parent: current,
+    };
+    current.children.push(element);
+
+    if (RAW_TEXT_TAGS.has(name)) {
+      const end = html.toLowerCase().indexOf(`</${name}`, position);
+      const content = html.slice(position, end === -1 ? html.length : end);
+      if (name === 'style') styles.push(content);
+      else element.children.push(decodeEntities(content));
+      position = end === -1 ? html.length : html.indexOf('>', end) + 1;
+      tag.lastIndex = position;
+      continue;
+    }
+    if (!selfClosing && !VOID_TAGS.has(name)) current = element;
+  }
+  addText(html.slice(position));
+  return { root, styles };
+};
+
+/**
+ * Gets the `href` of every `<link rel="stylesheet">` in a document, in order,
+ * so callers can load them and pass them to `parseHtmlSnapshot`.
+ */
+export const getStylesheetLinks = (html: string): string[] => {
+  const links: string[] = [];
+  for (const match of html.matchAll(/<link\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(match[1]);
+    const rel = (attributes.get('rel') ?? '').toLowerCase().split(/\s+/);
+    const href = attributes.get('href');
+    if (rel.includes('stylesheet') && href) links.push(href);
+  }
+  return links;
+};
+
+type Combinator = ' ' | '>';
+
+interface AttributeCondition {
+  name: string;
+  operator?: string;
+  value?: string;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeCondition[];
+  pseudo: ('root' | 'first-child' | 'last-child')[];
+}
+
+interface ComplexSelector {
+  /** Compounds from left to right, each with the combinator before it */
+  parts: { compound: CompoundSelector; combinator: Combinator }[];
+  specificity: [number, number, number];
+}
+
+const COMPOUND_TOKEN =
+  /^(?:(\*|[a-zA-Z][\w-]*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w-]+)\s*(?:([~|^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]|:(root|first-child|last-child))/;
+
+// Parses a compound selector like `a.button[href]`. Unsupported parts (other
+// pseudo-classes, pseudo-elements) make the whole selector unsupported.
+const parseCompound = (source: string): CompoundSelector | null => {
+  const compound: CompoundSelector = { classes: [], attributes: [], pseudo: [] };
+  let rest = source;
+  while (rest) {
+    const match = COMPOUND_TOKEN.exec(rest);
+    if (!match) return null;
+    if (match[1]) compound.tag = match[1] === '*' ? undefined : match[1].toLowerCase();
+    if (match[2]) compound.id = match[2];
+    if (match[3]) compound.classes.push(match[3]);
+    if (match[4]) {
+      compound.attributes.push({
+        name: match[4].toLowerCase(),
+        operator: match[5],
+        value: match[6] ?? match[7] ?? match[8],
+      });
+    }
+    if (match[9]) compound.pseudo.push(match[9] as CompoundSelector['pseudo'][number]);
+    rest = rest.slice(match[0].length);
+  }
+  return compound;
+};
+
+const parseSelector = (source: string): ComplexSelector | null => {
+  const tokens = source.trim().replace(/\s*>\s*/g, ' > ').split(/\s+/);
+  const parts: ComplexSelector['parts'] = [];
+  const specificity: [number, number, number] = [0, 0, 0];
+  let combinator: Combinator = ' ';
+
+  for (const token of tokens) {
+    if (token === '>') {
+      combinator = '>';
+      continue;
+    }
+    const compound = parseCompound(token);
+    if (!compound) return null;
+    specificity[0] += compound.id ? 1 : 0;
+    specificity[1] += compound.classes.length + compound.attributes.length + compound.pseudo.length;
+    specificity[2] += compound.tag ? 1 : 0;
+    parts.push({ compound, combinator });
+    combinator = ' ';
+  }
+  return parts.length > 0 ? { parts, specificity } : null;
+};
+
+const elementChildren = (element: SnapshotElement | null): SnapshotElement[] =>
+  (element?.children ?? []).filter((child): child is SnapshotElement => typeof child !== 'string');
+
+const matchesAttribute = (element: SnapshotElement, { name, operator, value = '' }: AttributeCondition): boolean => {
+  const actual = element.attributes.get(name);
+  if (actual === undefined) return false;
+  switch (operator) {
+    case undefined:
+      return true;
+    case '=':
+      return actual === value;
+    case '~=':
+      return actual.split(/\s+/).includes(value);
+    case '|=':
+      return actual === value || actual.startsWith(`${value}-`);
+    case '^=':
+      return value !== '' && actual.startsWith(value);
+    case '$=':
+      return value !== '' && actual.endsWith(value);
+    default:
+      return value !== '' && actual.includes(value); // *=
+  }
+};
+
+const matchesCompound = (element: SnapshotElement, compound: CompoundSelector): boolean => {
+  if (compound.tag && element.tagName !== compound.tag) return false;
+  if (compound.id && element.attributes.get('id') !== compound.id) return false;
+  const classes = (element.attributes.get('class') ?? '').split(/\s+/);
+  if (!compound.classes.every((name) => classes.includes(name))) return false;
+  if (!compound.attributes.every((condition) => matchesAttribute(element, condition))) return false;
+  return compound.pseudo.every((pseudo) => {
+    if (pseudo === 'root') return element.parent?.tagName === '#document';
+    const siblings = elementChildren(element.parent);
+    return pseudo === 'first-child' ? siblings[0] === element : siblings[siblings.length - 1] === element;
+  });
+};
+
+// Matches right to left, trying every ancestor for descendant combinators
+const matchesSelector = (element: SnapshotElement, { parts }: ComplexSelector, index = parts.length - 1): boolean => {
+  if (!matchesCompound(element, parts[index].compound)) return false;
+  if (index === 0) return true;
+  const { combinator } = parts[index];
+  for (let ancestor = element.parent; ancestor && ancestor.tagName !== '#document'; ancestor = ancestor.parent) {
+    if (matchesSelector(ancestor, { parts, specificity: [0, 0, 0] }, index - 1)) return true;
+    if (combinator === '>') return false;
+  }
+  return false;
+};
+
+interface Declaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface StyleRule {
+  selectors: ComplexSelector[];
+  declarations: Declaration[];
+  order: number;
+}
+
+// Splits on a separator outside parentheses and quotes
+const splitTopLevel = (source: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(source.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(source.slice(start));
+  return parts;
+};
+
+const parseDeclarations = (source: string): Declaration[] =>
+  splitTopLevel(source, ';').flatMap((declaration) => {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) return [];
+    const property = declaration.slice(0, colon).trim();
+    const rawValue = declaration.slice(colon + 1).trim();
+    const important = /!\s*important$/i.test(rawValue);
+    const value = important ? rawValue.replace(/!\s*important$/i, '').trim() : rawValue;
+    if (!property || !value) return [];
+    return [{ property: property.startsWith('--') ? property : property.toLowerCase(), value, important }];
+  });
+
+// Reads the top-level rules of a stylesheet; at-rule blocks are skipped
+const parseStylesheet = (css: string, rules: StyleRule[]) => {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let position = 0;
+
+  while (position < source.length) {
+    const open = source.indexOf('{', position);
+    const semicolon = source.indexOf(';', position);
+    if (open === -1) break;
+
+    const prelude = source.slice(position, open).trim();
+    // Statement at-rules such as @import or @charset end before the next block
+    if (prelude.startsWith('@') && semicolon !== -1 && semicolon < open) {
+      position = semicolon + 1;
+      continue;
+    }
+
+    // Find the matching closing brace
+    let depth = 1;
+    let end = open + 1;
+    while (end < source.length && depth > 0) {
+      if (source[end] === '{') depth++;
+      if (source[end] === '}') depth--;
+      end++;
+    }
+    position = end;
+    if (prelude.startsWith('@')) continue;
+
+    const selectors = splitTopLevel(prelude, ',')
+      .map(parseSelector)
+      .filter((selector): selector is ComplexSelector => selector !== null);
+    if (selectors.length > 0) {
+      rules.push({ selectors, declarations: parseDeclarations(source.slice(open + 1, end - 1)), order: rules.length });
+    }
+  }
+};
+
+// Compares specificities, highest first
+const compareSpecificity = (a: [number, number, number], b: [number, number, number]): number =>
+  a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+
+// Substitutes var() references with custom property values
+const resolveVariables = (value: string, variables: Map<string, string>, depth = 0): string => {
+  if (depth > 10 || !value.includes('var(')) return value;
+  const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\)[^()]*)*))?\)/g, (_, name: string, fallback?: string) =>
+    variables.get(name) ?? fallback?.trim() ?? ''
+  );
+  return resolveVariables(resolved, variables, depth + 1);
+};
+
+// The color layer of a `background` shorthand, transparent when it has none
+const getBackgroundColor = (value: string): string =>
+  splitTopLevel(value.trim(), ' ')
+    .map((part) => part.trim())
+    .find((part) => part && parseCssColor(part) !== null) ?? 'transparent';
+
+// Font size and weight from a `font` shorthand, e.g. `bold 1.25rem/1.5 sans-serif`
+const readFontShorthand = (value: string): { fontSize?: string; fontWeight?: string } => {
+  const match = /(?:^|\s)((?:\d*\.?\d+)(?:px|em|rem|%|pt)|(?:xx?x?-)?(?:small|large)|medium)(?:\/\S+)?\s/i.exec(`${value} `);
+  if (!match) return {};
+  const weight = /(?:^|\s)(bold|bolder|lighter|[1-9]00)(?=\s)/i.exec(value.slice(0, match.index + 1));
+  return { fontSize: match[1], fontWeight: weight?.[1] ?? 'normal' };
+};
+
+// The browser defaults the audit reads: heading sizes, and the elements that
+// are bold without author styles
+const USER_AGENT_STYLESHEET = `
+  h1 { font-size: 2em; font-weight: bold }
+  h2 { font-size: 1.5em; font-weight: bold }
+  h3 { font-size: 1.17em; font-weight: bold }
+  h4 { font-size: 1em; font-weight: bold }
+  h5 { font-size: 0.83em; font-weight: bold }
+  h6 { font-size: 0.67em; font-weight: bold }
+  b, strong, th { font-weight: bold }
+`;
+
+const userAgentRules: StyleRule[] = [];
+parseStylesheet(USER_AGENT_STYLESHEET, userAgentRules);
+
+/**
+ * Parses an HTML snapshot and its stylesheets into a styled tree for
+ * `auditStyledTree`. `<style>` elements in the document apply after the
+ * given stylesheets, as they would for linked sheets in the head.
+ */
+export const parseHtmlSnapshot = (html: string, stylesheets: string[] = []): StyledNode => {
+  const { root, styles } = parseHtml(html);
+  const rules: StyleRule[] = [];
+  [...stylesheets, ...styles].forEach((css) => parseStylesheet(css, rules));
+
+  // Custom properties and `visibility` inherit; the audit inherits the rest
+  const build = (
+    element: SnapshotElement,
+    selector: string,
+    inheritedVariables: Map<string, string>,
+    inheritedVisibility: string
+  ): StyledNode => {
+    // Cascade: importance, then author over browser defaults, then inline
+    // styles, then specificity, then order
+    const matched = [
+      ...userAgentRules.map((rule) => ({ rule, author: false })),
+      ...rules.map((rule) => ({ rule, author: true })),
+    ].flatMap(({ rule: { selectors, declarations, order }, author }) => {
+      const matching = selectors.filter((candidate) => matchesSelector(element, candidate));
+      if (matching.length === 0) return [];
+      const specificity = matching
+        .map((candidate) => candidate.specificity)
+        .reduce((highest, candidate) => (compareSpecificity(candidate, highest) > 0 ? candidate : highest));
+      return declarations.map((declaration) => ({ declaration, specificity, order, author, inline: false }));
+    });
+    const inline = parseDeclarations(element.attributes.get('style') ?? '').map((declaration) => ({
+      declaration,
+      specificity: [0, 0, 0] as [number, number, number],
+      order: Infinity,
+      author: true,
+      inline: true,
+    }));
+    const cascaded = [...matched, ...inline].sort(
+      (a, b) =>
+        Number(a.declaration.important) - Number(b.declaration.important) ||
+        Number(a.author) - Number(b.author) ||
+        Number(a.inline) - Number(b.inline) ||
+        compareSpecificity(a.specificity, b.specificity) ||
+        a.order - b.order
+    );
+
+    const variables = new Map(inheritedVariables);
+    cascaded.forEach(({ declaration }) => {
+      if (declaration.property.startsWith('--')) variables.set(declaration.property, declaration.value);
+    });
+    const declared = new Map<string, string>();
+    cascaded.forEach(({ declaration: { property, value } }) => {
+      if (!property.startsWith('--')) declared.set(property, resolveVariables(value, variables).trim());
+    });
+
+    const style: NodeStyle = {};
+    const keep = (value: string | undefined) =>
+      value && !['inherit', 'unset', 'revert', 'initial'].includes(value.toLowerCase()) ? value : undefined;
+    // Later declarations win, so the shorthands are read first
+    Object.assign(style, readFontShorthand(declared.get('font') ?? ''));
+    const background = declared.get('background');
+    if (background !== undefined) style.backgroundColor = getBackgroundColor(background);
+    style.color = keep(declared.get('color')) ?? style.color;
+    style.backgroundColor = keep(declared.get('background-color')) ?? style.backgroundColor;
+    style.fontSize = keep(declared.get('font-size')) ?? style.fontSize;
+    style.fontWeight = keep(declared.get('font-weight')) ?? style.fontWeight;
+    style.opacity = keep(declared.get('opacity'));
+    style.hidden = declared.get('display') === 'none' || element.attributes.has('hidden');
+    const visibility = keep(declared.get('visibility')) ?? inheritedVisibility;
+    style.invisible = visibility === 'hidden';
+
+    const children = elementChildren(element).filter(({ tagName }) => !SKIPPED_TAGS.has(tagName));
+    return {
+      selector,
+      text: collapseWhitespace(element.children.filter((child): child is string => typeof child === 'string').join(' ')),
+      style,
+      children: children.map((child) => {
+        const sameTag = children.filter(({ tagName }) => tagName === child.tagName);
+        const step = getSelectorStep(
+          child.tagName,
+          child.attributes.get('id') ?? '',
+          (child.attributes.get('class') ?? '').split(/\s+/).filter(Boolean),
+          sameTag.length > 1 ? sameTag.indexOf(child) + 1 : null
+        );
+        return build(child, `${selector} > ${step}`, variables, visibility);
+      }),
+    };
+  };
+
+  // Documents without an <html> element are wrapped in one
+  const documentElement =
+    elementChildren(root).find(({ tagName }) => tagName === 'html') ??
+    ({ tagName: 'html', attributes: new Map(), children: root.children, parent: root } as SnapshotElement);
+  elementChildren(documentElement).forEach((child) => {
+    if (child.parent === root) child.parent = documentElement;
+  });
+  return build(documentElement, 'html', new Map(), 'visible');
+};
+
+/**
+ * Audits the text of an HTML snapshot with its stylesheets.
+ */
+export const auditHtmlSnapshot = (
+  html: string,
+  stylesheets: string[] = [],
+  options: PageAuditOptions = {}
+): PageContrastResult[] => auditStyledTree(parseHtmlSnapshot(html, stylesheets), options);
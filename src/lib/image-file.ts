@@ -0,0 +1,47 @@
+/**
+ * Reads image files into RGBA pixels in the browser.
+ */
+
+/**
+ * Decodes an image file and reads its pixels, scaled down to about
+ * `maxPixels` pixels when larger.
+ * @throws When the file isn't an image the browser can decode.
+ */
+export const readImageFile = async (file: File, maxPixels = Infinity): Promise<ImageData> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const scale = Math.min(1, Math.sqrt(maxPixels / (image.naturalWidth * image.naturalHeight)));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D context is not available');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Scales pixels down to fit within `maxWidth` by `maxHeight`, e.g. for thumbnails.
+ */
+export const scaleImageData = (image: ImageData, maxWidth: number, maxHeight: number): ImageData => {
+  const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+  if (scale === 1) return image;
+  const source = document.createElement('canvas');
+  source.width = image.width;
+  source.height = image.height;
+  source.getContext('2d')?.putImageData(image, 0, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context is not available');
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
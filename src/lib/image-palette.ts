@@ -0,0 +1,212 @@
+import chroma from 'chroma-js';
+
+/**
+ * Palette extraction from images. Pixels are binned, then clustered with
+ * k-means in OKLab so clusters group colors that look alike. Works on raw RGBA
+ * pixels (e.g. canvas `ImageData.data`), so it runs without a server.
+ */
+
+/**
+ * Which clusters become the palette: the most common colors, or the most
+ * (or least) colorful ones that still cover a fair share of the image.
+ */
+export type ImagePaletteMode = 'dominant' | 'vibrant' | 'muted';
+
+export const imagePaletteModeLabels: Record<ImagePaletteMode, string> = {
+  dominant: 'Dominant',
+  vibrant: 'Vibrant',
+  muted: 'Muted',
+};
+
+export interface ImagePaletteOptions {
+  /** Number of colors to extract */
+  count: number;
+  mode: ImagePaletteMode;
+  /** Skips near-white and near-black pixels, such as page backgrounds and shadows */
+  ignoreBackground: boolean;
+}
+
+export const DEFAULT_IMAGE_PALETTE_OPTIONS: ImagePaletteOptions = {
+  count: 5,
+  mode: 'dominant',
+  ignoreBackground: true,
+};
+
+/**
+ * A color extracted from an image.
+ */
+export interface ExtractedColor {
+  hex: string;
+  /**
+   * Share of the image's pixels in this color's cluster, 0 to 1. Ignored
+   * background pixels don't count.
+   */
+  share: number;
+}
+
+type Lab = [number, number, number];
+
+interface Bin {
+  lab: Lab;
+  /** Pixels in the bin */
+  weight: number;
+}
+
+// Bits kept per channel when binning pixels (32 levels per channel)
+const BIN_BITS = 5;
+// Pixels more transparent than this are ignored
+const MIN_ALPHA = 128;
+// OKLab lightness beyond which a pixel counts as background
+const NEAR_WHITE = 0.95;
+const NEAR_BLACK = 0.2;
+// Vibrant and muted modes pick from this many times more clusters than requested
+const CANDIDATE_FACTOR = 3;
+const MAX_ITERATIONS = 20;
+// OKLab distance under which two extracted colors count as the same
+const MIN_DISTANCE = 0.04;
+
+const distance = (a: Lab, b: Lab): number => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const chromaOf = ([, a, b]: Lab): number => Math.hypot(a, b);
+
+// Groups pixels into bins of similar colors, so clustering works on a few
+// thousand colors whatever the image size
+const binPixels = (pixels: Uint8ClampedArray, ignoreBackground: boolean): Bin[] => {
+  const shift = 8 - BIN_BITS;
+  const counts = new Map<number, { r: number; g: number; b: number; weight: number }>();
+
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    if (pixels[i + 3] < MIN_ALPHA) continue;
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const key = ((r >> shift) << (2 * BIN_BITS)) | ((g >> shift) << BIN_BITS) | (b >> shift);
+    const bin = counts.get(key);
+    if (bin) {
+      bin.r += r;
+      bin.g += g;
+      bin.b += b;
+      bin.weight++;
+    } else {
+      counts.set(key, { r, g, b, weight: 1 });
+    }
+  }
+
+  const bins: Bin[] = [...counts.values()].map(({ r, g, b, weight }) => ({
+    lab: chroma.rgb(r / weight, g / weight, b / weight).oklab() as Lab,
+    weight,
+  }));
+  if (!ignoreBackground) return bins;
+
+  // Keep everything when the whole image is near white or black
+  const foreground = bins.filter(({ lab: [l] }) => l < NEAR_WHITE && l > NEAR_BLACK);
+  return foreground.length > 0 ? foreground : bins;
+};
+
+// Seeds clusters with the heaviest bin, then repeatedly the bin farthest from
+// the seeds so far (weighted by size), so results are the same on every run
+const seedCentroids = (bins: Bin[], k: number): Lab[] => {
+  const heaviest = bins.reduce((best, bin) => (bin.weight > best.weight ? bin : best));
+  const centroids: Lab[] = [heaviest.lab];
+  const nearest = bins.map((bin) => distance(bin.lab, heaviest.lab));
+
+  while (centroids.length < k) {
+    let next = -1;
+    let bestScore = 0;
+    bins.forEach((bin, index) => {
+      const score = nearest[index] * Math.sqrt(bin.weight);
+      if (score > bestScore) {
+        bestScore = score;
+        next = index;
+      }
+    });
+    if (next === -1) break; // Fewer distinct colors than clusters
+    centroids.push(bins[next].lab);
+    bins.forEach((bin, index) => {
+      nearest[index] = Math.min(nearest[index], distance(bin.lab, bins[next].lab));
+    });
+  }
+  return centroids;
+};
+
+// Weighted k-means over the bins
+const cluster = (bins: Bin[], k: number): { lab: Lab; weight: number }[] => {
+  let centroids = seedCentroids(bins, k);
+  let assignments = bins.map(() => -1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = bins.map(({ lab }) =>
+      centroids.reduce(
+        (closest, centroid, index) => (distance(lab, centroid) < distance(lab, centroids[closest]) ? index : closest),
+        0
+      )
+    );
+    const changed = next.some((assignment, index) => assignment !== assignments[index]);
+    assignments = next;
+    if (!changed) break;
+
+    const sums = centroids.map(() => ({ lab: [0, 0, 0] as Lab, weight: 0 }));
+    bins.forEach((bin, index) => {
+      const sum = sums[assignments[index]];
+      bin.lab.forEach((value, channel) => (sum.lab[channel] += value * bin.weight));
+      sum.weight += bin.weight;
+    });
+    centroids = sums.map(({ lab, weight }, index) =>
+      weight > 0 ? (lab.map((value) => value / weight) as Lab) : centroids[index]
+    );
+  }
+
+  return centroids.map((lab, index) => ({
+    lab,
+    weight: bins.reduce((total, bin, binIndex) => (assignments[binIndex] === index ? total + bin.weight : total), 0),
+  }));
+};
+
+/**
+ * Extracts the main colors of an image from its RGBA pixels.
+ * @returns Up to `count` colors, the most representative for the mode first.
+ */
+export const extractImagePalette = (
+  pixels: Uint8ClampedArray,
+  options: Partial<ImagePaletteOptions> = {}
+): ExtractedColor[] => {
+  const { count, mode, ignoreBackground } = { ...DEFAULT_IMAGE_PALETTE_OPTIONS, ...options };
+  const bins = binPixels(pixels, ignoreBackground);
+  if (bins.length === 0 || count <= 0) return [];
+
+  const total = bins.reduce((sum, bin) => sum + bin.weight, 0);
+  const clusters = cluster(bins, mode === 'dominant' ? count : count * CANDIDATE_FACTOR).filter(
+    ({ weight }) => weight > 0
+  );
+
+  // Colorfulness counts for more than size in vibrant and muted modes, but a
+  // cluster still needs some pixels to be picked over a speck of color
+  const rank = ({ lab, weight }: { lab: Lab; weight: number }): number => {
+    const share = weight / total;
+    if (mode === 'vibrant') return chromaOf(lab) * Math.sqrt(share);
+    if (mode === 'muted') return (1 / (1 + 10 * chromaOf(lab))) * Math.sqrt(share);
+    return share;
+  };
+
+  // Clusters that look like a picked color are folded into it, with their pixels
+  const picked: { lab: Lab; weight: number }[] = [];
+  clusters
+    .sort((a, b) => rank(b) - rank(a))
+    .forEach((candidate) => {
+      const similar = picked.find(({ lab }) => distance(lab, candidate.lab) < MIN_DISTANCE ** 2);
+      if (similar) similar.weight += candidate.weight;
+      else if (picked.length < count) picked.push({ ...candidate });
+    });
+
+  return picked.map(({ lab, weight }) => ({ hex: chroma.oklab(...lab).hex(), share: weight / total }));
+};
+
+/**
+ * Gets the color of one pixel, e.g. for an eyedropper on an image.
+ * @param pixels - RGBA pixels, row by row.
+ * @param width - Image width in pixels.
+ */
+export const getPixelColor = (pixels: Uint8ClampedArray, width: number, x: number, y: number): string => {
+  const offset = (Math.floor(y) * width + Math.floor(x)) * 4;
+  return chroma.rgb(pixels[offset], pixels[offset + 1], pixels[offset + 2]).hex();
+};
@@ -0,0 +1,297 @@
+import chroma from 'chroma-js';
+import { parseCssColor } from './css-color';
+import {
+  auditContrast,
+  compositeColor,
+  type ConformanceTarget,
+  type ContrastAlgorithm,
+  type ContrastResult,
+  type ContrastUsage,
+} from './audit';
+
+/**
+ * Page audit: checks the text a page actually renders rather than an abstract
+ * palette. Each element with text is paired with its effective background,
+ * found by compositing the backgrounds of its ancestors over the page.
+ *
+ * The audit works on a tree of styled nodes, which can come from a live DOM
+ * (a browser or jsdom, see `readDomTree`) or from a static HTML snapshot (see
+ * `parseHtmlSnapshot`), so it runs headless in the CLI and in tests.
+ */
+
+/**
+ * Styles of one element, as CSS values. Missing properties inherit (color,
+ * font size and weight) or are transparent (background).
+ */
+export interface NodeStyle {
+  color?: string;
+  backgroundColor?: string;
+  fontSize?: string;
+  fontWeight?: string;
+  opacity?: string;
+  /** True for elements that render nothing (`display: none`) */
+  hidden?: boolean;
+  /** True for elements whose own text is invisible (`visibility: hidden`) */
+  invisible?: boolean;
+}
+
+/**
+ * An element of a page with the styles that apply to it.
+ */
+export interface StyledNode {
+  /** Selector locating the element, e.g. `body > main > p.lead:nth-of-type(2)` */
+  selector: string;
+  /** Text directly inside the element, with whitespace collapsed */
+  text: string;
+  style: NodeStyle;
+  children: StyledNode[];
+}
+
+export interface PageAuditOptions {
+  algorithm?: ContrastAlgorithm;
+  target?: ConformanceTarget;
+  /** Canvas color behind the page, white in browsers */
+  pageBackground?: string;
+}
+
+/**
+ * Contrast of the text of one element against its effective background.
+ * `backgroundColor` is the opaque color the text renders on.
+ */
+export interface PageContrastResult extends ContrastResult {
+  selector: string;
+  /** The element's text, shortened for reports */
+  text: string;
+  /** Computed font size in pixels */
+  fontSize: number;
+  fontWeight: number;
+  /** Large text (24px, or 18.66px bold) is held to the large text thresholds */
+  usage: ContrastUsage;
+}
+
+const DEFAULT_FONT_SIZE = 16;
+const MAX_TEXT_LENGTH = 60;
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9,
+  'x-small': 10,
+  small: 13,
+  medium: 16,
+  large: 18,
+  'x-large': 24,
+  'xx-large': 32,
+  'xxx-large': 48,
+};
+
+// Resolves a font size to pixels. Sizes that depend on the viewport or need
+// calc() keep the inherited size.
+const resolveFontSize = (value: string | undefined, inherited: number, root: number): number => {
+  if (!value) return inherited;
+  const size = value.trim().toLowerCase();
+  if (size in FONT_SIZE_KEYWORDS) return FONT_SIZE_KEYWORDS[size];
+  if (size === 'smaller') return inherited / 1.2;
+  if (size === 'larger') return inherited * 1.2;
+
+  const match = /^(\d*\.?\d+)(px|em|rem|%|pt)$/.exec(size);
+  if (!match) return inherited;
+  const amount = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'px':
+      return amount;
+    case 'em':
+      return amount * inherited;
+    case 'rem':
+      return amount * root;
+    case '%':
+      return (amount / 100) * inherited;
+    default:
+      return (amount * 4) / 3; // pt
+  }
+};
+
+const resolveFontWeight = (value: string | undefined, inherited: number): number => {
+  if (!value) return inherited;
+  const weight = value.trim().toLowerCase();
+  if (weight === 'normal') return 400;
+  if (weight === 'bold') return 700;
+  if (weight === 'bolder') return inherited < 400 ? 400 : inherited < 600 ? 700 : 900;
+  if (weight === 'lighter') return inherited < 600 ? 100 : inherited < 800 ? 400 : 700;
+  const numeric = Number(weight);
+  return Number.isFinite(numeric) ? numeric : inherited;
+};
+
+const parseOpacity = (value: string | undefined): number => {
+  if (!value) return 1;
+  const opacity = value.trim().endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+  return Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : 1;
+};
+
+// Applies an opacity to a color's own alpha
+const fade = (color: string, opacity: number): string =>
+  opacity >= 1 ? color : chroma(color).alpha(chroma(color).alpha() * opacity).hex();
+
+/**
+ * WCAG large text: at least 18pt (24px), or 14pt (18.66px) when bold.
+ */
+export const isLargeText = (fontSize: number, fontWeight: number): boolean =>
+  fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+
+interface InheritedStyle {
+  color: string;
+  background: string;
+  fontSize: number;
+  rootFontSize: number;
+  fontWeight: number;
+  opacity: number;
+}
+
+/**
+ * Audits the text of every element in a styled tree against its effective
+ * background: the element's and its ancestors' backgrounds composited over the
+ * page, with `opacity` applied. Translucent text is composited by
+ * `auditContrast`, so pairs go through the same checks as palette pairs.
+ */
+export const auditStyledTree = (root: StyledNode, options: PageAuditOptions = {}): PageContrastResult[] => {
+  const { algorithm = 'wcag', target = 'AA', pageBackground = '#ffffff' } = options;
+  const results: PageContrastResult[] = [];
+
+  const visit = (node: StyledNode, inherited: InheritedStyle, isRoot: boolean) => {
+    const { style } = node;
+    if (style.hidden) return;
+
+    const fontSize = resolveFontSize(style.fontSize, inherited.fontSize, inherited.rootFontSize);
+    const opacity = inherited.opacity * parseOpacity(style.opacity);
+    const ownBackground = style.backgroundColor ? parseCssColor(style.backgroundColor) : null;
+    const current: InheritedStyle = {
+      color: (style.color && parseCssColor(style.color)) || inherited.color,
+      background: ownBackground
+        ? compositeColor(fade(ownBackground, opacity), inherited.background)
+        : inherited.background,
+      fontSize,
+      rootFontSize: isRoot ? fontSize : inherited.rootFontSize,
+      fontWeight: resolveFontWeight(style.fontWeight, inherited.fontWeight),
+      opacity,
+    };
+
+    if (node.text && !style.invisible) {
+      const usage: ContrastUsage = isLargeText(current.fontSize, current.fontWeight) ? 'large-text' : 'normal-text';
+      results.push({
+        ...auditContrast(fade(current.color, opacity), current.background, { algorithm, usage, target }),
+        selector: node.selector,
+        text: node.text.length > MAX_TEXT_LENGTH ? `${node.text.slice(0, MAX_TEXT_LENGTH - 1)}…` : node.text,
+        fontSize: Math.round(current.fontSize * 100) / 100,
+        fontWeight: current.fontWeight,
+        usage,
+      });
+    }
+    node.children.forEach((child) => visit(child, current, false));
+  };
+
+  visit(
+    root,
+    {
+      color: '#000000',
+      background: parseCssColor(pageBackground) ?? '#ffffff',
+      fontSize: DEFAULT_FONT_SIZE,
+      rootFontSize: DEFAULT_FONT_SIZE,
+      fontWeight: 400,
+      opacity: 1,
+    },
+    true
+  );
+  return results;
+};
+
+/**
+ * Builds one step of an element selector: the tag with its id, or with its
+ * classes and position among siblings of the same tag when that is ambiguous.
+ * @param nth - 1-based position among same-tag siblings, or null when unique.
+ */
+export const getSelectorStep = (tagName: string, id: string, classNames: string[], nth: number | null): string => {
+  const tag = tagName.toLowerCase();
+  if (id) return `${tag}#${id}`;
+  const classes = classNames.map((name) => `.${name}`).join('');
+  return `${tag}${classes}${nth === null ? '' : `:nth-of-type(${nth})`}`;
+};
+
+/**
+ * Collapses whitespace in text the way HTML renders it.
+ */
+export const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * The parts of a DOM node the audit reads. Browser and jsdom nodes fit it.
+ */
+export interface DomNodeLike {
+  nodeType: number;
+  textContent: string | null;
+}
+
+export interface DomElementLike extends DomNodeLike {
+  tagName: string;
+  id: string;
+  getAttribute(name: string): string | null;
+  childNodes: ArrayLike<DomNodeLike>;
+}
+
+/**
+ * Source of computed styles, such as a browser or jsdom `window`.
+ */
+export interface ComputedStyleSource {
+  getComputedStyle(element: DomElementLike): { getPropertyValue(property: string): string };
+}
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// Elements that never render text
+const SKIPPED_TAGS = new Set(['HEAD', 'SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'SVG']);
+
+const isElement = (node: DomNodeLike): node is DomElementLike => node.nodeType === ELEMENT_NODE;
+
+// Selector step of a DOM element among its element siblings
+const getDomStep = (element: DomElementLike, siblings: DomElementLike[]): string => {
+  const sameTag = siblings.filter(({ tagName }) => tagName === element.tagName);
+  const classNames = (element.getAttribute('class') ?? '').split(/\s+/).filter(Boolean);
+  return getSelectorStep(
+    element.tagName,
+    element.id,
+    classNames,
+    sameTag.length > 1 ? sameTag.indexOf(element) + 1 : null
+  );
+};
+
+const readElement = (element: DomElementLike, view: ComputedStyleSource, selector: string): StyledNode => {
+  const computed = view.getComputedStyle(element);
+  const get = (property: string) => computed.getPropertyValue(property) || undefined;
+  const nodes = Array.from(element.childNodes);
+  const children = nodes.filter(isElement).filter(({ tagName }) => !SKIPPED_TAGS.has(tagName.toUpperCase()));
+
+  return {
+    selector,
+    text: collapseWhitespace(
+      nodes
+        .filter((node) => node.nodeType === TEXT_NODE)
+        .map((node) => node.textContent ?? '')
+        .join(' ')
+    ),
+    style: {
+      color: get('color'),
+      backgroundColor: get('background-color'),
+      fontSize: get('font-size'),
+      fontWeight: get('font-weight'),
+      opacity: get('opacity'),
+      hidden: get('display') === 'none',
+      invisible: get('visibility') === 'hidden',
+    },
+    children: children.map((child) => readElement(child, view, `${selector} > ${getDomStep(child, children)}`)),
+  };
+};
+
+/**
+ * Reads a live DOM element (e.g. `document.documentElement` in a browser or
+ * jsdom) into a styled tree, using computed styles so the cascade is the
+ * engine's own.
+ */
+export const readDomTree = (element: DomElementLike, view: ComputedStyleSource): StyledNode =>
+  readElement(element, view, getDomStep(element, [element]));
@@ -0,0 +1,132 @@
+import { createId, type Palette } from './palette';
+
+/**
+ * Saved palettes, kept in localStorage so project palettes survive reloads.
+ * Reading and writing is separate from the React state in `PaletteLibraryProvider`.
+ */
+
+export interface SavedPalette extends Palette {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const LIBRARY_KEY = 'paletteLibrary';
+const LAST_OPENED_KEY = 'lastOpenedPalette';
+
+const isSavedPalette = (value: unknown): value is SavedPalette => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<SavedPalette>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.name === 'string' &&
+    Array.isArray(entry.tags) &&
+    Array.isArray(entry.colors)
+  );
+};
+
+/**
+ * Reads the saved palettes. Returns an empty library when nothing is stored
+ * or the stored data is unreadable.
+ */
+export const loadPaletteLibrary = (): SavedPalette[] => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isSavedPalette) : [];
+  } catch (error) {
+    console.error('Failed to read the palette library:', error);
+    return [];
+  }
+};
+
+/**
+ * Writes the saved palettes.
+ */
+export const storePaletteLibrary = (palettes: SavedPalette[]) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(palettes));
+  } catch (error) {
+    console.error('Failed to save the palette library:', error);
+  }
+};
+
+export const loadLastOpenedPaletteId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_OPENED_KEY);
+  } catch (error) {
+    console.error('Failed to read the last opened palette:', error);
+    return null;
+  }
+};
+
+export const storeLastOpenedPaletteId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(LAST_OPENED_KEY, id);
+    } else {
+      localStorage.removeItem(LAST_OPENED_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to save the last opened palette:', error);
+  }
+};
+
+/**
+ * Creates a library entry for a palette.
+ */
+export const createSavedPalette = (palette: Palette): SavedPalette => {
+  const now = new Date().toISOString();
+  return { ...palette, id: createId(), createdAt: now, updatedAt: now };
+};
+
+/**
+ * Strips the library fields from an entry, giving the palette to edit.
+ */
+export const toPalette = ({ name, tags, version, colors }: SavedPalette): Palette => ({
+  name,
+  tags,
+  version,
+  colors,
+});
+
+/**
+ * Tells whether a palette differs from its saved entry (ignoring the version).
+ */
+export const hasUnsavedChanges = (palette: Palette, saved: SavedPalette | undefined): boolean =>
+  !saved ||
+  JSON.stringify([palette.name, palette.tags, palette.colors]) !==
+    JSON.stringify([saved.name, saved.tags, saved.colors]);
+
+/**
+ * Parses comma-separated tags, trimming and dropping duplicates.
+ */
+export const parseTags = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+];
+
+/**
+ * Filters palettes by a query matched against names, tags, color names and
+ * hex values. Every word of the query has to match.
+ */
+export const searchPalettes = (palettes: SavedPalette[], query: string): SavedPalette[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return palettes;
+
+  return palettes.filter((palette) => {
+    const haystack = [
+      palette.name,
+      ...palette.tags,
+      ...palette.colors.flatMap((color) => [color.name, color.hex]),
+    ]
+      .join(' ')
+      .toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+};
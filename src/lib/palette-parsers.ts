@@ -0,0 +1,322 @@
+import { parseCssColor } from './css-color';
+import { isDesignTokenDocument, readDesignTokens } from './dtcg';
+
+/**
+ * Parsers for palette source files: JSON token files, CSS custom properties,
+ * SCSS and Less variables and Tailwind configs. They only work on text so they run the
+ * same in the browser and in the CLI.
+ */
+
+/**
+ * Source formats a palette can be read from.
+ */
+export type PaletteFileFormat = 'json' | 'css' | 'scss' | 'less' | 'tailwind';
+
+export const paletteFileFormats: PaletteFileFormat[] = ['json', 'css', 'scss', 'less', 'tailwind'];
+
+/**
+ * A color read from a palette file, named after its variable or token path.
+ */
+export interface NamedColor {
+  name: string;
+  color: string;
+  /**
+   * Ramp or group the color belongs to: its parent path in nested files
+   * (`primary` for `primary.500`), or the name without a numeric step
+   * (`primary` for `--primary-500`)
+   */
+  group?: string;
+  /** The value as written when it isn't hex, e.g. `oklch(62% 0.19 259)` */
+  notation?: string;
+}
+
+const FORMAT_BY_EXTENSION: Record<string, PaletteFileFormat> = {
+  json: 'json',
+  tokens: 'json',
+  css: 'css',
+  scss: 'scss',
+  sass: 'scss',
+  less: 'less',
+  js: 'tailwind',
+  cjs: 'tailwind',
+  mjs: 'tailwind',
+  ts: 'tailwind',
+};
+
+/**
+ * Detects the palette format of a file from its name.
+ * @returns The format, or null for unknown extensions.
+ */
+export const detectPaletteFormat = (filename: string): PaletteFileFormat | null => {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return FORMAT_BY_EXTENSION[extension] ?? null;
+};
+
+const joinName = (path: string[]): string =>
+  path.filter((part) => part !== '' && part !== 'DEFAULT').join('-');
+
+// Groups a flat variable name by its numeric step, as in `primary-500`
+const getRampGroup = (name: string): string | undefined => /^(.+)-\d+$/.exec(name)?.[1];
+
+const namedColor = (name: string, color: string, group: string | undefined): NamedColor =>
+  group ? { name, color, group } : { name, color };
+
+// Reads a variable value as a color, keeping notations other than hex.
+// Returns null when the value is not a color.
+const readColor = (name: string, value: string, group: string | undefined): NamedColor | null => {
+  const notation = value.trim();
+  const color = parseCssColor(notation);
+  if (!color) return null;
+  const named = namedColor(name, color, group);
+  return notation.startsWith('#') ? named : { ...named, notation };
+};
+
+// Walks a parsed object, collecting string leaves that are colors
+const collectColors = (value: unknown, path: string[], colors: NamedColor[]) => {
+  if (typeof value === 'string') {
+    const color = readColor(joinName(path), value, joinName(path.slice(0, -1)));
+    if (color) colors.push(color);
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => collectColors(item, [...path, String(index + 1)], colors));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // Design token leaves keep their color in `$value` (or `value`)
+    if ('$value' in record || 'value' in record) {
+      collectColors(record.$value ?? record.value, path, colors);
+      return;
+    }
+    Object.entries(record).forEach(([key, child]) => {
+      if (!key.startsWith('$')) collectColors(child, [...path, key], colors);
+    });
+  }
+};
+
+/**
+ * Reads colors from JSON: nested objects, arrays and design token files.
+ * Design tokens go through the DTCG reader, so aliases like `{color.brand.500}`
+ * resolve; colors of several token sets are prefixed with the set name.
+ */
+export const parseJsonPalette = (text: string): NamedColor[] => {
+  const document: unknown = JSON.parse(text);
+  if (isDesignTokenDocument(document)) {
+    const sets = readDesignTokens(document);
+    return sets.flatMap(({ name, tokens }) =>
+      tokens.map((token) => {
+        const prefix = sets.length > 1 ? [name] : [];
+        return namedColor(
+          [...prefix, ...token.path].join('-'),
+          token.color,
+          [...prefix, ...token.path.slice(0, -1)].join('-')
+        );
+      })
+    );
+  }
+  const colors: NamedColor[] = [];
+  collectColors(document, [], colors);
+  return colors;
+};
+
+const stripComments = (text: string): string =>
+  text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:])\/\/.*$/gm, '$1');
+
+const VAR_REFERENCE = /var\(\s*--([\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\)[^()]*)*))?\)/g;
+
+// Substitutes var() references with the properties of the file, or their
+// fallback. Throws for a property the file doesn't define, since skipping the
+// alias would quietly drop a color.
+const resolveCssVariables = (
+  name: string,
+  value: string,
+  lookup: (property: string) => string | undefined,
+  depth = 0
+): string => {
+  if (depth > 10 || !value.includes('var(')) return value;
+  const resolved = value.replace(VAR_REFERENCE, (reference, property: string, fallback?: string) => {
+    const target = lookup(property) ?? fallback?.trim();
+    if (target === undefined) throw new Error(`Can't resolve ${reference} in --${name}`);
+    return target;
+  });
+  return resolveCssVariables(name, resolved, lookup, depth + 1);
+};
+
+/**
+ * Reads colors from CSS custom properties (`--brand-primary: #1e3a8a;`).
+ * Aliases such as `--muted: var(--text)` resolve to the closest definition
+ * above them, or the first one below.
+ */
+export const parseCssPalette = (text: string): NamedColor[] => {
+  const source = stripComments(text);
+  const declarations: [string, string][] = [];
+  const declaration = /--([\w-]+)\s*:\s*([^;}]+)/g;
+  let match;
+  while ((match = declaration.exec(source)) !== null) {
+    declarations.push([match[1], match[2].trim()]);
+  }
+
+  const colors: NamedColor[] = [];
+  declarations.forEach(([name, value], index) => {
+    const lookup = (property: string) => {
+      for (let other = index - 1; other >= 0; other--) {
+        if (declarations[other][0] === property) return declarations[other][1];
+      }
+      return declarations.slice(index + 1).find(([other]) => other === property)?.[1];
+    };
+    const color = readColor(name, resolveCssVariables(name, value, lookup), getRampGroup(name));
+    if (color) colors.push(color);
+  });
+  return colors;
+};
+
+/**
+ * Reads colors from SCSS variables (`$brand-primary: #1e3a8a;`).
+ */
+export const parseScssPalette = (text: string): NamedColor[] => {
+  const source = stripComments(text);
+  const colors: NamedColor[] = [];
+  const declaration = /\$([\w-]+)\s*:\s*([^;\n]+?)\s*(?:!default\s*)?;/g;
+  let match;
+  while ((match = declaration.exec(source)) !== null) {
+    const color = readColor(match[1], match[2], getRampGroup(match[1]));
+    if (color) colors.push(color);
+  }
+  return colors;
+};
+
+/**
+ * Reads colors from Less variables (`@brand-primary: #1e3a8a;`).
+ */
+export const parseLessPalette = (text: string): NamedColor[] => {
+  const source = stripComments(text);
+  const colors: NamedColor[] = [];
+  const declaration = /@([\w-]+)\s*:\s*([^;\n]+?)\s*;/g;
+  let match;
+  while ((match = declaration.exec(source)) !== null) {
+    const color = readColor(match[1], match[2], getRampGroup(match[1]));
+    if (color) colors.push(color);
+  }
+  return colors;
+};
+
+// Minimal reader for the object literal subset used in Tailwind color configs:
+// quoted or bare keys, string values, nested objects and trailing commas.
+// Anything else (function calls, spreads, references) is skipped.
+const readObjectLiteral = (source: string, start: number): { value: Record<string, unknown>; end: number } => {
+  let position = start + 1;
+  const value: Record<string, unknown> = {};
+
+  const skipWhitespace = () => {
+    while (position < source.length && /[\s,]/.test(source[position])) position++;
+  };
+
+  const readString = (): string => {
+    const quote = source[position++];
+    let result = '';
+    while (position < source.length && source[position] !== quote) {
+      if (source[position] === '\\') position++;
+      result += source[position++];
+    }
+    position++;
+    return result;
+  };
+
+  // Skips an unsupported value up to the next comma or closing brace at this depth
+  const skipValue = () => {
+    let depth = 0;
+    while (position < source.length) {
+      const char = source[position];
+      if (char === '"' || char === "'" || char === '`') {
+        readString();
+        continue;
+      }
+      if (char === '{' || char === '(' || char === '[') depth++;
+      if (char === '}' || char === ')' || char === ']') {
+        if (depth === 0) return;
+        depth--;
+      }
+      if (char === ',' && depth === 0) return;
+      position++;
+    }
+  };
+
+  while (position < source.length) {
+    skipWhitespace();
+    const char = source[position];
+    if (char === '}') return { value, end: position + 1 };
+
+    let key: string;
+    if (char === '"' || char === "'") {
+      key = readString();
+    } else {
+      const match = /^[\w$-]+/.exec(source.slice(position));
+      if (!match) {
+        const before = position;
+        skipValue();
+        if (position === before) position++;
+        continue;
+      }
+      key = match[0];
+      position += key.length;
+    }
+
+    skipWhitespace();
+    if (source[position] !== ':') {
+      skipValue();
+      continue;
+    }
+    position++;
+    skipWhitespace();
+
+    const next = source[position];
+    if (next === '{') {
+      const nested = readObjectLiteral(source, position);
+      value[key] = nested.value;
+      position = nested.end;
+    } else if (next === '"' || next === "'" || next === '`') {
+      value[key] = readString();
+    } else {
+      skipValue();
+    }
+  }
+
+  return { value, end: position };
+};
+
+/**
+ * Reads colors from a Tailwind config's `theme.colors` and `theme.extend.colors`.
+ * The config is read statically, so colors built at runtime are not found.
+ */
+export const parseTailwindPalette = (text: string): NamedColor[] => {
+  const source = stripComments(text);
+  const colors: NamedColor[] = [];
+  const colorsKey = /\bcolors\s*:\s*\{/g;
+  let match;
+  while ((match = colorsKey.exec(source)) !== null) {
+    const { value, end } = readObjectLiteral(source, match.index + match[0].length - 1);
+    collectColors(value, [], colors);
+    colorsKey.lastIndex = end;
+  }
+  return colors;
+};
+
+/**
+ * Reads the colors of a palette file in the given format.
+ * Throws when the content can't be parsed (e.g. invalid JSON).
+ */
+export const parsePaletteFile = (text: string, format: PaletteFileFormat): NamedColor[] => {
+  switch (format) {
+    case 'json':
+      return parseJsonPalette(text);
+    case 'css':
+      return parseCssPalette(text);
+    case 'scss':
+      return parseScssPalette(text);
+    case 'less':
+      return parseLessPalette(text);
+    case 'tailwind':
+      return parseTailwindPalette(text);
+  }
+};
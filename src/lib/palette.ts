@@ -0,0 +1,182 @@
+import { parseCssColor } from './css-color';
+import { generateDarkTheme, type DarkThemeCompromise, type DarkThemeOptions } from './dark-theme';
+import { derivePairings, type ColorRole, type RoleAssignments } from './roles';
+
+/**
+ * Palette data model. Colors carry a stable id, so names, roles and locks
+ * follow a color when it is edited, reordered or recolored for a variant.
+ */
+
+export interface PaletteColor {
+  id: string;
+  /** Display and token name, e.g. "primary". Empty for unnamed colors */
+  name: string;
+  hex: string;
+  role?: ColorRole;
+  description?: string;
+  /** Ramp or group the color was imported from, e.g. "primary" for primary-500 */
+  group?: string;
+  /**
+   * CSS notation the color was imported or pasted in, e.g. `oklch(62% 0.19 259)`.
+   * Exports keep it until the color is edited (see `getColorValue`).
+   */
+  notation?: string;
+  /** Locked colors are kept when the palette is regenerated */
+  locked?: boolean;
+}
+
+export interface Palette {
+  name: string;
+  tags: string[];
+  /** Revision of the palette, bumped each time it is saved */
+  version: number;
+  colors: PaletteColor[];
+}
+
+let idCounter = 0;
+
+/**
+ * Creates a unique id for a palette or palette color.
+ */
+export const createId = (): string => {
+  idCounter += 1;
+  return `${Date.now().toString(36)}-${idCounter.toString(36)}`;
+};
+
+/**
+ * Creates a palette color from a hex value.
+ */
+export const createPaletteColor = (
+  hex: string,
+  fields: Partial<Omit<PaletteColor, 'id' | 'hex'>> = {}
+): PaletteColor => ({
+  id: createId(),
+  name: '',
+  hex,
+  ...fields,
+});
+
+/**
+ * Creates a palette from hex values or `{ name, color }` pairs.
+ */
+export const createPalette = (
+  colors: (string | { name: string; color: string })[],
+  fields: Partial<Omit<Palette, 'colors'>> = {}
+): Palette => ({
+  name: 'myPalette',
+  tags: [],
+  version: 1,
+  ...fields,
+  colors: colors.map((color) =>
+    typeof color === 'string'
+      ? createPaletteColor(color)
+      : createPaletteColor(color.color, { name: color.name })
+  ),
+});
+
+/**
+ * Gets the hex values of palette colors, for the analysis and generator functions.
+ */
+export const getPaletteHexes = (colors: PaletteColor[]): string[] =>
+  colors.map((color) => color.hex);
+
+/**
+ * Gets the CSS value a color is exported as: its original notation while that
+ * still matches the hex, otherwise the hex.
+ */
+export const getColorValue = (color: PaletteColor): string =>
+  color.notation && parseCssColor(color.notation) === color.hex ? color.notation : color.hex;
+
+/**
+ * Gets the role of each palette color, for `derivePairings`.
+ */
+export const getRoleAssignments = (colors: PaletteColor[]): RoleAssignments =>
+  colors.map((color) => color.role ?? null);
+
+/**
+ * Maps hex values onto existing colors by position, keeping their ids, names
+ * and roles. Used for derived variants (e.g. dark) of the same palette.
+ * Hexes beyond the existing colors become new colors.
+ */
+export const recolorPalette = (colors: PaletteColor[], hexes: string[]): PaletteColor[] =>
+  hexes.map((hex, index) =>
+    index < colors.length ? { ...colors[index], hex } : createPaletteColor(hex)
+  );
+
+export interface PaletteVariants {
+  light: PaletteColor[];
+  dark: PaletteColor[];
+  /** Pairings the dark variant couldn't keep at their light contrast level */
+  darkCompromises: DarkThemeCompromise[];
+}
+
+/**
+ * Gets the light and dark variants of a palette. The dark variant keeps each
+ * pairing at its light contrast level; pairings default to those the roles imply.
+ */
+export const getPaletteVariants = (colors: PaletteColor[], options: DarkThemeOptions = {}): PaletteVariants => {
+  try {
+    const dark = generateDarkTheme(getPaletteHexes(colors), {
+      pairings: derivePairings(getRoleAssignments(colors)),
+      ...options,
+    });
+    return {
+      light: colors,
+      dark: recolorPalette(colors, dark.colors),
+      darkCompromises: dark.compromises,
+    };
+  } catch (error) {
+    console.error('Error generating dark variant:', error);
+    return { light: colors, dark: colors, darkCompromises: [] };
+  }
+};
+
+/**
+ * Replaces the unlocked colors with new hex values in order, keeping locked
+ * colors in place. Unlocked colors without a replacement are dropped and
+ * extra hexes are appended.
+ */
+export const replaceUnlockedColors = (colors: PaletteColor[], hexes: string[]): PaletteColor[] => {
+  const queue = [...hexes];
+  const result: PaletteColor[] = [];
+
+  colors.forEach((color) => {
+    if (color.locked) {
+      result.push(color);
+      return;
+    }
+    const hex = queue.shift();
+    if (hex !== undefined) result.push({ ...color, hex });
+  });
+
+  return [...result, ...queue.map((hex) => createPaletteColor(hex))];
+};
+
+/**
+ * Converts a name into a token name: lowercase words joined by dashes.
+ */
+export const toTokenName = (name: string): string =>
+  name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Gets the token name of each color: its name, or its 1-based position when
+ * unnamed. Duplicates get a numeric suffix so every token is unique.
+ */
+export const getColorTokens = (colors: PaletteColor[]): string[] => {
+  const used = new Set<string>();
+
+  return colors.map((color, index) => {
+    const base = toTokenName(color.name) || String(index + 1);
+    let token = base;
+    for (let suffix = 2; used.has(token); suffix++) {
+      token = `${base}-${suffix}`;
+    }
+    used.add(token);
+    return token;
+  });
+};
@@ -0,0 +1,115 @@
+import chroma from 'chroma-js';
+import type { ContrastUsage } from './audit';
+
+/**
+ * Color roles and the foreground/background pairings they imply. Auditing only
+ * declared pairings keeps colors that never touch (e.g. two accents) from
+ * dragging the accessibility score down.
+ */
+
+export type ColorRole =
+  | 'background'
+  | 'surface'
+  | 'text'
+  | 'muted-text'
+  | 'border'
+  | 'accent'
+  | 'on-accent';
+
+export const colorRoleLabels: Record<ColorRole, string> = {
+  background: 'Background',
+  surface: 'Surface',
+  text: 'Text',
+  'muted-text': 'Muted text',
+  border: 'Border / icon',
+  accent: 'Accent',
+  'on-accent': 'On accent',
+};
+
+/**
+ * Role of each palette entry, by index. `null` leaves a color unassigned.
+ */
+export type RoleAssignments = (ColorRole | null)[];
+
+/**
+ * A foreground/background pair of palette indices that occurs in the UI,
+ * with the usage that decides its contrast threshold.
+ */
+export interface ColorPairing {
+  foreground: number;
+  background: number;
+  usage: ContrastUsage;
+}
+
+/**
+ * Which roles are drawn on which. Text needs the text threshold (4.5:1 for AA),
+ * borders, icons and accents the non-text threshold (3:1).
+ */
+export const ROLE_PAIRING_RULES: { foreground: ColorRole; background: ColorRole; usage: ContrastUsage }[] = [
+  { foreground: 'text', background: 'background', usage: 'normal-text' },
+  { foreground: 'text', background: 'surface', usage: 'normal-text' },
+  { foreground: 'muted-text', background: 'background', usage: 'normal-text' },
+  { foreground: 'muted-text', background: 'surface', usage: 'normal-text' },
+  { foreground: 'border', background: 'background', usage: 'ui-component' },
+  { foreground: 'border', background: 'surface', usage: 'ui-component' },
+  { foreground: 'accent', background: 'background', usage: 'ui-component' },
+  { foreground: 'accent', background: 'surface', usage: 'ui-component' },
+  { foreground: 'on-accent', background: 'accent', usage: 'normal-text' },
+];
+
+/**
+ * Identifies a pairing independently of its usage, by palette indices or color ids.
+ */
+export const pairingKey = ({
+  foreground,
+  background,
+}: {
+  foreground: number | string;
+  background: number | string;
+}): string => `${foreground}:${background}`;
+
+/**
+ * Derives the pairings implied by role assignments.
+ */
+export const derivePairings = (roles: RoleAssignments): ColorPairing[] => {
+  const pairings: ColorPairing[] = [];
+
+  ROLE_PAIRING_RULES.forEach((rule) => {
+    roles.forEach((foregroundRole, foreground) => {
+      if (foregroundRole !== rule.foreground) return;
+      roles.forEach((backgroundRole, background) => {
+        if (backgroundRole !== rule.background || foreground === background) return;
+        pairings.push({ foreground, background, usage: rule.usage });
+      });
+    });
+  });
+
+  return pairings;
+};
+
+/**
+ * Suggests roles from lightness: the lightest color becomes the background,
+ * the darkest the text, and the rest accents. Dark palettes are mirrored.
+ */
+export const suggestRoles = (palette: string[]): RoleAssignments => {
+  if (palette.length < 2) return palette.map(() => null);
+
+  const luminances = palette.map((color) => {
+    try {
+      return chroma(color).luminance();
+    } catch {
+      return 0.5;
+    }
+  });
+  const byLuminance = luminances.map((_, index) => index).sort((a, b) => luminances[b] - luminances[a]);
+  const lightest = byLuminance[0];
+  const darkest = byLuminance[byLuminance.length - 1];
+  const average = luminances.reduce((sum, value) => sum + value, 0) / luminances.length;
+  const isDarkPalette = average < 0.25;
+
+  return palette.map((_, index) => {
+    if (index === lightest) return isDarkPalette ? 'text' : 'background';
+    if (index === darkest) return isDarkPalette ? 'background' : 'text';
+    return 'accent';
+  });
+};
@@ -0,0 +1,117 @@
+import chroma from 'chroma-js';
+import { fromPolar, toPolar } from './color-space';
+import { getColorTokens, type PaletteColor } from './palette';
+
+/**
+ * Tonal scales: expands a color into an 11-step 50–950 ramp like the ones in
+ * our Tailwind config. Steps are laid out in OKLCH, so equal lightness steps
+ * look equally far apart whatever the hue.
+ */
+
+export const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type ScaleStep = (typeof SCALE_STEPS)[number];
+
+/**
+ * How lightness falls from the 50 step to the 950 step: evenly, slowly at both
+ * ends, or following Tailwind's ramps.
+ */
+export type LightnessCurve = 'linear' | 'eased' | 'tailwind';
+
+export const lightnessCurveLabels: Record<LightnessCurve, string> = {
+  linear: 'Linear',
+  eased: 'Eased',
+  tailwind: 'Tailwind',
+};
+
+export interface ScaleOptions {
+  curve: LightnessCurve;
+  /** Degrees the hue rotates from the 50 step to the 950 step */
+  hueShift: number;
+  /** How much chroma fades towards the ends of the ramp, 0 (none) to 1 (gray) */
+  chromaEasing: number;
+}
+
+export const DEFAULT_SCALE_OPTIONS: ScaleOptions = {
+  curve: 'tailwind',
+  hueShift: 0,
+  chromaEasing: 0.5,
+};
+
+export interface ScaleColor {
+  step: ScaleStep;
+  hex: string;
+  /** True for the step the source color was placed on, which keeps it unchanged */
+  isBase: boolean;
+}
+
+export interface ColorScale {
+  /** Token name of the source color (see `getColorTokens`) */
+  token: string;
+  steps: ScaleColor[];
+}
+
+// OKLCH lightness of Tailwind's blue ramp, 50 to 950
+const TAILWIND_LIGHTNESS = [0.97, 0.932, 0.882, 0.809, 0.707, 0.623, 0.546, 0.488, 0.424, 0.379, 0.282];
+
+const LIGHTEST = TAILWIND_LIGHTNESS[0];
+const DARKEST = TAILWIND_LIGHTNESS[TAILWIND_LIGHTNESS.length - 1];
+
+// Lightness of each step under a curve, before anchoring to the source color
+const getCurveLightness = (curve: LightnessCurve): number[] => {
+  if (curve === 'tailwind') return TAILWIND_LIGHTNESS;
+
+  return SCALE_STEPS.map((_, index) => {
+    const t = index / (SCALE_STEPS.length - 1);
+    const progress = curve === 'eased' ? (1 - Math.cos(Math.PI * t)) / 2 : t;
+    return LIGHTEST - (LIGHTEST - DARKEST) * progress;
+  });
+};
+
+/**
+ * Generates a 50–950 ramp from a color. The color lands unchanged on the step
+ * whose lightness is closest, and the curve is stretched on either side of it
+ * so the ramp still runs from near white to near black.
+ */
+export const generateScale = (color: string, options: Partial<ScaleOptions> = {}): ScaleColor[] => {
+  const { curve, hueShift, chromaEasing } = { ...DEFAULT_SCALE_OPTIONS, ...options };
+  const base = toPolar(color, 'oklch');
+  const curveLightness = getCurveLightness(curve);
+  const last = SCALE_STEPS.length - 1;
+
+  // Place the color on its closest step
+  const baseIndex = curveLightness.reduce(
+    (closest, lightness, index) =>
+      Math.abs(lightness - base.l) < Math.abs(curveLightness[closest] - base.l) ? index : closest,
+    0
+  );
+  const baseCurve = curveLightness[baseIndex];
+
+  return SCALE_STEPS.map((step, index) => {
+    if (index === baseIndex) return { step, hex: chroma(color).hex(), isBase: true };
+
+    // Remap the curve so it passes through the color's lightness
+    const lighter = index < baseIndex;
+    const l = lighter
+      ? LIGHTEST - ((LIGHTEST - curveLightness[index]) / (LIGHTEST - baseCurve || 1)) * (LIGHTEST - base.l)
+      : DARKEST + ((curveLightness[index] - DARKEST) / (baseCurve - DARKEST || 1)) * (base.l - DARKEST);
+
+    // Distance towards the end of the ramp, 0 at the base and 1 at 50 or 950
+    const distance = lighter ? (baseIndex - index) / baseIndex : (index - baseIndex) / (last - baseIndex);
+    const c = base.c * (1 - Math.min(1, Math.max(0, chromaEasing)) * distance * distance);
+    const h = base.h + (hueShift * (index - baseIndex)) / last;
+
+    return { step, hex: fromPolar({ l, c, h }, 'oklch'), isBase: false };
+  });
+};
+
+/**
+ * Generates a ramp for every palette color, named by its token.
+ */
+export const generatePaletteScales = (palette: PaletteColor[], options: Partial<ScaleOptions> = {}): ColorScale[] => {
+  const tokens = getColorTokens(palette);
+  return palette.map((color, index) => ({
+    token: tokens[index],
+    steps: generateScale(color.hex, options),
+  }));
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CVD_ALGORITHM, DEFAULT_CVD_SEVERITY } from './cvd';
+import { createPalette } from './palette';
+import { decodeSharedView, encodeSharedView, type SharedView } from './share';
+
+// Decodes a path as the router would hand it over
+const decodePath = (path: string) => {
+  const url = new URL(path, 'https://example.com');
+  return decodeSharedView(url.pathname.replace(/^\/p\//, ''), url.searchParams);
+};
+
+describe('shared views', () => {
+  const palette = createPalette(
+    [
+      { name: 'primary', color: '#1E3A8A' },
+      { name: '', color: '#f59e0b' },
+      { name: 'text & more', color: '#111827' },
+    ],
+    { name: 'Brand palette' }
+  );
+  palette.colors[0].role = 'accent';
+  palette.colors[2].role = 'text';
+
+  const view: SharedView = {
+    palette,
+    variant: 'dark',
+    cvd: 'protanomaly',
+    cvdModel: 'machado',
+    severity: 0.3,
+    algorithm: 'apca',
+  };
+
+  it('restores the encoded view', () => {
+    const path = encodeSharedView(view);
+    expect(path).toMatch(/^\/p\/1e3a8a-f59e0b-111827\?/);
+
+    const decoded = decodePath(path);
+    expect(decoded).not.toBeNull();
+    expect(decoded?.palette.name).toBe('Brand palette');
+    expect(decoded?.palette.colors.map(({ hex, name, role }) => ({ hex, name, role }))).toEqual([
+      { hex: '#1e3a8a', name: 'primary', role: 'accent' },
+      { hex: '#f59e0b', name: '', role: undefined },
+      { hex: '#111827', name: 'text & more', role: 'text' },
+    ]);
+    expect({ ...decoded, palette: undefined }).toEqual({ ...view, palette: undefined });
+  });
+
+  it('leaves defaults out of the query', () => {
+    const path = encodeSharedView({
+      ...view,
+      palette: createPalette(['#ffffff', '#000000']),
+      cvd: 'deuteranopia',
+      cvdModel: DEFAULT_CVD_ALGORITHM,
+      severity: DEFAULT_CVD_SEVERITY,
+      algorithm: 'wcag',
+    });
+    expect(path).toBe('/p/ffffff-000000?variant=dark&cvd=deuteranopia&name=myPalette');
+  });
+
+  it('falls back to defaults for invalid query values', () => {
+    const decoded = decodePath('/p/fff-000?variant=dim&cvd=nope&model=nope&severity=4&algorithm=nope&r=nope');
+    expect(decoded).toMatchObject({
+      variant: 'light',
+      cvd: 'deuteranopia',
+      cvdModel: DEFAULT_CVD_ALGORITHM,
+      severity: DEFAULT_CVD_SEVERITY,
+      algorithm: 'wcag',
+    });
+    expect(decoded?.palette.colors.map(({ hex, role }) => ({ hex, role }))).toEqual([
+      { hex: '#fff', role: undefined },
+      { hex: '#000', role: undefined },
+    ]);
+  });
+
+  it('rejects paths that are not lists of hex colors', () => {
+    expect(decodePath('/p/fff-zzz')).toBeNull();
+    expect(decodePath('/p/')).toBeNull();
+  });
+});
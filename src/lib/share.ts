@@ -0,0 +1,106 @@
+import chroma from 'chroma-js';
+import type { ContrastAlgorithm } from './audit';
+import {
+  colorBlindnessTypeIds,
+  cvdAlgorithmLabels,
+  DEFAULT_CVD_ALGORITHM,
+  DEFAULT_CVD_SEVERITY,
+  isAnomalousType,
+  type ColorBlindnessType,
+  type CvdAlgorithm,
+} from './cvd';
+import { createPalette, type Palette } from './palette';
+import { colorRoleLabels, type ColorRole } from './roles';
+
+/**
+ * Shareable links. The palette lives in the path (`/p/1e3a8a-f59e0b`) and the
+ * rest of the view in the query, so a link restores exactly what was on screen:
+ * `/p/1e3a8a-f59e0b?variant=dark&cvd=deuteranopia&n=primary&n=accent`.
+ */
+
+export type PaletteVariantName = 'light' | 'dark';
+
+export interface SharedView {
+  palette: Palette;
+  variant: PaletteVariantName;
+  cvd: ColorBlindnessType;
+  /** CVD simulation model */
+  cvdModel: CvdAlgorithm;
+  /** Severity of anomalous CVD types */
+  severity: number;
+  algorithm: ContrastAlgorithm;
+}
+
+export const SHARE_ROUTE = '/p/:colors';
+
+const HEX_SEGMENT = /^(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Encodes a view as a router path with query string.
+ */
+export const encodeSharedView = ({
+  palette,
+  variant,
+  cvd,
+  cvdModel,
+  severity,
+  algorithm,
+}: SharedView): string => {
+  const colors = palette.colors
+    .map((color) => (chroma.valid(color.hex) ? chroma(color.hex).hex() : color.hex).replace(/^#/, ''))
+    .join('-');
+  const params = new URLSearchParams({ variant, cvd });
+
+  if (cvdModel !== DEFAULT_CVD_ALGORITHM) params.set('model', cvdModel);
+  if (isAnomalousType(cvd) && severity !== DEFAULT_CVD_SEVERITY) {
+    params.set('severity', String(severity));
+  }
+  if (algorithm !== 'wcag') params.set('algorithm', algorithm);
+  if (palette.name) params.set('name', palette.name);
+  // Names and roles are repeated params in palette order, with blanks for gaps
+  if (palette.colors.some((color) => color.name)) {
+    palette.colors.forEach((color) => params.append('n', color.name));
+  }
+  if (palette.colors.some((color) => color.role)) {
+    palette.colors.forEach((color) => params.append('r', color.role ?? ''));
+  }
+
+  return `/p/${colors}?${params.toString()}`;
+};
+
+/**
+ * Decodes the path segment and query of a shared link. Unknown or invalid
+ * query values fall back to defaults.
+ * @returns The view, or null when the colors segment isn't a list of hex colors.
+ */
+export const decodeSharedView = (colors: string, params: URLSearchParams): SharedView | null => {
+  const hexes = colors.split('-');
+  if (hexes.length === 0 || !hexes.every((hex) => HEX_SEGMENT.test(hex))) return null;
+
+  const names = params.getAll('n');
+  const roles = params.getAll('r');
+  const name = params.get('name');
+  const palette = createPalette(
+    hexes.map((hex, index) => ({ name: names[index] ?? '', color: `#${hex.toLowerCase()}` })),
+    name ? { name } : {}
+  );
+  palette.colors.forEach((color, index) => {
+    const role = roles[index];
+    if (role && role in colorRoleLabels) color.role = role as ColorRole;
+  });
+
+  const cvd = params.get('cvd') as ColorBlindnessType | null;
+  const cvdModel = params.get('model');
+  const severity = Number(params.get('severity') ?? NaN);
+  return {
+    palette,
+    variant: params.get('variant') === 'dark' ? 'dark' : 'light',
+    cvd: cvd && colorBlindnessTypeIds.includes(cvd) ? cvd : 'deuteranopia',
+    cvdModel:
+      cvdModel && cvdModel in cvdAlgorithmLabels
+        ? (cvdModel as CvdAlgorithm)
+        : DEFAULT_CVD_ALGORITHM,
+    severity: severity >= 0 && severity <= 1 ? severity : DEFAULT_CVD_SEVERITY,
+    algorithm: params.get('algorithm') === 'apca' ? 'apca' : 'wcag',
+  };
+};
@@ -1,86 +1,69 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 import chroma from "chroma-js";
+import {
+  auditContrast,
+  CONFORMANCE_THRESHOLDS,
+  getContrastRatio,
+  getLightnessContrast,
+  meetsConformance,
+  type ConformanceTarget,
+  type ContrastAlgorithm,
+} from "./audit";
+import {
+  simulateColorBlindness,
+  simulatePaletteColorBlindness,
+  type ColorBlindnessOptions,
+  type ColorBlindnessType,
+} from "./cvd";
+import {
+  adjustColor,
+  DEFAULT_COLOR_SPACE,
+  fromPolar,
+  toPolar,
+  type ColorSpace,
+} from "./color-space";
+import { tokenizeCssColors } from "./css-color";
+import { analyzeHarmony, type HarmonyScheme } from "./harmony";
+import { DEFAULT_CONFUSABLE_THRESHOLD, getDeltaE } from "./cvd-audit";
+import { generateDarkTheme } from "./dark-theme";
+import type { ColorPairing } from "./roles";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-// Convert hex to RGB
+// Convert hex to RGB, with alpha from 0 to 1 (1 unless given as 4 or 8 digits)
 export function hexToRgb(
   hex: string
-): { r: number; g: number; b: number } | null {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+): { r: number; g: number; b: number; a: number } | null {
+  const result = /^#([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})?$/i.exec(
+    formatHexColor(hex)
+  );
   return result
     ? {
         r: parseInt(result[1], 16),
         g: parseInt(result[2], 16),
         b: parseInt(result[3], 16),
+        a: result[4] ? parseInt(result[4], 16) / 255 : 1,
       }
     : null;
 }
 
-// Calculate relative luminance for WCAG contrast
-export function luminance(r: number, g: number, b: number): number {
-  const a = [r, g, b].map((v) => {
-    v /= 255;
-    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
-  });
-  return a[0] * 0.2126 + a[1] * 0.7152 + a[2] * 0.0722;
-}
-
-// Calculate contrast ratio between two colors
-export function getContrastRatio(color1: string, color2: string): number {
-  const rgb1 = hexToRgb(color1);
-  const rgb2 = hexToRgb(color2);
-
-  if (!rgb1 || !rgb2) return 1;
-
-  const lum1 = luminance(rgb1.r, rgb1.g, rgb1.b);
-  const lum2 = luminance(rgb2.r, rgb2.g, rgb2.b);
-
-  const brightest = Math.max(lum1, lum2);
-  const darkest = Math.min(lum1, lum2);
-
-  return (brightest + 0.05) / (darkest + 0.05);
-}
-
-// Evaluate contrast against WCAG standards
-export function evaluateContrast(ratio: number): {
-  level: "fail" | "AA large" | "AA" | "AAA";
-  score: number;
-} {
-  let level: "fail" | "AA large" | "AA" | "AAA" = "fail";
-  let score = 0;
-
-  if (ratio >= 7) {
-    level = "AAA";
-    score = 100;
-  } else if (ratio >= 4.5) {
-    level = "AA";
-    score = 80;
-  } else if (ratio >= 3) {
-    level = "AA large";
-    score = 50;
-  } else {
-    score = (ratio / 3) * 50; // Scale for scores below AA large
-  }
-
-  return { level, score };
-}
-
 // Get the best text color (black or white) for a background
 export function getTextColor(backgroundColor: string): string {
   try {
-    return chroma.contrast(backgroundColor, "white") > 4.5 ? "white" : "black";
+    return meetsConformance(getContrastRatio(backgroundColor, "white"))
+      ? "white"
+      : "black";
   } catch {
     return "black"; // Default to black on error
   }
 }
 
-// Check if a color is valid hex
+// Check if a color is valid hex, including #rgba and #rrggbbaa with alpha
 export function isValidHex(color: string): boolean {
-  return /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(color);
+  return /^#([A-Fa-f0-9]{8}|[A-Fa-f0-9]{6}|[A-Fa-f0-9]{3,4})$/.test(color);
 }
 
 // Generate a random hex color
@@ -97,85 +80,41 @@ export function formatHexColor(color: string): string {
   if (!color.startsWith("#")) {
     color = "#" + color;
   }
-  // Convert 3-digit hex to 6-digit
-  if (color.length === 4) {
-    color = `#${color[1]}${color[1]}${color[2]}${color[2]}${color[3]}${color[3]}`;
+  // Convert 3- and 4-digit hex to 6 and 8 digits
+  if (color.length === 4 || color.length === 5) {
+    color = `#${[...color.slice(1)].map((digit) => digit + digit).join("")}`;
   }
   return color;
 }
 
-// Calculate color harmony score (simplified version)
+// Calculate color harmony score from the closest color-theory scheme and the
+// lightness and chroma balance (see analyzeHarmony)
 export function calculateHarmonyScore(colors: string[]): number {
-  if (colors.length < 2) return 100; // Perfect harmony for a single color
-
-  // This is a simplified calculation - a real implementation would
-  // consider color theory principles like complementary, analogous, etc.
-  let score = 100;
-
-  // Check if colors are too similar (penalize slightly)
-  for (let i = 0; i < colors.length; i++) {
-    for (let j = i + 1; j < colors.length; j++) {
-      const rgb1 = hexToRgb(colors[i]);
-      const rgb2 = hexToRgb(colors[j]);
-
-      if (!rgb1 || !rgb2) continue;
-
-      // Calculate simple Euclidean distance in RGB space
-      const distance = Math.sqrt(
-        Math.pow(rgb1.r - rgb2.r, 2) +
-          Math.pow(rgb1.g - rgb2.g, 2) +
-          Math.pow(rgb1.b - rgb2.b, 2)
-      );
-
-      // Penalize if colors are too similar
-      if (distance < 30) {
-        score -= 5;
-      }
-
-      // Penalize if colors are extremely different (potential clash)
-      if (distance > 440) {
-        // sqrt(255^2 * 3) ~= 442 is max distance
-        score -= 5;
-      }
-    }
-  }
-
-  return Math.max(0, score);
+  return analyzeHarmony(colors).score;
 }
 
 // Get recommended colors based on a primary color
-export function getRecommendedColors(primaryColor: string): string[] {
+export function getRecommendedColors(
+  primaryColor: string,
+  space: ColorSpace = DEFAULT_COLOR_SPACE
+): string[] {
   try {
-    const chromaColor = chroma(primaryColor);
-    const hsl = chromaColor.hsl();
+    const base = toPolar(primaryColor, space);
+    const rotate = (degrees: number) =>
+      fromPolar({ l: base.l || 0.5, c: base.c || 0.5, h: base.h + degrees }, space);
     const suggestions: string[] = [];
 
     // Always include the original color
     suggestions.push(primaryColor);
 
     // Generate complementary color (180 degrees opposite)
-    const complementary = chroma
-      .hsl((hsl[0] + 180) % 360, hsl[1] || 0.5, hsl[2] || 0.5)
-      .hex();
-    suggestions.push(complementary);
+    suggestions.push(rotate(180));
 
     // Generate triadic colors (120 degrees apart)
-    const triadic1 = chroma
-      .hsl((hsl[0] + 120) % 360, hsl[1] || 0.5, hsl[2] || 0.5)
-      .hex();
-    const triadic2 = chroma
-      .hsl((hsl[0] + 240) % 360, hsl[1] || 0.5, hsl[2] || 0.5)
-      .hex();
-    suggestions.push(triadic1, triadic2);
+    suggestions.push(rotate(120), rotate(240));
 
     // Generate analogous colors (30 degrees apart)
-    const analogous1 = chroma
-      .hsl((hsl[0] + 30) % 360, hsl[1] || 0.5, hsl[2] || 0.5)
-      .hex();
-    const analogous2 = chroma
-      .hsl((hsl[0] - 30 + 360) % 360, hsl[1] || 0.5, hsl[2] || 0.5)
-      .hex();
-    suggestions.push(analogous1, analogous2);
+    suggestions.push(rotate(30), rotate(-30));
 
     return suggestions.slice(0, 6); // Return top 6 suggestions
   } catch (error) {
@@ -188,14 +127,15 @@ export function getRecommendedColors(primaryColor: string): string[] {
 export function generateImprovedPalette(
   currentPalette: string[],
   accessibilityScore: number,
-  harmonyScore: number
+  harmonyScore: number,
+  space: ColorSpace = DEFAULT_COLOR_SPACE
 ): string[] {
   if (currentPalette.length === 0) return [];
 
   try {
     const improvedPalette: string[] = [];
     const primaryColor = currentPalette[0];
-    const chromaPrimary = chroma(primaryColor);
+    const primary = toPolar(primaryColor, space);
 
     // Always keep the primary color as base
     improvedPalette.push(primaryColor);
@@ -203,69 +143,61 @@ export function generateImprovedPalette(
     // If accessibility is poor, generate high contrast colors
     if (accessibilityScore < 60) {
       // Add a high contrast color (very light or very dark)
-      const primaryLuminance = chromaPrimary.luminance();
+      const primaryLuminance = chroma(primaryColor).luminance();
       const highContrastColor =
         primaryLuminance > 0.5
-          ? chroma.hsl(chromaPrimary.hsl()[0], 0.3, 0.1).hex() // Dark color
-          : chroma.hsl(chromaPrimary.hsl()[0], 0.3, 0.9).hex(); // Light color
+          ? fromPolar({ h: primary.h, c: 0.3, l: 0.1 }, space) // Dark color
+          : fromPolar({ h: primary.h, c: 0.3, l: 0.9 }, space); // Light color
       improvedPalette.push(highContrastColor);
     }
 
+    const c = primary.c || 0.6;
+    const l = primary.l || 0.5;
+
     // If harmony is poor, use color theory to improve relationships
     if (harmonyScore < 70) {
-      const hsl = chromaPrimary.hsl();
-
       // Add complementary color for balance
-      const complementary = chroma
-        .hsl(
-          (hsl[0] + 180) % 360,
-          Math.min(hsl[1] || 0.6, 0.7), // Slightly reduce saturation
-          hsl[2] || 0.5
-        )
-        .hex();
+      const complementary = fromPolar(
+        {
+          h: primary.h + 180,
+          c: Math.min(c, 0.7), // Slightly reduce chroma
+          l,
+        },
+        space
+      );
       improvedPalette.push(complementary);
 
       // Add split-complementary colors for more sophisticated harmony
-      const splitComp1 = chroma
-        .hsl((hsl[0] + 150) % 360, (hsl[1] || 0.6) * 0.8, hsl[2] || 0.5)
-        .hex();
-      const splitComp2 = chroma
-        .hsl((hsl[0] + 210) % 360, (hsl[1] || 0.6) * 0.8, hsl[2] || 0.5)
-        .hex();
+      const splitComp1 = fromPolar({ h: primary.h + 150, c: c * 0.8, l }, space);
+      const splitComp2 = fromPolar({ h: primary.h + 210, c: c * 0.8, l }, space);
       improvedPalette.push(splitComp1, splitComp2);
     } else {
       // If harmony is good, add subtle variations
-      const hsl = chromaPrimary.hsl();
 
       // Add lighter and darker variants
-      const lighter = chroma
-        .hsl(
-          hsl[0],
-          (hsl[1] || 0.6) * 0.7,
-          Math.min((hsl[2] || 0.5) + 0.3, 0.9)
-        )
-        .hex();
-      const darker = chroma
-        .hsl(hsl[0], hsl[1] || 0.6, Math.max((hsl[2] || 0.5) - 0.3, 0.1))
-        .hex();
+      const lighter = fromPolar(
+        { h: primary.h, c: c * 0.7, l: Math.min(l + 0.3, 0.9) },
+        space
+      );
+      const darker = fromPolar(
+        { h: primary.h, c, l: Math.max(l - 0.3, 0.1) },
+        space
+      );
       improvedPalette.push(lighter, darker);
 
       // Add analogous color for warmth
-      const analogous = chroma
-        .hsl((hsl[0] + 30) % 360, hsl[1] || 0.6, hsl[2] || 0.5)
-        .hex();
+      const analogous = fromPolar({ h: primary.h + 30, c, l }, space);
       improvedPalette.push(analogous);
     }
 
     // Ensure we have neutral colors for balance
-    const hasNeutral = improvedPalette.some((color) => {
-      const saturation = chroma(color).hsl()[1] || 0;
-      return saturation < 0.2;
-    });
+    const hasNeutral = improvedPalette.some(
+      (color) => toPolar(color, space).c < 0.2
+    );
 
     if (!hasNeutral) {
       // Add a neutral color
-      const neutral = chroma.hsl(chromaPrimary.hsl()[0], 0.1, 0.7).hex();
+      const neutral = fromPolar({ h: primary.h, c: 0.1, l: 0.7 }, space);
       improvedPalette.push(neutral);
     }
 
@@ -328,33 +260,28 @@ function ensureAccessiblePalette(colors: string[]): string[] {
 
     // Check if this color has good contrast with others
     let hasGoodContrast = false;
+    let bestPartner: string | null = null;
     for (let j = 0; j < colors.length; j++) {
       if (i !== j) {
-        const contrast = chroma.contrast(color, colors[j]);
-        if (contrast >= 4.5) {
+        if (meetsConformance(getContrastRatio(color, colors[j]))) {
           hasGoodContrast = true;
           break;
         }
+        if (
+          !bestPartner ||
+          getContrastRatio(color, colors[j]) >
+            getContrastRatio(color, bestPartner)
+        ) {
+          bestPartner = colors[j];
+        }
       }
     }
 
-    // If no good contrast, adjust the color
-    if (!hasGoodContrast && colors.length > 1) {
-      const hsl = chroma(color).hsl();
-      const lightness = hsl[2] || 0.5;
-
-      // Make it lighter or darker to improve contrast
-      const adjustedColor = chroma
-        .hsl(
-          hsl[0],
-          hsl[1] || 0.6,
-          lightness > 0.5
-            ? Math.max(lightness - 0.4, 0.1)
-            : Math.min(lightness + 0.4, 0.9)
-        )
-        .hex();
-
-      color = adjustedColor;
+    // If no good contrast, move its lightness just far enough to pass with
+    // the partner it already contrasts best with
+    if (!hasGoodContrast && bestPartner) {
+      const fix = fixContrast(color, bestPartner, { adjust: "foreground" });
+      if (fix) color = fix.foreground;
     }
 
     accessiblePalette.push(color);
@@ -363,20 +290,155 @@ function ensureAccessiblePalette(colors: string[]): string[] {
   return accessiblePalette;
 }
 
-// Generate color suggestions based on specific color harmony types
+export type ContrastFixSide = "foreground" | "background" | "both";
+
+export interface ContrastFixOptions {
+  algorithm?: ContrastAlgorithm;
+  /** Minimum ratio (WCAG, e.g. 3, 4.5 or 7) or |Lc| (APCA). Defaults to AA for normal text */
+  target?: number;
+  /** Which color may change */
+  adjust?: ContrastFixSide;
+}
+
+export interface ContrastFix {
+  foreground: string;
+  background: string;
+  /** Contrast of the fixed pair: ratio or Lc */
+  value: number;
+}
+
+// Set the OKLCH lightness of a color, keeping its hue. Chroma is reduced only
+// as far as needed to stay within sRGB.
+function setOklchLightness(color: string, lightness: number): string {
+  // Grays come back with a tiny, noisy chroma; keep them neutral
+  return adjustColor(
+    color,
+    ({ c }) => ({ l: lightness, c: c > 0.0025 ? c : 0 }),
+    "oklch"
+  );
+}
+
+// Find the smallest lightness shift (0-1) for which a pair passes
+function findSmallestShift(
+  shift: (amount: number) => [string, string],
+  passes: (pair: [string, string]) => boolean
+): number | null {
+  const step = 0.01;
+  let failing = 0;
+  let passing: number | null = null;
+
+  for (let amount = step; amount <= 1 + step / 2; amount += step) {
+    if (passes(shift(amount))) {
+      passing = amount;
+      break;
+    }
+    failing = amount;
+  }
+  if (passing === null) return null;
+
+  // Narrow down between the last failing and first passing step
+  let upper = passing;
+  for (let i = 0; i < 12; i++) {
+    const middle = (failing + upper) / 2;
+    if (passes(shift(middle))) {
+      upper = middle;
+    } else {
+      failing = middle;
+    }
+  }
+  return upper;
+}
+
+// Find the closest passing colors for a pair by changing only OKLCH lightness
+export function fixContrast(
+  foreground: string,
+  background: string,
+  {
+    algorithm = "wcag",
+    target = CONFORMANCE_THRESHOLDS[algorithm]["normal-text"].AA,
+    adjust = "both",
+  }: ContrastFixOptions = {}
+): ContrastFix | null {
+  const measure = ([fg, bg]: [string, string]) =>
+    algorithm === "apca"
+      ? getLightnessContrast(fg, bg)
+      : getContrastRatio(fg, bg);
+  const passes = (pair: [string, string]) =>
+    Math.abs(measure(pair)) >= target;
+
+  try {
+    const original: [string, string] = [
+      chroma(foreground).hex(),
+      chroma(background).hex(),
+    ];
+    if (passes(original)) {
+      return {
+        foreground: original[0],
+        background: original[1],
+        value: measure(original),
+      };
+    }
+
+    const [fgL] = chroma(foreground).oklch();
+    const [bgL] = chroma(background).oklch();
+
+    // Candidate directions: each side up or down, or both apart from each other
+    const shifts: ((amount: number) => [string, string])[] = [];
+    if (adjust !== "background") {
+      shifts.push(
+        (amount) => [setOklchLightness(foreground, fgL + amount), original[1]],
+        (amount) => [setOklchLightness(foreground, fgL - amount), original[1]]
+      );
+    }
+    if (adjust !== "foreground") {
+      shifts.push(
+        (amount) => [original[0], setOklchLightness(background, bgL + amount)],
+        (amount) => [original[0], setOklchLightness(background, bgL - amount)]
+      );
+    }
+    if (adjust === "both") {
+      // The lighter color gets lighter and the darker one darker, half each
+      const direction = fgL >= bgL ? 1 : -1;
+      shifts.push((amount) => [
+        setOklchLightness(foreground, fgL + (direction * amount) / 2),
+        setOklchLightness(background, bgL - (direction * amount) / 2),
+      ]);
+    }
+
+    let best: { amount: number; pair: [string, string] } | null = null;
+    for (const shift of shifts) {
+      const amount = findSmallestShift(shift, passes);
+      if (amount !== null && (!best || amount < best.amount)) {
+        best = { amount, pair: shift(amount) };
+      }
+    }
+    if (!best) return null;
+
+    return {
+      foreground: best.pair[0],
+      background: best.pair[1],
+      value: measure(best.pair),
+    };
+  } catch (error) {
+    console.error("Error fixing contrast:", error);
+    return null;
+  }
+}
+
+// Generate color suggestions based on specific color harmony types. Hues are
+// rotated at the base color's lightness and chroma, so in a perceptual space
+// every color of the harmony looks equally light and colorful.
 export function generateColorHarmony(
   baseColor: string,
-  harmonyType:
-    | "monochromatic"
-    | "analogous"
-    | "complementary"
-    | "triadic"
-    | "tetradic"
-    | "splitComplementary"
+  harmonyType: HarmonyScheme,
+  space: ColorSpace = DEFAULT_COLOR_SPACE
 ): string[] {
   try {
-    const chromaColor = chroma(baseColor);
-    const hsl = chromaColor.hsl();
+    const base = toPolar(baseColor, space);
+    const c = base.c || 0.6;
+    const l = base.l || 0.5;
+    const rotate = (degrees: number) =>
+      fromPolar({ h: base.h + degrees, c, l }, space);
     const colors: string[] = [];
 
     colors.push(baseColor); // Always include the base color
@@ -385,16 +447,17 @@ export function generateColorHarmony(
       case "monochromatic":
         // Generate different shades and tints of the same hue
         for (let i = 1; i <= 4; i++) {
-          const lightnessVariation = (hsl[2] || 0.5) + (i * 0.15 - 0.3);
-          const saturationVariation = (hsl[1] || 0.6) * (1 - i * 0.1);
+          const lightnessVariation = l + (i * 0.15 - 0.3);
+          const chromaVariation = c * (1 - i * 0.1);
           colors.push(
-            chroma
-              .hsl(
-                hsl[0],
-                Math.max(0.1, Math.min(1, saturationVariation)),
-                Math.max(0.1, Math.min(0.9, lightnessVariation))
-              )
-              .hex()
+            fromPolar(
+              {
+                h: base.h,
+                c: Math.max(0.1, Math.min(1, chromaVariation)),
+                l: Math.max(0.1, Math.min(0.9, lightnessVariation)),
+              },
+              space
+            )
           );
         }
         break;
@@ -402,72 +465,42 @@ export function generateColorHarmony(
       case "analogous":
         // Colors adjacent on the color wheel (30 degrees apart)
         for (let i = 1; i <= 4; i++) {
-          const hueShift = i * 30;
-          colors.push(
-            chroma
-              .hsl((hsl[0] + hueShift) % 360, hsl[1] || 0.6, hsl[2] || 0.5)
-              .hex()
-          );
+          colors.push(rotate(i * 30));
         }
         break;
 
       case "complementary":
         // Color opposite on the color wheel
-        colors.push(
-          chroma.hsl((hsl[0] + 180) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
+        colors.push(rotate(180));
         // Add variations of both colors
         colors.push(
-          chroma
-            .hsl(
-              hsl[0],
-              (hsl[1] || 0.6) * 0.7,
-              Math.min((hsl[2] || 0.5) + 0.2, 0.9)
-            )
-            .hex()
+          fromPolar({ h: base.h, c: c * 0.7, l: Math.min(l + 0.2, 0.9) }, space)
         );
         colors.push(
-          chroma
-            .hsl(
-              (hsl[0] + 180) % 360,
-              (hsl[1] || 0.6) * 0.7,
-              Math.min((hsl[2] || 0.5) + 0.2, 0.9)
-            )
-            .hex()
+          fromPolar(
+            { h: base.h + 180, c: c * 0.7, l: Math.min(l + 0.2, 0.9) },
+            space
+          )
         );
         break;
 
       case "triadic":
         // Three colors evenly spaced on the color wheel
-        colors.push(
-          chroma.hsl((hsl[0] + 120) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
-        colors.push(
-          chroma.hsl((hsl[0] + 240) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
+        colors.push(rotate(120));
+        colors.push(rotate(240));
         break;
 
       case "tetradic":
         // Four colors forming a rectangle on the color wheel
-        colors.push(
-          chroma.hsl((hsl[0] + 90) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
-        colors.push(
-          chroma.hsl((hsl[0] + 180) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
-        colors.push(
-          chroma.hsl((hsl[0] + 270) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
+        colors.push(rotate(90));
+        colors.push(rotate(180));
+        colors.push(rotate(270));
         break;
 
       case "splitComplementary":
         // Base color plus two colors adjacent to its complement
-        colors.push(
-          chroma.hsl((hsl[0] + 150) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
-        colors.push(
-          chroma.hsl((hsl[0] + 210) % 360, hsl[1] || 0.6, hsl[2] || 0.5).hex()
-        );
+        colors.push(rotate(150));
+        colors.push(rotate(210));
         break;
     }
 
@@ -478,112 +511,10 @@ export function generateColorHarmony(
   }
 }
 
-// Parse multiple colors from pasted text
+// Parse multiple colors from pasted text: hex, named colors and any CSS
+// Color 4 function (see tokenizeCssColors)
 export function parseColorsFromText(text: string): string[] {
-  const colors: string[] = [];
-
-  // Regular expressions for different color formats
-  const hexRegex = /#(?:[0-9a-fA-F]{3}){1,2}\b/g;
-  const hexWithoutHashRegex = /\b(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})\b/g;
-  const rgbRegex = /rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)/g;
-  const rgbaRegex =
-    /rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([0-9]*\.?[0-9]+)\s*\)/g;
-  const hslRegex = /hsl\(\s*(\d+)\s*,\s*(\d+)%\s*,\s*(\d+)%\s*\)/g;
-  const hslaRegex =
-    /hsla\(\s*(\d+)\s*,\s*(\d+)%\s*,\s*(\d+)%\s*,\s*([0-9]*\.?[0-9]+)\s*\)/g;
-
-  // Extract hex colors with #
-  const hexMatches = text.match(hexRegex);
-  if (hexMatches) {
-    hexMatches.forEach((hex) => {
-      try {
-        const validHex = chroma(hex).hex();
-        colors.push(validHex);
-      } catch {
-        // Invalid hex, skip
-      }
-    });
-  }
-
-  // Extract hex colors without # and add the # prefix
-  const hexWithoutHashMatches = text.match(hexWithoutHashRegex);
-  if (hexWithoutHashMatches) {
-    hexWithoutHashMatches.forEach((hex) => {
-      // Skip if it's already been processed as a hex with #
-      if (colors.includes(`#${hex}`)) return;
-
-      // Skip if it's a number that's too short or too long
-      if (hex.length !== 3 && hex.length !== 6) return;
-
-      // Skip if it contains only numbers (likely not a hex color)
-      if (/^\d+$/.test(hex)) return;
-
-      try {
-        const validHex = chroma(`#${hex}`).hex();
-        colors.push(validHex);
-      } catch {
-        // Invalid hex, skip
-      }
-    });
-  }
-
-  // Extract RGB colors
-  let rgbMatch;
-  while ((rgbMatch = rgbRegex.exec(text)) !== null) {
-    try {
-      const [, r, g, b] = rgbMatch;
-      const color = chroma.rgb(parseInt(r), parseInt(g), parseInt(b)).hex();
-      colors.push(color);
-    } catch {
-      // Invalid RGB, skip
-    }
-  }
-
-  // Extract RGBA colors
-  let rgbaMatch;
-  while ((rgbaMatch = rgbaRegex.exec(text)) !== null) {
-    try {
-      const [, r, g, b, a] = rgbaMatch;
-      const color = chroma
-        .rgb(parseInt(r), parseInt(g), parseInt(b), parseFloat(a))
-        .hex();
-      colors.push(color);
-    } catch {
-      // Invalid RGBA, skip
-    }
-  }
-
-  // Extract HSL colors
-  let hslMatch;
-  while ((hslMatch = hslRegex.exec(text)) !== null) {
-    try {
-      const [, h, s, l] = hslMatch;
-      const color = chroma
-        .hsl(parseInt(h), parseInt(s) / 100, parseInt(l) / 100)
-        .hex();
-      colors.push(color);
-    } catch {
-      // Invalid HSL, skip
-    }
-  }
-
-  // Extract HSLA colors
-  let hslaMatch;
-  while ((hslaMatch = hslaRegex.exec(text)) !== null) {
-    try {
-      const [, h, s, l, a] = hslaMatch;
-      const color = chroma
-        .hsl(parseInt(h), parseInt(s) / 100, parseInt(l) / 100)
-        .alpha(parseFloat(a))
-        .hex();
-      colors.push(color);
-    } catch {
-      // Invalid HSLA, skip
-    }
-  }
-
-  // Remove duplicates and return
-  return [...new Set(colors)];
+  return [...new Set(tokenizeCssColors(text).map((match) => match.hex))];
 }
 
 // Generate suggestions specifically for improving accessibility
@@ -639,6 +570,195 @@ export function generateAccessibilityImprovedColors(
   }
 }
 
+// Deficiencies a CVD-safe palette must hold up under, one per cone type
+export const CVD_REPAIR_TYPES: ColorBlindnessType[] = [
+  "protanopia",
+  "deuteranopia",
+  "tritanopia",
+];
+
+export interface CvdRepairOptions {
+  /** Minimum ΔE2000 between every pair, with normal vision and each deficiency */
+  threshold?: number;
+  types?: ColorBlindnessType[];
+  simulation?: ColorBlindnessOptions;
+  /** Declared pairings; those that meet their contrast requirement keep meeting it */
+  pairings?: ColorPairing[];
+  contrastAlgorithm?: ContrastAlgorithm;
+  target?: ConformanceTarget;
+  /** Indices of colors that must not change, e.g. locked colors */
+  fixed?: number[];
+}
+
+export interface CvdRepairChange {
+  index: number;
+  from: string;
+  to: string;
+  /** ΔE2000 between the original and the repaired color */
+  deltaE: number;
+}
+
+export interface CvdRepairResult {
+  palette: string[];
+  changes: CvdRepairChange[];
+  /** Pairs of palette indices that are still confusable */
+  unresolved: [number, number][];
+}
+
+// OKLCH offsets tried when moving a color: mostly lightness and hue, with
+// chroma left alone so the color keeps its character
+const REPAIR_LIGHTNESS_STEPS = Array.from({ length: 31 }, (_, i) => (i - 15) * 0.02);
+const REPAIR_HUE_STEPS = Array.from({ length: 21 }, (_, i) => (i - 10) * 6);
+const MAX_REPAIR_STEPS = 30;
+
+// Nudge palette colors in OKLCH until every pair stays distinguishable under
+// color vision deficiencies, changing as little as possible
+export function generateCvdSafePalette(
+  palette: string[],
+  {
+    threshold = DEFAULT_CONFUSABLE_THRESHOLD,
+    types = CVD_REPAIR_TYPES,
+    simulation = {},
+    pairings = [],
+    contrastAlgorithm = "wcag",
+    target = "AA",
+    fixed = [],
+  }: CvdRepairOptions = {}
+): CvdRepairResult {
+  const colors = palette.map((color) => chroma(color).hex());
+  const simulated = types.map((type) =>
+    simulatePaletteColorBlindness(colors, type, simulation)
+  );
+
+  // Smallest ΔE of a pair across normal vision and every deficiency
+  const getPairDistance = (i: number, j: number) =>
+    Math.min(
+      getDeltaE(colors[i], colors[j]),
+      ...simulated.map((sims) => getDeltaE(sims[i], sims[j]))
+    );
+
+  const getConfusedWith = (index: number) =>
+    colors
+      .map((_, other) => other)
+      .filter(
+        (other) =>
+          other !== index && getPairDistance(index, other) < threshold
+      );
+
+  const passesPairing = (pairing: ColorPairing, candidate: string[]) =>
+    auditContrast(candidate[pairing.foreground], candidate[pairing.background], {
+      algorithm: contrastAlgorithm,
+      usage: pairing.usage,
+      target,
+    }).passes;
+  const requiredPairings = pairings.filter((pairing) =>
+    passesPairing(pairing, colors)
+  );
+
+  // Finds the smallest move of a color that separates it from `partner`
+  // without confusing it with anything else or breaking its pairings
+  const findMove = (index: number, partner: number) => {
+    const original = chroma(palette[index]);
+    const [l, c, h] = original.oklch();
+    const confusedBefore = getConfusedWith(index);
+    const candidates = REPAIR_LIGHTNESS_STEPS.flatMap((dl) =>
+      REPAIR_HUE_STEPS.map((dh) => chroma.oklch(l + dl, c, (h || 0) + dh))
+    )
+      .filter((candidate) => !candidate.clipped())
+      .map((candidate) => ({
+        hex: candidate.hex(),
+        deltaE: getDeltaE(original.hex(), candidate.hex()),
+      }))
+      .sort((a, b) => a.deltaE - b.deltaE);
+
+    const previous = colors[index];
+    const previousSimulated = simulated.map((sims) => sims[index]);
+    for (const candidate of candidates) {
+      colors[index] = candidate.hex;
+      types.forEach((type, t) => {
+        simulated[t][index] = simulateColorBlindness(
+          candidate.hex,
+          type,
+          simulation
+        );
+      });
+
+      const valid =
+        getPairDistance(index, partner) >= threshold &&
+        getConfusedWith(index).every((other) =>
+          confusedBefore.includes(other)
+        ) &&
+        requiredPairings
+          .filter(
+            (pairing) =>
+              pairing.foreground === index || pairing.background === index
+          )
+          .every((pairing) => passesPairing(pairing, colors));
+
+      colors[index] = previous;
+      simulated.forEach((sims, t) => {
+        sims[index] = previousSimulated[t];
+      });
+      if (valid) return candidate;
+    }
+    return null;
+  };
+
+  const stuck = new Set<string>();
+  for (let step = 0; step < MAX_REPAIR_STEPS; step++) {
+    const confusable: [number, number][] = [];
+    for (let i = 0; i < colors.length; i++) {
+      for (let j = i + 1; j < colors.length; j++) {
+        if (!stuck.has(`${i}:${j}`) && getPairDistance(i, j) < threshold) {
+          confusable.push([i, j]);
+        }
+      }
+    }
+    if (confusable.length === 0) break;
+
+    // Fix the most confused pair first, moving whichever color needs less change
+    confusable.sort((a, b) => getPairDistance(...a) - getPairDistance(...b));
+    const [i, j] = confusable[0];
+    const moves = [
+      { index: i, move: fixed.includes(i) ? null : findMove(i, j) },
+      { index: j, move: fixed.includes(j) ? null : findMove(j, i) },
+    ].flatMap(({ index, move }) => (move ? [{ index, ...move }] : []));
+
+    if (moves.length === 0) {
+      stuck.add(`${i}:${j}`);
+      continue;
+    }
+
+    const { index, hex } = moves.reduce((best, option) =>
+      option.deltaE < best.deltaE ? option : best
+    );
+    colors[index] = hex;
+    types.forEach((type, t) => {
+      simulated[t][index] = simulateColorBlindness(hex, type, simulation);
+    });
+  }
+
+  const unresolved: [number, number][] = [];
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      if (getPairDistance(i, j) < threshold) unresolved.push([i, j]);
+    }
+  }
+
+  return {
+    palette: colors,
+    changes: colors
+      .map((color, index) => ({
+        index,
+        from: palette[index],
+        to: color,
+        deltaE: getDeltaE(palette[index], color),
+      }))
+      .filter((change) => chroma(change.from).hex() !== change.to),
+    unresolved,
+  };
+}
+
 // Generate a random color palette
 export function generateRandomPalette(size: number = 5): string[] {
   const palette: string[] = [];
@@ -651,19 +771,15 @@ export function generateRandomPalette(size: number = 5): string[] {
 }
 
 // Generate a high-quality random palette using color harmony
-export function generateQualityRandomPalette(size: number = 5): string[] {
+export function generateQualityRandomPalette(
+  size: number = 5,
+  space: ColorSpace = DEFAULT_COLOR_SPACE
+): string[] {
   // Start with a random base color
   const baseColor = generateRandomColor();
 
   // Choose a random harmony type
-  const harmonyTypes: Array<
-    | "monochromatic"
-    | "analogous"
-    | "complementary"
-    | "triadic"
-    | "tetradic"
-    | "splitComplementary"
-  > = [
+  const harmonyTypes: HarmonyScheme[] = [
     "monochromatic",
     "analogous",
     "complementary",
@@ -676,27 +792,23 @@ export function generateQualityRandomPalette(size: number = 5): string[] {
     harmonyTypes[Math.floor(Math.random() * harmonyTypes.length)];
 
   // Generate harmony-based colors
-  const harmonyColors = generateColorHarmony(baseColor, randomHarmony);
+  const harmonyColors = generateColorHarmony(baseColor, randomHarmony, space);
 
   // If we need more colors than the harmony provides, add some variations
   while (harmonyColors.length < size) {
     try {
       const existingColor =
         harmonyColors[Math.floor(Math.random() * harmonyColors.length)];
-      const chromaColor = chroma(existingColor);
-      const hsl = chromaColor.hsl();
 
       // Create a variation by adjusting lightness slightly
-      const variation = chroma
-        .hsl(
-          hsl[0],
-          hsl[1] || 0.6,
-          Math.max(
-            0.1,
-            Math.min(0.9, (hsl[2] || 0.5) + (Math.random() - 0.5) * 0.3)
-          )
-        )
-        .hex();
+      const variation = adjustColor(
+        existingColor,
+        ({ c, l }) => ({
+          c: c || 0.6,
+          l: Math.max(0.1, Math.min(0.9, (l || 0.5) + (Math.random() - 0.5) * 0.3)),
+        }),
+        space
+      );
 
       if (!harmonyColors.includes(variation)) {
         harmonyColors.push(variation);
@@ -711,39 +823,15 @@ export function generateQualityRandomPalette(size: number = 5): string[] {
   return harmonyColors.slice(0, size);
 }
 
-// Generate dark variant of a color palette
-export function generateDarkVariant(lightPalette: string[]): string[] {
+// Generate dark variant of a color palette. Colors are solved together, so
+// each pairing keeps the contrast level it has in the light palette
+export function generateDarkVariant(
+  lightPalette: string[],
+  space: ColorSpace = DEFAULT_COLOR_SPACE,
+  pairings?: ColorPairing[]
+): string[] {
   try {
-    return lightPalette.map((color) => {
-      const chromaColor = chroma(color);
-      const hsl = chromaColor.hsl();
-
-      // For dark mode, we generally want to:
-      // 1. Reduce lightness significantly
-      // 2. Slightly increase saturation for vibrant colors
-      // 3. Maintain the hue
-
-      const currentLightness = hsl[2] || 0.5;
-      const currentSaturation = hsl[1] || 0.5;
-
-      // Calculate new lightness - darker but not too dark
-      let newLightness: number;
-      if (currentLightness > 0.7) {
-        // Very light colors become medium-dark
-        newLightness = 0.2 + (currentLightness - 0.7) * 0.3;
-      } else if (currentLightness > 0.4) {
-        // Medium colors become darker
-        newLightness = 0.15 + (currentLightness - 0.4) * 0.2;
-      } else {
-        // Already dark colors become lighter for visibility
-        newLightness = Math.min(0.6, currentLightness + 0.3);
-      }
-
-      // Slightly boost saturation for more vibrant dark colors
-      const newSaturation = Math.min(1, currentSaturation * 1.1);
-
-      return chroma.hsl(hsl[0], newSaturation, newLightness).hex();
-    });
+    return generateDarkTheme(lightPalette, { space, pairings }).colors;
   } catch (error) {
     console.error("Error generating dark variant:", error);
     return lightPalette;
@@ -751,14 +839,16 @@ export function generateDarkVariant(lightPalette: string[]): string[] {
 }
 
 // Generate light variant of a color palette
-export function generateLightVariant(darkPalette: string[]): string[] {
+export function generateLightVariant(
+  darkPalette: string[],
+  space: ColorSpace = DEFAULT_COLOR_SPACE
+): string[] {
   try {
     return darkPalette.map((color) => {
-      const chromaColor = chroma(color);
-      const hsl = chromaColor.hsl();
+      const { h, c, l } = toPolar(color, space);
 
-      const currentLightness = hsl[2] || 0.5;
-      const currentSaturation = hsl[1] || 0.5;
+      const currentLightness = l || 0.5;
+      const currentChroma = c || 0.5;
 
       // Calculate new lightness - lighter but not washed out
       let newLightness: number;
@@ -773,10 +863,10 @@ export function generateLightVariant(darkPalette: string[]): string[] {
         newLightness = Math.max(0.3, currentLightness - 0.2);
       }
 
-      // Slightly reduce saturation for softer light colors
-      const newSaturation = Math.max(0.2, currentSaturation * 0.9);
+      // Slightly reduce chroma for softer light colors
+      const newChroma = Math.max(0.2, currentChroma * 0.9);
 
-      return chroma.hsl(hsl[0], newSaturation, newLightness).hex();
+      return fromPolar({ h, c: newChroma, l: newLightness }, space);
     });
   } catch (error) {
     console.error("Error generating light variant:", error);
@@ -785,12 +875,15 @@ export function generateLightVariant(darkPalette: string[]): string[] {
 }
 
 // Generate both light and dark variants of a palette
-export function generatePaletteVariants(basePalette: string[]): {
+export function generatePaletteVariants(
+  basePalette: string[],
+  space: ColorSpace = DEFAULT_COLOR_SPACE
+): {
   light: string[];
   dark: string[];
 } {
   return {
     light: basePalette,
-    dark: generateDarkVariant(basePalette),
+    dark: generateDarkVariant(basePalette, space),
   };
 }
@@ -0,0 +1,15 @@
+import { defineConfig } from "vite";
+
+// Builds the headless CLI (src/cli) as a Node script
+export default defineConfig({
+  build: {
+    ssr: "src/cli/index.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "color-audit.js",
+      },
+    },
+  },
+});